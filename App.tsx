@@ -1,13 +1,22 @@
 import React, { useState, useEffect } from 'react';
-import { Hospital, UserRole } from './types';
-import { initMockData, loginHospital, importHospitalConfig, syncFromSupabase } from './services/storage';
+import { Hospital, User, UserRole } from './types';
+import { initLocalData, loginHospital, loginAdmin, needsInitialSetup, getHospitals, closeStaleShifts } from './services/storage';
+import { importHospitalConfig, readConfigLinkToken, isPassphraseProtected, ConfigImportResult } from './services/configLinks';
+import { purgeOtherTenants } from './services/syncEngine';
+import { setCurrentActor } from './services/session';
+import { signInWithCloud, closeCloudSessions, isCloudInitialized } from './services/cloudAuth';
+import { getAttemptStatus, recordFailedAttempt, recordSuccessfulAttempt, describeBlock, LoginSubject } from './services/loginAttempts';
 import AdminDashboard from './components/AdminDashboard';
 import HospitalPortal from './components/HospitalPortal';
-import { Activity, Building2, Lock, Shield, CheckCircle2, AlertCircle, RefreshCw } from 'lucide-react';
+import SetupWizard from './components/SetupWizard';
+import ConfigPassphrasePrompt from './components/ConfigPassphrasePrompt';
+import { Activity, Building2, Lock, Shield, CheckCircle2, AlertCircle, RefreshCw, WifiOff } from 'lucide-react';
 
 const App: React.FC = () => {
   // Auth State
-  const [isAdmin, setIsAdmin] = useState(false);
+  const [currentAdmin, setCurrentAdmin] = useState<User | null>(null);
+  const [needsSetup, setNeedsSetup] = useState(false);
+  const [awaitingCloud, setAwaitingCloud] = useState(false);
   const [activeHospital, setActiveHospital] = useState<Hospital | null>(null);
   
   // Login Form State
@@ -15,75 +24,162 @@ const App: React.FC = () => {
   const [hospitalPass, setHospitalPass] = useState('');
   const [error, setError] = useState('');
   const [showAdminLogin, setShowAdminLogin] = useState(false);
-  const [adminKey, setAdminKey] = useState('');
+  const [adminUser, setAdminUser] = useState('');
+  const [adminPass, setAdminPass] = useState('');
 
   // Config Import State
   const [importStatus, setImportStatus] = useState<{success: boolean, message: string} | null>(null);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [lockedConfigToken, setLockedConfigToken] = useState<string | null>(null);
+
+  // A new device cannot pull accounts before signing in, so ask the cloud whether any exist.
+  // Runs after any config link is imported, since an enrolled device skips setup.
+  const checkInitialSetup = async () => {
+    const initialized = needsInitialSetup() ? await isCloudInitialized() : true;
+    setAwaitingCloud(initialized === null);
+    setNeedsSetup(initialized === false);
+  };
+
+  const handleConfigImported = (result: ConfigImportResult | null) => {
+    setLockedConfigToken(null);
+    if (result) setImportStatus(result);
+    checkInitialSetup();
+  };
 
   useEffect(() => {
-    initMockData();
+    initLocalData();
 
-    // 1. Attempt Cloud Sync on Load
-    const performSync = async () => {
-      setIsSyncing(true);
-      await syncFromSupabase();
-      setIsSyncing(false);
-    };
-    performSync();
+    // 1. Local housekeeping on load. Cloud sync starts at sign-in, scoped to that account.
+    closeStaleShifts();
 
     // 2. Check for Config Link (Deep Link Sync)
-    const params = new URLSearchParams(window.location.search);
-    const config = params.get('config');
-    if (config) {
-      const result = importHospitalConfig(config);
-      setImportStatus(result);
-      // Clean URL
-      window.history.replaceState({}, document.title, window.location.pathname);
+    const token = readConfigLinkToken();
+    if (!token) {
+      checkInitialSetup();
+      return;
     }
+    // Clean URL
+    window.history.replaceState({}, document.title, window.location.pathname);
+    if (isPassphraseProtected(token)) setLockedConfigToken(token);
+    else importHospitalConfig(token).then(handleConfigImported);
   }, []);
 
-  const handleHospitalLogin = (e: React.FormEvent) => {
+  // Check again as soon as the connection returns
+  useEffect(() => {
+    if (!awaitingCloud) return;
+    const recheck = () => { checkInitialSetup(); };
+    window.addEventListener('online', recheck);
+    return () => window.removeEventListener('online', recheck);
+  }, [awaitingCloud]);
+
+  const handleHospitalLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    const hospital = loginHospital(hospitalUser, hospitalPass);
+    const subject: LoginSubject = {
+      type: 'HOSPITAL',
+      id: hospitalUser,
+      label: `Hospital login "${hospitalUser}"`,
+      hospitalId: getHospitals().find(h => h.username === hospitalUser)?.id
+    };
+    const status = getAttemptStatus(subject);
+    if (status.blocked) {
+      setError(describeBlock(status));
+      return;
+    }
+
+    setIsSyncing(true);
+    const hospital = await signInWithCloud('HOSPITAL', hospitalUser, hospitalPass, () => loginHospital(hospitalUser, hospitalPass));
+    setIsSyncing(false);
     if (hospital) {
+      recordSuccessfulAttempt(subject);
+      setCurrentActor({ id: hospital.id, name: `${hospital.name} (Manager)`, role: UserRole.MANAGER });
       setActiveHospital(hospital);
       setError('');
     } else {
-      setError('Invalid Credentials. Please try again.');
+      const failed = recordFailedAttempt(subject);
+      setError(failed.blocked ? `Invalid Credentials. ${describeBlock(failed)}` : 'Invalid Credentials. Please try again.');
     }
   };
 
-  const handleAdminLogin = (e: React.FormEvent) => {
+  const startAdminSession = (admin: User) => {
+    setCurrentActor({ id: admin.id, name: admin.name, role: UserRole.ADMIN });
+    setCurrentAdmin(admin);
+    setError('');
+  };
+
+  const handleAdminLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    // Simple mock admin check
-    if (adminKey === 'admin123') {
-      setIsAdmin(true);
-      setError('');
+    const subject: LoginSubject = { type: 'ADMIN', id: adminUser, label: `Admin login "${adminUser}"` };
+    const status = getAttemptStatus(subject);
+    if (status.blocked) {
+      setError(describeBlock(status));
+      return;
+    }
+
+    setIsSyncing(true);
+    const admin = await signInWithCloud('ADMIN', adminUser, adminPass, () => loginAdmin(adminUser, adminPass));
+    setIsSyncing(false);
+    if (admin) {
+      recordSuccessfulAttempt(subject);
+      startAdminSession(admin);
     } else {
-      setError('Invalid System Admin Key');
+      const failed = recordFailedAttempt(subject);
+      setError(failed.blocked ? `Invalid administrator username or password. ${describeBlock(failed)}` : 'Invalid administrator username or password');
     }
   };
 
+  const handleSetupComplete = (admin: User) => {
+    setNeedsSetup(false);
+    startAdminSession(admin);
+  };
+
   const handleLogout = () => {
+    closeCloudSessions();
+    if (activeHospital) purgeOtherTenants(activeHospital.id).catch(console.error);
+    setCurrentActor(null);
     setActiveHospital(null);
-    setIsAdmin(false);
+    setCurrentAdmin(null);
     setHospitalUser('');
     setHospitalPass('');
-    setAdminKey('');
+    setAdminUser('');
+    setAdminPass('');
   };
 
   // --- RENDER ---
 
   // 1. Super Admin View
-  if (isAdmin) {
+  if (currentAdmin) {
     return (
       <div className="min-h-screen bg-slate-50">
-        <AdminDashboard onLogout={handleLogout} />
+        <AdminDashboard admin={currentAdmin} onLogout={handleLogout} />
+      </div>
+    );
+  }
+
+  if (lockedConfigToken) {
+    return <ConfigPassphrasePrompt token={lockedConfigToken} onDone={handleConfigImported} />;
+  }
+
+  // Sync is enabled but the cloud, which may already have accounts, cannot be reached yet
+  if (awaitingCloud) {
+    return (
+      <div className="min-h-screen bg-slate-100 flex items-center justify-center p-4">
+        <div className="bg-white w-full max-w-md rounded-2xl shadow-xl border border-slate-200 p-8 text-center">
+          <WifiOff className="w-12 h-12 mx-auto mb-3 text-slate-400" />
+          <h2 className="text-lg font-semibold text-slate-800">Connect to Finish Setup</h2>
+          <p className="text-sm text-slate-500 mt-2 mb-6">This device has not been set up yet. Connect to the internet so it can find your hospital's accounts, or open a setup link from your manager.</p>
+          <button onClick={checkInitialSetup} className="w-full bg-blue-600 text-white py-3 rounded-lg font-semibold hover:bg-blue-700 flex items-center justify-center gap-2">
+            <RefreshCw className="w-4 h-4" /> Try Again
+          </button>
+        </div>
       </div>
     );
   }
 
+  // First run: no administrator exists yet
+  if (needsSetup) {
+    return <SetupWizard onComplete={handleSetupComplete} />;
+  }
+
   // 2. Hospital Portal (Staff & Manager View)
   if (activeHospital) {
     return (
@@ -180,14 +276,27 @@ const App: React.FC = () => {
               </div>
 
               <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">System Key</label>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Admin Username</label>
                 <input
-                  type="password"
-                  value={adminKey}
-                  onChange={e => setAdminKey(e.target.value)}
+                  type="text"
+                  value={adminUser}
+                  onChange={e => setAdminUser(e.target.value)}
                   className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-slate-500 outline-none"
-                  placeholder="Enter Key (admin123)"
+                  placeholder="Username"
                   autoFocus
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Password</label>
+                <input
+                  type="password"
+                  value={adminPass}
+                  onChange={e => setAdminPass(e.target.value)}
+                  className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-slate-500 outline-none"
+                  placeholder="••••••••"
+                  required
                 />
               </div>
 
@@ -0,0 +1,77 @@
+import React, { useState, useEffect } from 'react';
+import { User } from '../types';
+import { getAdmins, createAdmin, deleteUser } from '../services/storage';
+import { ShieldCheck, UserPlus, Trash2 } from 'lucide-react';
+
+interface AdminAccountsPanelProps {
+  currentAdmin: User;
+}
+
+const AdminAccountsPanel: React.FC<AdminAccountsPanelProps> = ({ currentAdmin }) => {
+  const [admins, setAdmins] = useState<User[]>([]);
+  const [name, setName] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+
+  useEffect(() => {
+    setAdmins(getAdmins());
+  }, []);
+
+  const handleAddAdmin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (admins.some(a => a.username?.toLowerCase() === username.trim().toLowerCase())) {
+      alert("An administrator with that username already exists.");
+      return;
+    }
+    if (password.length < 8) {
+      alert("Password must be at least 8 characters.");
+      return;
+    }
+    await createAdmin(name.trim(), username.trim(), password);
+    setName('');
+    setUsername('');
+    setPassword('');
+    setAdmins(getAdmins());
+  };
+
+  const handleRemoveAdmin = async (admin: User) => {
+    if (admin.id === currentAdmin.id) return;
+    if (confirm(`Remove administrator ${admin.name}?`)) {
+      await deleteUser(admin.id);
+      setAdmins(getAdmins());
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <h3 className="text-xl font-semibold mb-4 flex items-center gap-2 text-slate-800">
+        <ShieldCheck className="w-5 h-5 text-slate-600" /> Administrators
+      </h3>
+
+      <div className="space-y-2 mb-4">
+        {admins.map(a => (
+          <div key={a.id} className="flex justify-between items-center p-2 bg-slate-50 rounded text-sm">
+            <div>
+              <div className="font-medium">{a.name} {a.id === currentAdmin.id && <span className="text-xs text-blue-600">(you)</span>}</div>
+              <div className="text-xs text-slate-500 font-mono">{a.username}</div>
+            </div>
+            {a.id !== currentAdmin.id && (
+              <button onClick={() => handleRemoveAdmin(a)} className="text-red-400 hover:text-red-600 p-2"><Trash2 className="w-4 h-4" /></button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleAddAdmin} className="grid md:grid-cols-4 gap-2">
+        <input type="text" placeholder="Full Name" value={name} onChange={e => setName(e.target.value)} className="p-2 border rounded text-sm" required />
+        <input type="text" placeholder="Username" value={username} onChange={e => setUsername(e.target.value)} className="p-2 border rounded text-sm" required />
+        <input type="password" placeholder="Password" value={password} onChange={e => setPassword(e.target.value)} className="p-2 border rounded text-sm" required />
+        <button className="bg-slate-800 text-white py-2 rounded hover:bg-slate-900 text-sm flex items-center justify-center gap-1">
+          <UserPlus className="w-4 h-4" /> Add Admin
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default AdminAccountsPanel;
@@ -1,22 +1,37 @@
 import React, { useState, useEffect } from 'react';
-import { Hospital } from '../types';
+import { Hospital, GeofenceZone, User } from '../types';
 import { getHospitals, saveHospital, updateHospital, deleteHospital } from '../services/storage';
 import { isCloudConfigured, updateSupabaseConfig, clearSupabaseConfig } from '../services/supabaseClient';
-import { getCurrentPosition } from '../services/geoUtils';
-import { PlusCircle, MapPin, Loader2, LogOut, Building, Trash2, Edit2, XCircle, Save, Cloud, CheckCircle, Database, AlertTriangle, Code, Copy, Settings } from 'lucide-react';
+import { getCurrentPosition, MAIN_ZONE_ID } from '../services/geoUtils';
+import { hashSecret } from '../services/credentials';
+import GeofenceZoneEditor from './GeofenceZoneEditor';
+import AdminAccountsPanel from './AdminAccountsPanel';
+import AuditLogViewer from './AuditLogViewer';
+import PendingChangesBadge from './PendingChangesBadge';
+import SchemaMigrationsPanel from './SchemaMigrationsPanel';
+import { runSync, getSchemaStatus, SchemaStatus } from '../services/syncEngine';
+import { getCloudBackend, isSyncEnabled } from '../services/cloudBackend';
+import { getLastSyncReport, SyncReport, TableSyncCounts } from '../services/syncState';
+import { PlusCircle, MapPin, Loader2, LogOut, Building, Trash2, Edit2, XCircle, Save, Cloud, CheckCircle, Database, AlertTriangle, Code, Settings, ShieldCheck, History, RefreshCw } from 'lucide-react';
 
 interface AdminDashboardProps {
+  admin: User;
   onLogout: () => void;
 }
 
-const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
+const AdminDashboard: React.FC<AdminDashboardProps> = ({ admin, onLogout }) => {
   const [hospitals, setHospitals] = useState<Hospital[]>([]);
+  const [showAdmins, setShowAdmins] = useState(false);
+  const [showAudit, setShowAudit] = useState(false);
   
   // Cloud Config State
   const [showCloudConfig, setShowCloudConfig] = useState(false);
   const [configTab, setConfigTab] = useState<'CONNECT' | 'SQL'>('CONNECT');
   const [sbUrl, setSbUrl] = useState('');
   const [sbKey, setSbKey] = useState('');
+  const [syncReport, setSyncReport] = useState<SyncReport | null>(getLastSyncReport());
+  const [syncing, setSyncing] = useState(false);
+  const [schemaStatus, setSchemaStatus] = useState<SchemaStatus | null>(null);
 
   // Forms
   const [editId, setEditId] = useState<string | null>(null);
@@ -29,8 +44,17 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
 
   useEffect(() => {
     setHospitals(getHospitals());
+    // Detect an outdated cloud schema as soon as an admin opens the dashboard
+    if (isSyncEnabled()) {
+      getSchemaStatus().then(setSchemaStatus).catch(err => console.error("Schema check failed:", err));
+    }
   }, []);
 
+  const openSchemaSetup = () => {
+    setConfigTab('SQL');
+    setShowCloudConfig(true);
+  };
+
   const resetForm = () => {
     setEditId(null);
     setName('');
@@ -45,8 +69,9 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
     setName(hospital.name);
     setRegNumber(hospital.registrationNumber);
     setUsername(hospital.username);
-    setPassword(hospital.password);
-    setLogViewPassword(hospital.logViewPassword || '');
+    // Stored secrets are hashed; leave blank to keep the current value
+    setPassword('');
+    setLogViewPassword('');
   };
 
   const handleDeleteClick = (id: string, hospitalName: string) => {
@@ -57,6 +82,16 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
     }
   };
 
+  const handleSaveZones = (hospital: Hospital, zones: GeofenceZone[]) => {
+    // Keep the registration coords/radius in step with the main zone
+    const main = zones.find(z => z.id === MAIN_ZONE_ID);
+    const updated: Hospital = main?.type === 'circle'
+      ? { ...hospital, zones, coords: main.center, radius: main.radius }
+      : { ...hospital, zones };
+    updateHospital(updated);
+    setHospitals(getHospitals());
+  };
+
   const handleCloudSave = (e: React.FormEvent) => {
     e.preventDefault();
     if(sbUrl && sbKey) {
@@ -64,70 +99,20 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onLogout }) => {
     }
   };
 
+  const handleSyncNow = async () => {
+    setSyncing(true);
+    const report = await runSync();
+    setSyncReport(report);
+    setHospitals(getHospitals());
+    setSyncing(false);
+  };
+
   const handleDisconnectCloud = () => {
     if(confirm("Disconnect from cloud database? The app will revert to local storage only.")) {
       clearSupabaseConfig();
     }
   };
 
-  const handleCopySql = () => {
-    const sql = `
--- 1. Create Hospitals Table
-create table public.hospitals (
-  id uuid not null primary key,
-  name text not null,
-  "registrationNumber" text,
-  username text,
-  password text,
-  "logViewPassword" text,
-  coords jsonb,
-  radius numeric,
-  "emailReportConfig" jsonb
-);
-
--- 2. Create Users Table
-create table public.users (
-  id uuid not null primary key,
-  name text not null,
-  role text,
-  hospital_id text,
-  pin text,
-  bound_device_id text,
-  profile_picture text
-);
-
--- 3. Create Attendance Table
-create table public.attendance_records (
-  id uuid not null primary key,
-  user_id text,
-  user_name text,
-  hospital_id text,
-  hospital_name text,
-  check_in_time text,
-  check_out_time text,
-  check_in_coords jsonb,
-  check_out_coords jsonb,
-  flagged boolean,
-  distance_from_center numeric,
-  duration_minutes numeric,
-  check_in_device_id text,
-  check_out_device_id text,
-  anomaly text
-);
-
--- 4. Enable RLS but allow Anon access (for this demo)
-alter table public.hospitals enable row level security;
-alter table public.users enable row level security;
-alter table public.attendance_records enable row level security;
-
-create policy "Allow all for anon" on public.hospitals for all using (true) with check (true);
-create policy "Allow all for anon" on public.users for all using (true) with check (true);
-create policy "Allow all for anon" on public.attendance_records for all using (true) with check (true);
-    `;
-    navigator.clipboard.writeText(sql);
-    alert("SQL copied! Paste this into the SQL Editor in your Supabase Dashboard.");
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -140,8 +125,8 @@ create policy "Allow all for anon" on public.attendance_records for all using (t
         name,
         registrationNumber: regNumber,
         username,
-        password,
-        logViewPassword,
+        password: password ? await hashSecret(password) : original.password,
+        logViewPassword: logViewPassword ? await hashSecret(logViewPassword) : original.logViewPassword,
       };
       
       updateHospital(updatedHospital);
@@ -159,14 +144,15 @@ create policy "Allow all for anon" on public.attendance_records for all using (t
         name,
         registrationNumber: regNumber,
         username,
-        password,
-        logViewPassword,
+        password: await hashSecret(password),
+        logViewPassword: await hashSecret(logViewPassword),
         coords: {
           latitude: position.coords.latitude,
           longitude: position.coords.longitude,
           accuracy: position.coords.accuracy
         },
-        radius: 15
+        radius: 15,
+        registeredBy: admin.name
       };
       saveHospital(newHospital);
       
@@ -185,10 +171,26 @@ create policy "Allow all for anon" on public.attendance_records for all using (t
       
       {/* HEADER */}
       <div className="flex flex-col md:flex-row justify-between items-center bg-white p-4 rounded-lg shadow-sm border gap-4">
-        <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
-           <Building className="w-6 h-6 text-blue-600" /> System Administration
-        </h2>
-        <div className="flex gap-2">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+             <Building className="w-6 h-6 text-blue-600" /> System Administration
+          </h2>
+          <p className="text-xs text-slate-500">Signed in as {admin.name}</p>
+        </div>
+        <div className="flex gap-2 items-center">
+          <button 
+            onClick={() => setShowAdmins(!showAdmins)} 
+            className="flex items-center gap-2 px-3 py-2 rounded transition border bg-slate-50 text-slate-600 border-slate-200"
+          >
+             <ShieldCheck className="w-4 h-4" /> Admins
+          </button>
+          <PendingChangesBadge />
+          <button 
+            onClick={() => setShowAudit(!showAudit)} 
+            className="flex items-center gap-2 px-3 py-2 rounded transition border bg-slate-50 text-slate-600 border-slate-200"
+          >
+             <History className="w-4 h-4" /> Audit
+          </button>
           <button 
             onClick={() => setShowCloudConfig(!showCloudConfig)} 
             className={`flex items-center gap-2 px-3 py-2 rounded transition border ${isCloudConfigured ? 'bg-indigo-50 text-indigo-700 border-indigo-200' : 'bg-slate-50 text-slate-600 border-slate-200'}`}
@@ -202,6 +204,18 @@ create policy "Allow all for anon" on public.attendance_records for all using (t
         </div>
       </div>
 
+      {schemaStatus && schemaStatus.pending.length > 0 && (
+        <div className="flex items-center gap-3 bg-amber-50 border border-amber-200 text-amber-800 p-4 rounded-lg">
+          <AlertTriangle className="w-5 h-5 shrink-0" />
+          <p className="text-sm flex-1">
+            The cloud database schema is out of date ({schemaStatus.pending.length} migration{schemaStatus.pending.length === 1 ? '' : 's'} pending). Sync is paused until they are applied.
+          </p>
+          <button onClick={openSchemaSetup} className="text-xs font-bold bg-amber-100 hover:bg-amber-200 px-3 py-1.5 rounded border border-amber-300">
+            Review Migrations
+          </button>
+        </div>
+      )}
+
       {/* CLOUD CONFIG PANEL */}
       {showCloudConfig && (
         <div className="bg-slate-800 text-white p-6 rounded-xl shadow-lg border border-slate-700 animate-in fade-in slide-in-from-top-4">
@@ -221,7 +235,7 @@ create policy "Allow all for anon" on public.attendance_records for all using (t
                 onClick={() => setConfigTab('SQL')} 
                 className={`px-3 py-1 text-xs font-bold rounded ${configTab === 'SQL' ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400'}`}
               >
-                2. Database Tables
+                2. Database Schema
               </button>
             </div>
           </div>
@@ -231,15 +245,55 @@ create policy "Allow all for anon" on public.attendance_records for all using (t
               <div className="space-y-4 animate-in fade-in">
                  <p className="text-slate-300 text-sm">Enter your Supabase project keys to enable real-time syncing.</p>
                  
-                 {isCloudConfigured ? (
+                 {isSyncEnabled() ? (
                    <div className="bg-green-900/30 border border-green-800 p-4 rounded flex items-start gap-3">
                      <CheckCircle className="w-5 h-5 text-green-400 shrink-0 mt-0.5" />
                      <div className="w-full">
                        <p className="font-semibold text-green-400">Database Connected</p>
-                       <p className="text-sm text-green-200/70 mb-3">Sync is active. Data is stored in the cloud.</p>
-                       <button onClick={handleDisconnectCloud} className="text-xs bg-red-900/50 text-red-300 px-2 py-1 rounded hover:bg-red-900 border border-red-800">
-                        Disconnect / Change Keys
-                       </button>
+                       <p className="text-sm text-green-200/70 mb-3">
+                         {getCloudBackend().kind === 'supabase'
+                           ? 'Sync is active. Data is stored in the cloud.'
+                           : `Syncing with the ${getCloudBackend().kind} test backend (SYNC_BACKEND). Data is not stored in Supabase.`}
+                       </p>
+                       <div className="flex gap-2">
+                         <button onClick={handleSyncNow} disabled={syncing} className="flex items-center gap-1 text-xs bg-blue-900/50 text-blue-200 px-2 py-1 rounded hover:bg-blue-900 border border-blue-800 disabled:opacity-50">
+                          <RefreshCw className={`w-3 h-3 ${syncing ? 'animate-spin' : ''}`} /> Sync Now
+                         </button>
+                         {isCloudConfigured && (
+                           <button onClick={handleDisconnectCloud} className="text-xs bg-red-900/50 text-red-300 px-2 py-1 rounded hover:bg-red-900 border border-red-800">
+                            Disconnect / Change Keys
+                           </button>
+                         )}
+                       </div>
+                       {syncReport && (
+                         <div className="mt-4 text-xs">
+                           <p className={syncReport.success ? 'text-green-300' : 'text-amber-300'}>
+                             {syncReport.message} · {new Date(syncReport.finishedAt).toLocaleString()}
+                           </p>
+                           <table className="w-full mt-2 text-left text-slate-300">
+                             <thead className="text-slate-500 uppercase">
+                               <tr>
+                                 <th className="py-1">Table</th>
+                                 <th>Pushed</th>
+                                 <th>Pulled</th>
+                                 <th>Conflicts</th>
+                                 <th>Removed</th>
+                               </tr>
+                             </thead>
+                             <tbody>
+                               {(Object.entries(syncReport.tables) as [string, TableSyncCounts][]).map(([table, counts]) => (
+                                 <tr key={table} className="border-t border-slate-700">
+                                   <td className="py-1 font-mono">{table}</td>
+                                   <td>{counts.pushed}</td>
+                                   <td>{counts.pulled}</td>
+                                   <td>{counts.conflicts}</td>
+                                   <td>{counts.error ? <span className="text-red-400">{counts.error}</span> : counts.deleted}</td>
+                                 </tr>
+                               ))}
+                             </tbody>
+                           </table>
+                         </div>
+                       )}
                      </div>
                    </div>
                  ) : (
@@ -270,143 +324,82 @@ create policy "Allow all for anon" on public.attendance_records for all using (t
               </div>
             )}
 
-            {configTab === 'SQL' && (
-              <div className="space-y-4 animate-in fade-in">
-                 <div className="flex items-start gap-3 bg-amber-900/30 border border-amber-800 p-3 rounded">
-                    <AlertTriangle className="w-5 h-5 text-amber-500 shrink-0" />
-                    <div>
-                      <p className="text-sm text-amber-200 font-bold">Required Setup</p>
-                      <p className="text-xs text-amber-200/70">After connecting, you MUST run this SQL code in your Supabase SQL Editor to create the tables. Without this, syncing will fail.</p>
-                    </div>
-                 </div>
-                 
-                 <div className="relative group">
-                   <div className="absolute right-2 top-2">
-                     <button 
-                        onClick={handleCopySql}
-                        className="bg-slate-600 hover:bg-slate-500 text-white text-xs px-3 py-1.5 rounded flex items-center gap-2 transition"
-                     >
-                       <Copy className="w-3 h-3" /> Copy SQL
-                     </button>
-                   </div>
-                   <pre className="bg-slate-950 p-4 rounded border border-slate-800 text-[10px] font-mono text-slate-400 overflow-x-auto h-48">
-{`-- 1. Create Hospitals Table
-create table public.hospitals (
-  id uuid not null primary key,
-  name text not null,
-  "registrationNumber" text,
-  username text,
-  password text,
-  "logViewPassword" text,
-  coords jsonb,
-  radius numeric,
-  "emailReportConfig" jsonb
-);
-
--- 2. Create Users Table
-create table public.users (
-  id uuid not null primary key,
-  name text not null,
-  role text,
-  hospital_id text,
-  pin text,
-  bound_device_id text,
-  profile_picture text
-);
-
--- 3. Create Attendance Table
-create table public.attendance_records (
-  id uuid not null primary key,
-  user_id text,
-  user_name text,
-  hospital_id text,
-  hospital_name text,
-  check_in_time text,
-  check_out_time text,
-  check_in_coords jsonb,
-  check_out_coords jsonb,
-  flagged boolean,
-  distance_from_center numeric,
-  duration_minutes numeric,
-  check_in_device_id text,
-  check_out_device_id text,
-  anomaly text
-);
-
--- 4. Enable RLS
-alter table public.hospitals enable row level security;
-alter table public.users enable row level security;
-alter table public.attendance_records enable row level security;
-
-create policy "Anon All" on public.hospitals for all using (true) with check (true);
-create policy "Anon All" on public.users for all using (true) with check (true);
-create policy "Anon All" on public.attendance_records for all using (true) with check (true);`}
-                   </pre>
-                 </div>
-              </div>
-            )}
+            {configTab === 'SQL' && <SchemaMigrationsPanel onStatusChange={setSchemaStatus} />}
           </div>
         </div>
       )}
 
+      {showAdmins && <AdminAccountsPanel currentAdmin={admin} />}
+
+      {showAudit && <AuditLogViewer />}
+
       {/* MAIN CONTENT GRID */}
       <div className="grid md:grid-cols-2 gap-8">
         {/* FORM SECTION */}
-        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 h-fit">
-          <h3 className="text-xl font-semibold mb-4 flex items-center gap-2 text-slate-800">
-            {editId ? <Edit2 className="w-5 h-5 text-amber-600" /> : <PlusCircle className="w-5 h-5 text-blue-600" />}
-            {editId ? 'Edit Hospital Details' : 'Register New Hospital'}
-          </h3>
-          
-          <p className="text-sm text-slate-500 mb-4 bg-slate-50 p-3 rounded">
-            {editId ? (
-              <strong>Editing mode:</strong> 
-            ) : (
-              <strong>Instruction:</strong>
-            )} 
-            {editId 
-              ? " Update the details below. Location coordinates remain unchanged." 
-              : " You must be physically present at the hospital location to register it. GPS will be captured on submit."}
-          </p>
+        <div className="h-fit">
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+            <h3 className="text-xl font-semibold mb-4 flex items-center gap-2 text-slate-800">
+              {editId ? <Edit2 className="w-5 h-5 text-amber-600" /> : <PlusCircle className="w-5 h-5 text-blue-600" />}
+              {editId ? 'Edit Hospital Details' : 'Register New Hospital'}
+            </h3>
+            
+            <p className="text-sm text-slate-500 mb-4 bg-slate-50 p-3 rounded">
+              {editId ? (
+                <strong>Editing mode:</strong> 
+              ) : (
+                <strong>Instruction:</strong>
+              )} 
+              {editId 
+                ? " Update the details below. Manage check-in zones in the Geofence Zones panel." 
+                : " You must be physically present at the hospital location to register it. GPS will be captured on submit."}
+            </p>
 
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-slate-700 mb-1">Hospital Name</label>
-              <input type="text" value={name} onChange={e => setName(e.target.value)} className="w-full p-2 border rounded outline-none focus:ring-2 focus:ring-blue-500" required />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-slate-700 mb-1">Registration Number</label>
-              <input type="text" value={regNumber} onChange={e => setRegNumber(e.target.value)} className="w-full p-2 border rounded outline-none focus:ring-2 focus:ring-blue-500" required />
-            </div>
-            <div className="grid grid-cols-2 gap-4">
-               <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Login Username</label>
-                <input type="text" value={username} onChange={e => setUsername(e.target.value)} className="w-full p-2 border rounded outline-none focus:ring-2 focus:ring-blue-500" required />
-               </div>
-               <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Login Password</label>
-                <input type="text" value={password} onChange={e => setPassword(e.target.value)} className="w-full p-2 border rounded outline-none focus:ring-2 focus:ring-blue-500" required />
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Hospital Name</label>
+                <input type="text" value={name} onChange={e => setName(e.target.value)} className="w-full p-2 border rounded outline-none focus:ring-2 focus:ring-blue-500" required />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Registration Number</label>
+                <input type="text" value={regNumber} onChange={e => setRegNumber(e.target.value)} className="w-full p-2 border rounded outline-none focus:ring-2 focus:ring-blue-500" required />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                 <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Login Username</label>
+                  <input type="text" value={username} onChange={e => setUsername(e.target.value)} className="w-full p-2 border rounded outline-none focus:ring-2 focus:ring-blue-500" required />
+                 </div>
+                 <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Login Password</label>
+                  <input type="text" value={password} onChange={e => setPassword(e.target.value)} className="w-full p-2 border rounded outline-none focus:ring-2 focus:ring-blue-500" placeholder={editId ? 'Unchanged' : ''} required={!editId} />
+                 </div>
+              </div>
+               <div className="bg-amber-50 p-3 rounded border border-amber-100">
+                  <label className="block text-sm font-bold text-amber-800 mb-1">Log View Password</label>
+                  <input type="text" value={logViewPassword} onChange={e => setLogViewPassword(e.target.value)} className="w-full p-2 border border-amber-200 rounded outline-none focus:ring-2 focus:ring-amber-500" placeholder={editId ? 'Leave blank to keep current' : 'Required for PDF export'} required={!editId} />
+                  <p className="text-xs text-amber-700 mt-1">This password is required to download attendance logs. It is stored hashed and cannot be shown again.</p>
                </div>
-            </div>
-             <div className="bg-amber-50 p-3 rounded border border-amber-100">
-                <label className="block text-sm font-bold text-amber-800 mb-1">Log View Password</label>
-                <input type="text" value={logViewPassword} onChange={e => setLogViewPassword(e.target.value)} className="w-full p-2 border border-amber-200 rounded outline-none focus:ring-2 focus:ring-amber-500" placeholder="Required for PDF export" required />
-                <p className="text-xs text-amber-700 mt-1">This password is required to download attendance logs.</p>
-             </div>
-            
-            <div className="flex gap-2 pt-2">
-              {editId && (
-                <button type="button" onClick={resetForm} className="flex-1 bg-slate-200 text-slate-700 py-3 rounded hover:bg-slate-300 transition flex justify-center items-center gap-2">
-                  <XCircle className="w-4 h-4" /> Cancel
-                </button>
-              )}
               
-              <button type="submit" disabled={loadingGeo} className={`flex-1 text-white py-3 rounded transition flex justify-center items-center gap-2 ${editId ? 'bg-amber-600 hover:bg-amber-700' : 'bg-blue-600 hover:bg-blue-700'}`}>
-                {loadingGeo ? <Loader2 className="animate-spin w-4 h-4" /> : (editId ? <Save className="w-4 h-4" /> : <MapPin className="w-4 h-4" />)}
-                {loadingGeo ? 'Acquiring GPS...' : (editId ? 'Update Details' : 'Capture & Create')}
-              </button>
-            </div>
-          </form>
+              <div className="flex gap-2 pt-2">
+                {editId && (
+                  <button type="button" onClick={resetForm} className="flex-1 bg-slate-200 text-slate-700 py-3 rounded hover:bg-slate-300 transition flex justify-center items-center gap-2">
+                    <XCircle className="w-4 h-4" /> Cancel
+                  </button>
+                )}
+                
+                <button type="submit" disabled={loadingGeo} className={`flex-1 text-white py-3 rounded transition flex justify-center items-center gap-2 ${editId ? 'bg-amber-600 hover:bg-amber-700' : 'bg-blue-600 hover:bg-blue-700'}`}>
+                  {loadingGeo ? <Loader2 className="animate-spin w-4 h-4" /> : (editId ? <Save className="w-4 h-4" /> : <MapPin className="w-4 h-4" />)}
+                  {loadingGeo ? 'Acquiring GPS...' : (editId ? 'Update Details' : 'Capture & Create')}
+                </button>
+              </div>
+            </form>
+          </div>
+
+          {editId && hospitals.some(h => h.id === editId) && (
+            <GeofenceZoneEditor
+              hospital={hospitals.find(h => h.id === editId)!}
+              onSave={zones => handleSaveZones(hospitals.find(h => h.id === editId)!, zones)}
+            />
+          )}
         </div>
 
         {/* LIST SECTION */}
@@ -438,13 +431,14 @@ create policy "Anon All" on public.attendance_records for all using (true) with
                 <div className="pr-20">
                   <div className="font-bold text-slate-800 text-lg">{h.name}</div>
                   <div className="text-sm text-slate-600 mb-2">Reg: {h.registrationNumber}</div>
+                  {h.registeredBy && <div className="text-xs text-slate-400 -mt-1 mb-2">Registered by {h.registeredBy}</div>}
                 </div>
 
                 <div className="mt-2 text-xs grid grid-cols-2 gap-2 text-slate-500 bg-white p-2 rounded border border-slate-100">
                    <span>Login User: <span className="font-mono text-slate-700">{h.username}</span></span>
-                   <span>Login Pass: <span className="font-mono text-slate-700">{h.password}</span></span>
+                   <span>Login Pass: <span className="font-mono text-slate-700">{h.password ? '••••••' : 'Not Set'}</span></span>
                    <span className="col-span-2 border-t pt-1 mt-1 text-amber-700">
-                     Log View Pass: <span className="font-mono font-bold">{h.logViewPassword || 'Not Set'}</span>
+                     Log View Pass: <span className="font-mono font-bold">{h.logViewPassword ? '••••••' : 'Not Set'}</span>
                    </span>
                 </div>
               </div>
@@ -0,0 +1,282 @@
+import React, { useState, useEffect } from 'react';
+import { Hospital, AttendanceRecord, CorrectionRequest, Anomaly, AnomalySeverity } from '../types';
+import { getAttendanceRecords, saveAttendanceRecord, getCorrectionRequestsByHospital, saveCorrectionRequest, getRosterByHospital } from '../services/storage';
+import { getCurrentActor } from '../services/session';
+import { applyCorrection, applyReview, getReviewStatus, REVIEW_LABELS, toDateTimeInputValue, fromDateTimeInputValue, resolveCorrectionRequest } from '../services/attendanceReview';
+import { VERIFICATION_LABELS } from '../services/locationVerification';
+import { AUTO_CLOSE_RULE_LABELS } from '../services/autoClose';
+import { detectAnomalies, describeAnomaly, SEVERITY_LABELS } from '../services/anomalyRules';
+import { ClipboardCheck, Edit2, Check, X, Save, MessageSquare } from 'lucide-react';
+
+interface AttendanceReviewPanelProps {
+  hospital: Hospital;
+}
+
+// Open shifts older than this are treated as a forgotten check-out
+const STALE_OPEN_SHIFT_HOURS = 16;
+const RECENT_DAYS = 14;
+
+const formatTime = (iso?: string) => iso
+  ? new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+  : '—';
+
+const isStaleOpenShift = (record: AttendanceRecord) => {
+  return !record.checkOutTime && Date.now() - new Date(record.checkInTime).getTime() > STALE_OPEN_SHIFT_HOURS * 3600000;
+};
+
+// Anomalies are listed separately, with their severity
+const describeIssues = (record: AttendanceRecord): string[] => {
+  const issues: string[] = [];
+  if (record.checkInDeviceCheck === 'OVERRIDDEN' || record.checkOutDeviceCheck === 'OVERRIDDEN') issues.push('Device manager override');
+  if (record.checkInVerification && record.checkInVerification !== 'VERIFIED') issues.push(`In: ${VERIFICATION_LABELS[record.checkInVerification]}`);
+  if (record.checkOutVerification && record.checkOutVerification !== 'VERIFIED') issues.push(`Out: ${VERIFICATION_LABELS[record.checkOutVerification]}`);
+  if (record.flagged && issues.length === 0) issues.push(`Location flagged (${Math.round(record.distanceFromCenter)}m)`);
+  if (record.checkOutStatus === 'AUTO_CLOSED') issues.push(`Auto-closed: ${AUTO_CLOSE_RULE_LABELS[record.autoCloseRule || 'MAX_LENGTH']}`);
+  if (isStaleOpenShift(record)) issues.push('No check-out');
+  return issues;
+};
+
+const SEVERITY_STYLES: Record<AnomalySeverity, string> = {
+  HIGH: 'bg-red-100 text-red-700',
+  MEDIUM: 'bg-amber-100 text-amber-700',
+  LOW: 'bg-slate-200 text-slate-600',
+};
+
+const AnomalyBadges: React.FC<{ anomalies: Anomaly[] }> = ({ anomalies }) => (
+  <div className="flex flex-wrap gap-1 mt-1">
+    {anomalies.map(anomaly => (
+      <span key={anomaly.type} className={`text-[10px] px-1.5 py-0.5 rounded font-medium ${SEVERITY_STYLES[anomaly.severity]}`} title={`${SEVERITY_LABELS[anomaly.severity]} severity`}>
+        {describeAnomaly(anomaly)}
+      </span>
+    ))}
+  </div>
+);
+
+const STATUS_STYLES = {
+  PENDING: 'bg-amber-100 text-amber-700',
+  APPROVED: 'bg-green-100 text-green-700',
+  REJECTED: 'bg-red-100 text-red-700',
+};
+
+const AttendanceReviewPanel: React.FC<AttendanceReviewPanelProps> = ({ hospital }) => {
+  const [records, setRecords] = useState<AttendanceRecord[]>([]);
+  const [anomalies, setAnomalies] = useState<Map<string, Anomaly[]>>(new Map());
+  const [requests, setRequests] = useState<CorrectionRequest[]>([]);
+  const [showAll, setShowAll] = useState(false);
+  const [editing, setEditing] = useState<AttendanceRecord | null>(null);
+  const [checkInInput, setCheckInInput] = useState('');
+  const [checkOutInput, setCheckOutInput] = useState('');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState('');
+
+  const loadRecords = () => {
+    const since = Date.now() - RECENT_DAYS * 24 * 3600000;
+    const hospitalRecords = getAttendanceRecords().filter(r => r.hospitalId === hospital.id);
+    const detected = detectAnomalies(hospitalRecords, hospital, getRosterByHospital(hospital.id));
+    setAnomalies(detected);
+    setRecords(hospitalRecords
+      .filter(r => getReviewStatus(r, detected.get(r.id)) === 'PENDING' || isStaleOpenShift(r) || new Date(r.checkInTime).getTime() >= since)
+      .sort((a, b) => new Date(b.checkInTime).getTime() - new Date(a.checkInTime).getTime()));
+    setRequests(getCorrectionRequestsByHospital(hospital.id)
+      .filter(c => c.status === 'PENDING')
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt)));
+  };
+
+  useEffect(() => {
+    loadRecords();
+  }, [hospital.id]);
+
+  const reviewerName = () => getCurrentActor()?.name || `${hospital.name} (Manager)`;
+
+  const recordAnomalies = (r: AttendanceRecord) => anomalies.get(r.id) || [];
+  const needsAttention = (r: AttendanceRecord) => getReviewStatus(r, recordAnomalies(r)) === 'PENDING' || isStaleOpenShift(r);
+  const visible = showAll ? records : records.filter(needsAttention);
+
+  const openEditor = (record: AttendanceRecord) => {
+    setEditing(record);
+    setCheckInInput(toDateTimeInputValue(record.checkInTime));
+    setCheckOutInput(toDateTimeInputValue(record.checkOutTime));
+    setReason('');
+    setError('');
+  };
+
+  const closeEditor = () => {
+    setEditing(null);
+    loadRecords();
+  };
+
+  const handleSaveCorrection = async () => {
+    if (!editing) return;
+    const checkInTime = fromDateTimeInputValue(checkInInput);
+    const checkOutTime = fromDateTimeInputValue(checkOutInput);
+    if (!checkInTime) {
+      setError('Check-in time is required.');
+      return;
+    }
+    if (checkOutTime && checkOutTime <= checkInTime) {
+      setError('Check-out must be after check-in.');
+      return;
+    }
+    if (!reason.trim()) {
+      setError('Please give a reason for the correction.');
+      return;
+    }
+    await saveAttendanceRecord(applyCorrection(editing, { checkInTime, checkOutTime }, reason.trim(), reviewerName()));
+    closeEditor();
+  };
+
+  const handleReview = async (status: 'APPROVED' | 'REJECTED') => {
+    if (!editing) return;
+    if (status === 'REJECTED' && !reason.trim()) {
+      setError('Please give a reason for rejecting this record.');
+      return;
+    }
+    await saveAttendanceRecord(applyReview(editing, status, reason.trim(), reviewerName()));
+    closeEditor();
+  };
+
+  const handleApproveRequest = async (request: CorrectionRequest) => {
+    const record = getAttendanceRecords().find(r => r.id === request.recordId);
+    if (!record) return;
+    const times = { checkInTime: request.proposedCheckInTime, checkOutTime: request.proposedCheckOutTime };
+    await saveAttendanceRecord(applyCorrection(record, times, `Staff request: ${request.note}`, reviewerName()));
+    await saveCorrectionRequest(resolveCorrectionRequest(request, 'APPROVED', '', reviewerName()));
+    loadRecords();
+  };
+
+  const handleDeclineRequest = async (request: CorrectionRequest) => {
+    const note = prompt(`Reason for declining ${request.userName}'s request:`);
+    if (note === null) return;
+    await saveCorrectionRequest(resolveCorrectionRequest(request, 'DECLINED', note.trim(), reviewerName()));
+    loadRecords();
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl border shadow-sm mt-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-semibold flex items-center gap-2"><ClipboardCheck className="w-5 h-5 text-indigo-600" /> Attendance Review</h3>
+        <label className="text-xs text-slate-500 flex items-center gap-1">
+          <input type="checkbox" checked={showAll} onChange={e => setShowAll(e.target.checked)} />
+          Show all records from the last {RECENT_DAYS} days
+        </label>
+      </div>
+
+      {requests.length > 0 && (
+        <div className="mb-4">
+          <h4 className="text-xs font-bold text-slate-500 uppercase mb-2 flex items-center gap-1"><MessageSquare className="w-3 h-3" /> Staff Correction Requests ({requests.length})</h4>
+          <div className="space-y-2">
+            {requests.map(request => {
+              const record = records.find(r => r.id === request.recordId) || getAttendanceRecords().find(r => r.id === request.recordId);
+              return (
+                <div key={request.id} className="p-2 bg-amber-50 border border-amber-100 rounded text-sm">
+                  <div className="flex justify-between items-start gap-2">
+                    <div>
+                      <div className="font-medium">{request.userName}</div>
+                      <div className="text-xs text-slate-500">
+                        Recorded: {record ? `${formatTime(record.checkInTime)} → ${formatTime(record.checkOutTime)}` : 'Record not synced to this device yet'}
+                      </div>
+                      <div className="text-xs text-amber-800">
+                        Proposed: {formatTime(request.proposedCheckInTime)} → {formatTime(request.proposedCheckOutTime)}
+                      </div>
+                      <div className="text-xs text-slate-600 italic mt-1">"{request.note}"</div>
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      <button onClick={() => handleApproveRequest(request)} disabled={!record} className="text-xs bg-green-600 text-white px-2 py-1 rounded flex items-center gap-1 hover:bg-green-700 disabled:opacity-50">
+                        <Check className="w-3 h-3" /> Approve
+                      </button>
+                      <button onClick={() => handleDeclineRequest(request)} className="text-xs bg-white border border-slate-200 px-2 py-1 rounded flex items-center gap-1 hover:bg-red-50 hover:text-red-700">
+                        <X className="w-3 h-3" /> Decline
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {visible.length === 0 && <p className="text-sm text-slate-400 italic">Nothing needs review.</p>}
+        {visible.map(record => {
+          const status = getReviewStatus(record, recordAnomalies(record));
+          const issues = describeIssues(record);
+          return (
+            <div key={record.id} className="flex justify-between items-center p-2 bg-slate-50 rounded text-sm">
+              <div>
+                <div className="font-medium flex items-center gap-2">
+                  {record.userName}
+                  {status && <span className={`text-[10px] px-1.5 py-0.5 rounded font-medium ${STATUS_STYLES[status]}`}>{REVIEW_LABELS[status]}</span>}
+                  {record.correction && <span className="text-[10px] px-1.5 py-0.5 rounded font-medium bg-blue-100 text-blue-700">Corrected</span>}
+                </div>
+                <div className="text-xs text-slate-500">{formatTime(record.checkInTime)} → {formatTime(record.checkOutTime)}</div>
+                {issues.length > 0 && <div className="text-xs text-red-600">{issues.join(' · ')}</div>}
+                {recordAnomalies(record).length > 0 && <AnomalyBadges anomalies={recordAnomalies(record)} />}
+              </div>
+              <button onClick={() => openEditor(record)} className="text-xs bg-white border border-slate-200 px-2 py-1 rounded flex items-center gap-1 hover:bg-indigo-50 hover:text-indigo-700">
+                <Edit2 className="w-3 h-3" /> Review
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {editing && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white p-6 rounded-xl shadow-xl w-full max-w-md space-y-4">
+            <div>
+              <h3 className="font-bold text-lg">{editing.userName}</h3>
+              <p className="text-xs text-slate-500">{describeIssues(editing).join(' · ') || (recordAnomalies(editing).length === 0 && 'No flags on this record.')}</p>
+              {recordAnomalies(editing).length > 0 && <AnomalyBadges anomalies={recordAnomalies(editing)} />}
+            </div>
+
+            {editing.correction && (
+              <div className="text-xs bg-blue-50 text-blue-800 p-2 rounded">
+                Originally recorded {formatTime(editing.correction.originalCheckInTime)} → {formatTime(editing.correction.originalCheckOutTime)}.
+                Last corrected by {editing.correction.correctedBy}: "{editing.correction.reason}"
+              </div>
+            )}
+            {editing.reviewStatus && (
+              <div className="text-xs bg-slate-50 text-slate-700 p-2 rounded">
+                {REVIEW_LABELS[editing.reviewStatus]} by {editing.reviewedBy}{editing.reviewNote && `: "${editing.reviewNote}"`}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Check In</label>
+                <input type="datetime-local" value={checkInInput} onChange={e => setCheckInInput(e.target.value)} className="w-full p-2 border rounded text-sm" />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Check Out</label>
+                <input type="datetime-local" value={checkOutInput} onChange={e => setCheckOutInput(e.target.value)} className="w-full p-2 border rounded text-sm" />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Reason</label>
+              <textarea value={reason} onChange={e => setReason(e.target.value)} className="w-full h-20 p-2 border rounded text-sm" placeholder="e.g. Forgot to check out, confirmed with ward rota" />
+            </div>
+
+            {error && <div className="text-red-600 text-sm bg-red-50 p-2 rounded">{error}</div>}
+
+            <div className="grid grid-cols-2 gap-2">
+              <button onClick={() => handleReview('APPROVED')} className="py-2 bg-green-600 text-white rounded hover:bg-green-700 flex items-center justify-center gap-1 text-sm">
+                <Check className="w-4 h-4" /> Approve
+              </button>
+              <button onClick={() => handleReview('REJECTED')} className="py-2 bg-red-600 text-white rounded hover:bg-red-700 flex items-center justify-center gap-1 text-sm">
+                <X className="w-4 h-4" /> Reject
+              </button>
+              <button onClick={handleSaveCorrection} className="py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 flex items-center justify-center gap-1 text-sm">
+                <Save className="w-4 h-4" /> Save Correction
+              </button>
+              <button onClick={() => setEditing(null)} className="py-2 bg-slate-200 rounded text-sm">Cancel</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AttendanceReviewPanel;
@@ -0,0 +1,142 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AuditEntry, AuditAction, AuditEntityType } from '../types';
+import { getAuditLog, getAuditLogByHospital } from '../services/storage';
+import { formatAuditValue } from '../services/auditUtils';
+import { History, ChevronDown, ChevronUp, RefreshCw } from 'lucide-react';
+
+interface AuditLogViewerProps {
+  hospitalId?: string; // Omit to show every hospital (admin view)
+}
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  HOSPITAL: 'Hospital',
+  USER: 'User',
+  ATTENDANCE: 'Attendance',
+  ROSTER: 'Roster',
+  CORRECTION_REQUEST: 'Correction Request',
+  DEVICE: 'Device',
+};
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  CREATE: 'bg-green-100 text-green-700',
+  UPDATE: 'bg-blue-100 text-blue-700',
+  DELETE: 'bg-red-100 text-red-700',
+};
+
+const MAX_VISIBLE_ENTRIES = 200;
+
+const AuditLogViewer: React.FC<AuditLogViewerProps> = ({ hospitalId }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [entityFilter, setEntityFilter] = useState<AuditEntityType | ''>('');
+  const [actionFilter, setActionFilter] = useState<AuditAction | ''>('');
+  const [search, setSearch] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadEntries = () => {
+    const log = hospitalId ? getAuditLogByHospital(hospitalId) : getAuditLog();
+    setEntries([...log].reverse());
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, [hospitalId]);
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return entries.filter(e => {
+      if (entityFilter && e.entityType !== entityFilter) return false;
+      if (actionFilter && e.action !== actionFilter) return false;
+      if (fromDate && e.timestamp < new Date(`${fromDate}T00:00:00`).toISOString()) return false;
+      if (toDate && e.timestamp > new Date(`${toDate}T23:59:59.999`).toISOString()) return false;
+      if (term && !`${e.actorName} ${e.entityLabel || ''} ${e.deviceId}`.toLowerCase().includes(term)) return false;
+      return true;
+    });
+  }, [entries, entityFilter, actionFilter, search, fromDate, toDate]);
+
+  return (
+    <div className="bg-white p-6 rounded-xl border shadow-sm mt-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-semibold flex items-center gap-2"><History className="w-5 h-5 text-slate-600" /> Audit Trail</h3>
+        <button onClick={loadEntries} className="text-xs text-slate-500 hover:text-slate-800 flex items-center gap-1">
+          <RefreshCw className="w-3 h-3" /> Refresh
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2 mb-4 text-sm">
+        <select value={entityFilter} onChange={e => setEntityFilter(e.target.value as AuditEntityType | '')} className="p-2 border rounded">
+          <option value="">All records</option>
+          {(Object.keys(ENTITY_LABELS) as AuditEntityType[]).map(type => (
+            <option key={type} value={type}>{ENTITY_LABELS[type]}</option>
+          ))}
+        </select>
+        <select value={actionFilter} onChange={e => setActionFilter(e.target.value as AuditAction | '')} className="p-2 border rounded">
+          <option value="">All actions</option>
+          <option value="CREATE">Created</option>
+          <option value="UPDATE">Updated</option>
+          <option value="DELETE">Deleted</option>
+        </select>
+        <input type="text" placeholder="Actor, record or device" value={search} onChange={e => setSearch(e.target.value)} className="p-2 border rounded" />
+        <input type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} className="p-2 border rounded" title="From" />
+        <input type="date" value={toDate} onChange={e => setToDate(e.target.value)} className="p-2 border rounded" title="To" />
+      </div>
+
+      <div className="max-h-96 overflow-y-auto divide-y text-sm">
+        {filtered.length === 0 && <p className="text-slate-400 italic py-2">No audit entries match the filters.</p>}
+        {filtered.slice(0, MAX_VISIBLE_ENTRIES).map(entry => {
+          const expanded = expandedId === entry.id;
+          return (
+            <div key={entry.id} className="py-2">
+              <button onClick={() => setExpandedId(expanded ? null : entry.id)} className="w-full flex justify-between items-center text-left">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className={`text-xs font-bold px-2 py-0.5 rounded ${ACTION_STYLES[entry.action]}`}>{entry.action}</span>
+                  <span className="text-xs text-slate-500">{ENTITY_LABELS[entry.entityType]}</span>
+                  <span className="font-medium truncate">{entry.entityLabel || entry.entityId}</span>
+                </div>
+                <div className="flex items-center gap-2 text-xs text-slate-500 shrink-0">
+                  <span>{entry.actorName}</span>
+                  <span>{new Date(entry.timestamp).toLocaleString()}</span>
+                  {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                </div>
+              </button>
+
+              {expanded && (
+                <div className="mt-2 bg-slate-50 rounded p-2 text-xs">
+                  <div className="text-slate-500 mb-2">
+                    Device <span className="font-mono">...{entry.deviceId.slice(-6)}</span>
+                    {entry.actorRole && <> · Role {entry.actorRole}</>}
+                    {!entry.synced && <span className="text-amber-600"> · Not yet synced</span>}
+                  </div>
+                  <table className="w-full">
+                    <thead>
+                      <tr className="text-left text-slate-500">
+                        <th className="pr-2 font-medium">Field</th>
+                        <th className="pr-2 font-medium">Before</th>
+                        <th className="font-medium">After</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {entry.changes.map(change => (
+                        <tr key={change.field} className="align-top">
+                          <td className="pr-2 font-mono text-slate-600">{change.field}</td>
+                          <td className="pr-2 text-red-700 break-all">{formatAuditValue(change.before)}</td>
+                          <td className="text-green-700 break-all">{formatAuditValue(change.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {filtered.length > MAX_VISIBLE_ENTRIES && (
+          <p className="text-xs text-slate-400 pt-2">Showing the latest {MAX_VISIBLE_ENTRIES} of {filtered.length} entries. Narrow the filters to see older changes.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogViewer;
@@ -0,0 +1,72 @@
+import React, { useState, useEffect } from 'react';
+import { AutoClosePolicy } from '../types';
+import { DEFAULT_AUTO_CLOSE_POLICY } from '../services/autoClose';
+import { TimerOff } from 'lucide-react';
+
+interface AutoClosePolicyEditorProps {
+  policy?: AutoClosePolicy;
+  onSave: (policy: AutoClosePolicy) => void;
+}
+
+const AutoClosePolicyEditor: React.FC<AutoClosePolicyEditorProps> = ({ policy, onSave }) => {
+  const [draft, setDraft] = useState<AutoClosePolicy>({ ...DEFAULT_AUTO_CLOSE_POLICY, ...policy });
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    setDraft({ ...DEFAULT_AUTO_CLOSE_POLICY, ...policy });
+  }, [policy]);
+
+  const update = (changes: Partial<AutoClosePolicy>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setSaved(false);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft.maxShiftHours <= 0) {
+      alert("Maximum shift length must be greater than zero.");
+      return;
+    }
+    onSave(draft);
+    setSaved(true);
+  };
+
+  return (
+    <div className="pt-6 border-t">
+      <h3 className="font-semibold mb-2 flex items-center gap-2"><TimerOff className="w-5 h-5 text-orange-600" /> Forgotten Check-Outs</h3>
+      <p className="text-xs text-slate-500 mb-3">Open shifts are closed automatically when the app loads or syncs. Auto-closed shifts are marked for review.</p>
+
+      <form onSubmit={handleSave} className="space-y-3 text-sm">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={draft.enabled} onChange={e => update({ enabled: e.target.checked })} />
+          Auto-close forgotten shifts
+        </label>
+
+        <div className={`space-y-3 ${draft.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+          <label className="flex items-center justify-between gap-2">
+            <span>Maximum shift length (hours)</span>
+            <input type="number" min={1} max={48} value={draft.maxShiftHours} onChange={e => update({ maxShiftHours: Number(e.target.value) })} className="w-20 p-1 border rounded" />
+          </label>
+
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={draft.closeAtShiftEnd} onChange={e => update({ closeAtShiftEnd: e.target.checked })} />
+            Close at the scheduled shift end
+          </label>
+
+          {draft.closeAtShiftEnd && (
+            <label className="flex items-center justify-between gap-2">
+              <span>Allowed overtime before closing (min)</span>
+              <input type="number" min={0} value={draft.shiftEndBufferMinutes} onChange={e => update({ shiftEndBufferMinutes: Number(e.target.value) })} className="w-20 p-1 border rounded" />
+            </label>
+          )}
+        </div>
+
+        <button className="w-full border border-orange-200 bg-orange-50 text-orange-700 py-2 rounded hover:bg-orange-100">
+          {saved ? 'Saved' : 'Save Policy'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default AutoClosePolicyEditor;
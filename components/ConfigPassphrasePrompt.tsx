@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { importHospitalConfig, ConfigImportResult } from '../services/configLinks';
+import { KeyRound, Loader2 } from 'lucide-react';
+
+interface ConfigPassphrasePromptProps {
+  token: string;
+  // null when the user skipped the import
+  onDone: (result: ConfigImportResult | null) => void;
+}
+
+const ConfigPassphrasePrompt: React.FC<ConfigPassphrasePromptProps> = ({ token, onDone }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [checking, setChecking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setChecking(true);
+    const result = await importHospitalConfig(token, passphrase);
+    setChecking(false);
+    // Only a wrong passphrase is worth another try; every other failure is final
+    if (!result.success && result.message.startsWith('Wrong passphrase')) {
+      setError(result.message);
+      return;
+    }
+    onDone(result);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-100 flex flex-col items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-white w-full max-w-md rounded-2xl shadow-xl border border-slate-200 p-8 space-y-4">
+        <div className="text-center">
+          <KeyRound className="w-10 h-10 mx-auto mb-2 text-blue-600" />
+          <h2 className="text-lg font-semibold text-slate-800">Protected Setup Link</h2>
+          <p className="text-sm text-slate-500">Enter the passphrase your manager gave you with this link.</p>
+        </div>
+
+        <input
+          type="password"
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+          required
+          autoFocus
+        />
+
+        {error && <div className="text-red-600 text-sm text-center bg-red-50 p-2 rounded">{error}</div>}
+
+        <div className="flex gap-2">
+          <button type="button" onClick={() => onDone(null)} className="flex-1 py-3 bg-slate-200 rounded-lg">Skip</button>
+          <button type="submit" disabled={checking} className="flex-1 py-3 bg-blue-600 text-white rounded-lg font-bold hover:bg-blue-700 transition flex justify-center items-center gap-2">
+            {checking && <Loader2 className="w-4 h-4 animate-spin" />} Unlock
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ConfigPassphrasePrompt;
@@ -0,0 +1,119 @@
+import React, { useState, useEffect } from 'react';
+import { Hospital, Device, DeviceStatus, User } from '../types';
+import { getDevicesByHospital, getStaffByHospital, getAttendanceRecords, saveDevice } from '../services/storage';
+import { decideDevice, getDeviceLastSeen, DEVICE_STATUS_LABELS } from '../services/deviceEnrollment';
+import { getCurrentActor } from '../services/session';
+import { Smartphone, Check, Ban, Pencil } from 'lucide-react';
+
+interface DevicePanelProps {
+  hospital: Hospital;
+}
+
+const STATUS_STYLES: Record<DeviceStatus, string> = {
+  PENDING: 'bg-amber-100 text-amber-700',
+  APPROVED: 'bg-green-100 text-green-700',
+  REVOKED: 'bg-slate-200 text-slate-600'
+};
+
+// Pending devices first, then the most recently enrolled
+const byStatusThenDate = (a: Device, b: Device) =>
+  Number(b.status === 'PENDING') - Number(a.status === 'PENDING') || b.enrolledAt.localeCompare(a.enrolledAt);
+
+const DevicePanel: React.FC<DevicePanelProps> = ({ hospital }) => {
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [staff, setStaff] = useState<User[]>([]);
+  const [lastSeen, setLastSeen] = useState<Record<string, string | undefined>>({});
+  const [staffFilter, setStaffFilter] = useState('');
+
+  const loadData = () => {
+    const hospitalDevices = getDevicesByHospital(hospital.id).sort(byStatusThenDate);
+    const records = getAttendanceRecords().filter(r => r.hospitalId === hospital.id);
+    setDevices(hospitalDevices);
+    setStaff(getStaffByHospital(hospital.id));
+    setLastSeen(Object.fromEntries(hospitalDevices.map(d => [d.id, getDeviceLastSeen(d, records)])));
+  };
+
+  useEffect(() => {
+    loadData();
+  }, [hospital.id]);
+
+  const deciderName = () => getCurrentActor()?.name || `${hospital.name} (Manager)`;
+  const staffName = (userId: string) => staff.find(s => s.id === userId)?.name || 'Removed staff member';
+
+  const handleApprove = async (device: Device) => {
+    await saveDevice(decideDevice(device, 'APPROVED', deciderName()));
+    loadData();
+  };
+
+  const handleRevoke = async (device: Device) => {
+    if (!confirm(`Revoke "${device.name}" for ${staffName(device.userId)}? It will no longer count as their device.`)) return;
+    await saveDevice(decideDevice(device, 'REVOKED', deciderName()));
+    loadData();
+  };
+
+  const handleRename = async (device: Device) => {
+    const name = prompt('Device name:', device.name)?.trim();
+    if (!name || name === device.name) return;
+    await saveDevice({ ...device, name });
+    loadData();
+  };
+
+  const visible = staffFilter ? devices.filter(d => d.userId === staffFilter) : devices;
+  const pendingCount = devices.filter(d => d.status === 'PENDING').length;
+
+  return (
+    <div className="bg-white p-6 rounded-xl border shadow-sm mt-6">
+      <div className="flex justify-between items-center mb-4 gap-2">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Smartphone className="w-5 h-5 text-blue-600" /> Devices
+          {pendingCount > 0 && <span className="text-xs bg-amber-100 text-amber-700 px-2 py-0.5 rounded-full">{pendingCount} awaiting approval</span>}
+        </h3>
+        <select value={staffFilter} onChange={e => setStaffFilter(e.target.value)} className="p-2 border rounded text-sm bg-white">
+          <option value="">All staff</option>
+          {staff.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+        </select>
+      </div>
+      <p className="text-xs text-slate-500 mb-3">A staff member's first device is approved automatically. Approve a new phone before it counts as theirs under the device policy, and revoke lost or replaced ones.</p>
+
+      <div className="space-y-2 max-h-[400px] overflow-y-auto">
+        {visible.length === 0 && <p className="text-sm text-slate-400 italic">No devices enrolled yet.</p>}
+        {visible.map(device => (
+          <div key={device.id} className="flex justify-between items-center p-2 bg-slate-50 rounded text-sm gap-2">
+            <div className="min-w-0">
+              <div className="font-medium flex items-center gap-2">
+                <span className="truncate">{device.name}</span>
+                <span className={`text-xs px-2 py-0.5 rounded-full whitespace-nowrap ${STATUS_STYLES[device.status]}`}>{DEVICE_STATUS_LABELS[device.status]}</span>
+              </div>
+              <div className="text-xs text-slate-500">
+                {staffName(device.userId)} · Enrolled {new Date(device.enrolledAt).toLocaleDateString()}
+                {lastSeen[device.id] && <> · Last used {new Date(lastSeen[device.id]!).toLocaleString()}</>}
+              </div>
+              {device.decidedBy && device.decidedAt && (
+                <div className="text-xs text-slate-400">
+                  {device.status === 'REVOKED' ? 'Revoked' : 'Approved'} by {device.decidedBy} on {new Date(device.decidedAt).toLocaleDateString()}
+                </div>
+              )}
+            </div>
+            <div className="flex gap-1 shrink-0">
+              <button onClick={() => handleRename(device)} className="text-xs bg-white border border-slate-200 px-2 py-1 rounded flex items-center gap-1 hover:bg-slate-100" title="Rename">
+                <Pencil className="w-3 h-3" />
+              </button>
+              {device.status === 'PENDING' && (
+                <button onClick={() => handleApprove(device)} className="text-xs bg-white border border-slate-200 px-2 py-1 rounded flex items-center gap-1 hover:bg-green-50 hover:text-green-700">
+                  <Check className="w-3 h-3" /> Approve
+                </button>
+              )}
+              {device.status !== 'REVOKED' && (
+                <button onClick={() => handleRevoke(device)} className="text-xs bg-white border border-slate-200 px-2 py-1 rounded flex items-center gap-1 hover:bg-red-50 hover:text-red-700">
+                  <Ban className="w-3 h-3" /> Revoke
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DevicePanel;
@@ -0,0 +1,63 @@
+import React, { useState, useEffect } from 'react';
+import { DevicePolicy, DevicePolicyMode } from '../types';
+import { DEFAULT_DEVICE_POLICY, DEVICE_POLICY_LABELS } from '../services/devicePolicy';
+import { hashSecret } from '../services/credentials';
+import { ShieldCheck } from 'lucide-react';
+
+interface DevicePolicyEditorProps {
+  policy?: DevicePolicy;
+  onSave: (policy: DevicePolicy) => void;
+}
+
+const DevicePolicyEditor: React.FC<DevicePolicyEditorProps> = ({ policy, onSave }) => {
+  const [mode, setMode] = useState<DevicePolicyMode>((policy || DEFAULT_DEVICE_POLICY).mode);
+  // Only the hash is stored; leave blank to keep the current PIN
+  const [newPin, setNewPin] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    setMode((policy || DEFAULT_DEVICE_POLICY).mode);
+  }, [policy]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const pin = newPin.trim();
+    if (mode === 'OVERRIDE' && !pin && !policy?.overridePin) {
+      alert("Set an override PIN so a manager can allow unapproved devices.");
+      return;
+    }
+    if (pin && pin.length < 4) {
+      alert("The override PIN must be at least 4 digits.");
+      return;
+    }
+    onSave({ mode, overridePin: pin ? await hashSecret(pin) : policy?.overridePin });
+    setNewPin('');
+    setSaved(true);
+  };
+
+  return (
+    <div className="pt-6 border-t">
+      <h3 className="font-semibold mb-2 flex items-center gap-2"><ShieldCheck className="w-5 h-5 text-purple-600" /> Device Policy</h3>
+      <p className="text-xs text-slate-500 mb-3">What happens when staff check in or out on a device that is not approved for them, or check out on a different device than they checked in on.</p>
+
+      <form onSubmit={handleSave} className="space-y-3 text-sm">
+        <select value={mode} onChange={e => { setMode(e.target.value as DevicePolicyMode); setSaved(false); }} className="w-full p-2 border rounded bg-white">
+          {(Object.keys(DEVICE_POLICY_LABELS) as DevicePolicyMode[]).map(m => <option key={m} value={m}>{DEVICE_POLICY_LABELS[m]}</option>)}
+        </select>
+
+        {mode === 'OVERRIDE' && (
+          <label className="flex items-center justify-between gap-2">
+            <span>{policy?.overridePin ? 'New override PIN (optional)' : 'Override PIN'}</span>
+            <input type="password" inputMode="numeric" value={newPin} onChange={e => { setNewPin(e.target.value); setSaved(false); }} className="w-28 p-1 border rounded" />
+          </label>
+        )}
+
+        <button className="w-full border border-purple-200 bg-purple-50 text-purple-700 py-2 rounded hover:bg-purple-100">
+          {saved ? 'Saved' : 'Save Policy'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default DevicePolicyEditor;
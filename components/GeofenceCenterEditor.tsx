@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { CircleZone, Coords, GeofenceZone, Hospital } from '../types';
+import { getAttendanceRecords } from '../services/storage';
+import { averageCoords, collectPositionSamples, getHospitalZones, previewGeofenceChange } from '../services/geoUtils';
+import { Crosshair, Loader2, Layers, Save, XCircle, ArrowRightLeft } from 'lucide-react';
+
+interface GeofenceCenterEditorProps {
+  hospital: Hospital;
+  zone: CircleZone;
+  onSave: (zone: CircleZone) => void;
+  onCancel: () => void;
+}
+
+const AVERAGE_SAMPLE_COUNT = 5;
+
+const GeofenceCenterEditor: React.FC<GeofenceCenterEditorProps> = ({ hospital, zone, onSave, onCancel }) => {
+  const [latitude, setLatitude] = useState(zone.center.latitude.toString());
+  const [longitude, setLongitude] = useState(zone.center.longitude.toString());
+  const [accuracy, setAccuracy] = useState<number | undefined>(zone.center.accuracy);
+  const [radius, setRadius] = useState(zone.radius);
+  const [samples, setSamples] = useState<Coords[]>([]);
+  const [loadingGeo, setLoadingGeo] = useState(false);
+
+  const applyCenter = (coords: Coords) => {
+    setLatitude(coords.latitude.toFixed(6));
+    setLongitude(coords.longitude.toFixed(6));
+    setAccuracy(coords.accuracy);
+  };
+
+  const captureSamples = async (count: number) => {
+    setLoadingGeo(true);
+    setSamples([]);
+    try {
+      const collected = await collectPositionSamples(count, 1000, setSamples);
+      applyCenter(count === 1 ? collected[0] : averageCoords(collected));
+    } catch (error) {
+      alert("Failed to get geolocation. Please allow permissions.");
+    } finally {
+      setLoadingGeo(false);
+    }
+  };
+
+  const lat = parseFloat(latitude);
+  const lng = parseFloat(longitude);
+  const isValid = !isNaN(lat) && !isNaN(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180 && radius > 0;
+
+  const candidate: CircleZone = {
+    ...zone,
+    center: { latitude: lat, longitude: lng, accuracy },
+    radius,
+  };
+
+  // How past records would be classified if this zone were saved
+  const preview = isValid
+    ? previewGeofenceChange(
+        getAttendanceRecords().filter(r => r.hospitalId === hospital.id),
+        getHospitalZones(hospital).map((z): GeofenceZone => z.id === zone.id ? candidate : z)
+      )
+    : null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    onSave(candidate);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-3 bg-emerald-50 border border-emerald-200 rounded space-y-3 text-sm">
+      <div className="font-semibold text-emerald-900">Edit {zone.name}</div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs text-slate-500 mb-1">Latitude</label>
+          <input type="text" value={latitude} onChange={e => { setLatitude(e.target.value); setAccuracy(undefined); }} className="w-full p-2 border rounded font-mono text-xs" required />
+        </div>
+        <div>
+          <label className="block text-xs text-slate-500 mb-1">Longitude</label>
+          <input type="text" value={longitude} onChange={e => { setLongitude(e.target.value); setAccuracy(undefined); }} className="w-full p-2 border rounded font-mono text-xs" required />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button type="button" onClick={() => captureSamples(1)} disabled={loadingGeo} className="p-2 border bg-white rounded text-xs flex items-center justify-center gap-1 hover:bg-slate-50">
+          <Crosshair className="w-3 h-3" /> Re-capture
+        </button>
+        <button type="button" onClick={() => captureSamples(AVERAGE_SAMPLE_COUNT)} disabled={loadingGeo} className="p-2 border bg-white rounded text-xs flex items-center justify-center gap-1 hover:bg-slate-50">
+          <Layers className="w-3 h-3" /> Average {AVERAGE_SAMPLE_COUNT} Samples
+        </button>
+      </div>
+
+      {loadingGeo && (
+        <div className="text-xs text-emerald-700 flex items-center gap-1">
+          <Loader2 className="w-3 h-3 animate-spin" /> Sampling GPS... {samples.length} fix(es) collected
+        </div>
+      )}
+      {!loadingGeo && accuracy !== undefined && (
+        <div className="text-xs text-slate-500">Center accuracy: ±{Math.round(accuracy)}m</div>
+      )}
+
+      <div>
+        <label className="block text-xs text-slate-500 mb-1">Radius (m)</label>
+        <input type="number" min={1} value={radius} onChange={e => setRadius(Number(e.target.value))} className="w-full p-2 border rounded" required />
+      </div>
+
+      {preview && (
+        <div className="p-2 bg-white rounded border text-xs text-slate-600 flex items-start gap-2">
+          <ArrowRightLeft className="w-4 h-4 text-slate-400 shrink-0" />
+          <div>
+            Of {preview.evaluated} past records, <strong className="text-red-600">{preview.toFlagged}</strong> would become flagged
+            and <strong className="text-green-600">{preview.toUnflagged}</strong> would no longer be flagged.
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button type="button" onClick={onCancel} className="flex-1 bg-slate-200 text-slate-700 py-2 rounded hover:bg-slate-300 flex justify-center items-center gap-1">
+          <XCircle className="w-4 h-4" /> Cancel
+        </button>
+        <button type="submit" disabled={!isValid || loadingGeo} className="flex-1 bg-emerald-600 text-white py-2 rounded hover:bg-emerald-700 disabled:opacity-50 flex justify-center items-center gap-1">
+          <Save className="w-4 h-4" /> Save Zone
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default GeofenceCenterEditor;
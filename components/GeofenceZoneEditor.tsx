@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { CircleZone, Coords, GeofenceZone, Hospital } from '../types';
+import { getCurrentPosition, getHospitalZones } from '../services/geoUtils';
+import { Map as MapIcon, Circle, Hexagon, Trash2, Crosshair, Loader2, Plus, Edit2 } from 'lucide-react';
+import GeofenceCenterEditor from './GeofenceCenterEditor';
+
+interface GeofenceZoneEditorProps {
+  hospital: Hospital;
+  onSave: (zones: GeofenceZone[]) => void;
+}
+
+// One "lat, lng" pair per line
+const parseVertices = (text: string): Coords[] | null => {
+  const points: Coords[] = [];
+  for (const line of text.split('\n').map(l => l.trim()).filter(Boolean)) {
+    const [lat, lng] = line.split(',').map(v => parseFloat(v));
+    if (isNaN(lat) || isNaN(lng)) return null;
+    points.push({ latitude: lat, longitude: lng });
+  }
+  return points;
+};
+
+const GeofenceZoneEditor: React.FC<GeofenceZoneEditorProps> = ({ hospital, onSave }) => {
+  const zones = getHospitalZones(hospital);
+  const [zoneType, setZoneType] = useState<'circle' | 'polygon'>('circle');
+  const [zoneName, setZoneName] = useState('');
+  const [radius, setRadius] = useState(30);
+  const [center, setCenter] = useState<Coords | null>(null);
+  const [verticesText, setVerticesText] = useState('');
+  const [loadingGeo, setLoadingGeo] = useState(false);
+  const [editingZoneId, setEditingZoneId] = useState<string | null>(null);
+
+  const capturePosition = async (): Promise<Coords | null> => {
+    setLoadingGeo(true);
+    try {
+      const position = await getCurrentPosition();
+      return {
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: position.coords.accuracy
+      };
+    } catch (error) {
+      alert("Failed to get geolocation. Please allow permissions.");
+      return null;
+    } finally {
+      setLoadingGeo(false);
+    }
+  };
+
+  const handleCaptureCenter = async () => {
+    const coords = await capturePosition();
+    if (coords) setCenter(coords);
+  };
+
+  const handleAddVertex = async () => {
+    const coords = await capturePosition();
+    if (coords) {
+      setVerticesText(prev => `${prev}${prev && !prev.endsWith('\n') ? '\n' : ''}${coords.latitude.toFixed(6)}, ${coords.longitude.toFixed(6)}`);
+    }
+  };
+
+  const handleAddZone = (e: React.FormEvent) => {
+    e.preventDefault();
+    let zone: GeofenceZone;
+
+    if (zoneType === 'circle') {
+      if (!center) {
+        alert("Capture the zone center first.");
+        return;
+      }
+      zone = { id: crypto.randomUUID(), name: zoneName, type: 'circle', center, radius };
+    } else {
+      const points = parseVertices(verticesText);
+      if (!points || points.length < 3) {
+        alert("A polygon needs at least 3 valid 'lat, lng' vertices.");
+        return;
+      }
+      zone = { id: crypto.randomUUID(), name: zoneName, type: 'polygon', points };
+    }
+
+    onSave([...zones, zone]);
+    setZoneName('');
+    setCenter(null);
+    setVerticesText('');
+  };
+
+  const handleUpdateZone = (updated: CircleZone) => {
+    onSave(zones.map(z => z.id === updated.id ? updated : z));
+    setEditingZoneId(null);
+  };
+
+  const handleRemoveZone = (id: string) => {
+    if (zones.length === 1) {
+      alert("A hospital needs at least one zone.");
+      return;
+    }
+    if (confirm('Remove this zone? Check-ins there will be flagged.')) {
+      onSave(zones.filter(z => z.id !== id));
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 mt-6">
+      <h3 className="text-lg font-semibold mb-1 flex items-center gap-2 text-slate-800">
+        <MapIcon className="w-5 h-5 text-emerald-600" /> Geofence Zones
+      </h3>
+      <p className="text-xs text-slate-500 mb-4">Check-ins inside any zone are verified. Add one zone per building or annex.</p>
+
+      <div className="space-y-2 mb-4">
+        {zones.map(z => z.type === 'circle' && editingZoneId === z.id ? (
+          <GeofenceCenterEditor
+            key={z.id}
+            hospital={hospital}
+            zone={z}
+            onSave={handleUpdateZone}
+            onCancel={() => setEditingZoneId(null)}
+          />
+        ) : (
+          <div key={z.id} className="flex justify-between items-center p-2 bg-slate-50 rounded text-sm">
+            <div className="flex items-center gap-2">
+              {z.type === 'circle' ? <Circle className="w-4 h-4 text-emerald-600" /> : <Hexagon className="w-4 h-4 text-emerald-600" />}
+              <div>
+                <div className="font-medium">{z.name}</div>
+                <div className="text-xs text-slate-500">
+                  {z.type === 'circle' ? `${z.radius}m radius` : `${z.points.length} vertices`}
+                </div>
+              </div>
+            </div>
+            <div className="flex">
+              {z.type === 'circle' && (
+                <button onClick={() => setEditingZoneId(z.id)} className="text-slate-400 hover:text-amber-600 p-2" title="Edit center and radius"><Edit2 className="w-4 h-4" /></button>
+              )}
+              <button onClick={() => handleRemoveZone(z.id)} className="text-red-400 hover:text-red-600 p-2"><Trash2 className="w-4 h-4" /></button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleAddZone} className="space-y-3 border-t pt-4">
+        <div className="flex gap-2">
+          <button type="button" onClick={() => setZoneType('circle')} className={`flex-1 py-1 rounded text-xs font-bold border ${zoneType === 'circle' ? 'bg-emerald-600 text-white border-emerald-600' : 'bg-white text-slate-500 border-slate-200'}`}>Circle</button>
+          <button type="button" onClick={() => setZoneType('polygon')} className={`flex-1 py-1 rounded text-xs font-bold border ${zoneType === 'polygon' ? 'bg-emerald-600 text-white border-emerald-600' : 'bg-white text-slate-500 border-slate-200'}`}>Polygon</button>
+        </div>
+        <input type="text" placeholder="Zone Name (e.g. East Annex)" value={zoneName} onChange={e => setZoneName(e.target.value)} className="w-full p-2 border rounded text-sm" required />
+
+        {zoneType === 'circle' ? (
+          <div className="grid grid-cols-2 gap-2">
+            <button type="button" onClick={handleCaptureCenter} disabled={loadingGeo} className="p-2 border rounded text-xs flex items-center justify-center gap-1 hover:bg-slate-50">
+              {loadingGeo ? <Loader2 className="w-3 h-3 animate-spin" /> : <Crosshair className="w-3 h-3" />}
+              {center ? `${center.latitude.toFixed(5)}, ${center.longitude.toFixed(5)}` : 'Capture Center'}
+            </button>
+            <input type="number" min={1} value={radius} onChange={e => setRadius(Number(e.target.value))} className="p-2 border rounded text-sm" title="Radius (m)" required />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <textarea
+              value={verticesText}
+              onChange={e => setVerticesText(e.target.value)}
+              className="w-full h-24 p-2 border rounded text-xs font-mono"
+              placeholder={"lat, lng per line\n6.524379, 3.379206"}
+            />
+            <button type="button" onClick={handleAddVertex} disabled={loadingGeo} className="w-full p-2 border rounded text-xs flex items-center justify-center gap-1 hover:bg-slate-50">
+              {loadingGeo ? <Loader2 className="w-3 h-3 animate-spin" /> : <Crosshair className="w-3 h-3" />} Add My Position as Vertex
+            </button>
+          </div>
+        )}
+
+        <button className="w-full bg-emerald-600 text-white py-2 rounded hover:bg-emerald-700 flex items-center justify-center gap-2 text-sm">
+          <Plus className="w-4 h-4" /> Add Zone
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default GeofenceZoneEditor;
@@ -1,17 +1,39 @@
 import React, { useState, useEffect } from 'react';
 import { Hospital, User, UserRole, AttendanceRecord } from '../types';
-import { getStaffByHospital, saveUser, deleteUser, generateHospitalConfigLink, getAttendanceRecords, importAttendanceData, updateHospital } from '../services/storage';
+import { getStaffByHospital, saveUser, deleteUser, getAttendanceRecords, updateHospital, getRosterByHospital, getHospitals, verifyStaffPin, verifyLogViewPassword } from '../services/storage';
+import { hashSecret } from '../services/credentials';
+import { generateHospitalConfigLink } from '../services/configLinks';
+import { importAttendanceData, TransferImportReport, TransferRecordStatus, TRANSFER_STATUS_LABELS } from '../services/transferCodes';
+import { isSyncEnabled } from '../services/cloudBackend';
+import { setCurrentActor } from '../services/session';
+import { openCloudSession, closeStaffCloudSession } from '../services/cloudAuth';
+import { getAttemptStatus, recordFailedAttempt, recordSuccessfulAttempt, describeBlock, LoginSubject } from '../services/loginAttempts';
 import { generateAttendancePDF } from '../services/pdfGenerator';
 import { analyzeAttendance } from '../services/geminiService';
+import { compareRosterToAttendance } from '../services/rosterUtils';
+import { detectAnomalies } from '../services/anomalyRules';
 import StaffDashboard from './StaffDashboard';
-import { Users, UserPlus, Settings, LogOut, Copy, Share2, FileDown, Trash2, Calendar, RefreshCw, Clipboard, Mail, Send, Loader2, CheckCircle2 } from 'lucide-react';
+import ShiftScheduleEditor from './ShiftScheduleEditor';
+import AutoClosePolicyEditor from './AutoClosePolicyEditor';
+import DevicePolicyEditor from './DevicePolicyEditor';
+import RosterPlanner from './RosterPlanner';
+import AttendanceReviewPanel from './AttendanceReviewPanel';
+import LockoutPanel from './LockoutPanel';
+import DevicePanel from './DevicePanel';
+import AuditLogViewer from './AuditLogViewer';
+import PendingChangesBadge from './PendingChangesBadge';
+import QrCodeSequence from './QrCodeSequence';
+import QrScanner from './QrScanner';
+import { Users, UserPlus, Settings, LogOut, Copy, Share2, FileDown, Trash2, Calendar, RefreshCw, Clipboard, Mail, Send, Loader2, CheckCircle2, QrCode, ScanLine } from 'lucide-react';
 
 interface HospitalPortalProps {
   hospital: Hospital;
   onLogout: () => void;
 }
 
-const HospitalPortal: React.FC<HospitalPortalProps> = ({ hospital, onLogout }) => {
+const HospitalPortal: React.FC<HospitalPortalProps> = ({ hospital: initialHospital, onLogout }) => {
+  // Local copy so manager edits (email config, shifts) are reflected without re-login
+  const [hospital, setHospital] = useState<Hospital>(initialHospital);
   const [view, setView] = useState<'SELECT_PROFILE' | 'MANAGER' | 'STAFF_ACTIVE'>('SELECT_PROFILE');
   const [staffList, setStaffList] = useState<User[]>([]);
   const [selectedStaff, setSelectedStaff] = useState<User | null>(null);
@@ -24,6 +46,9 @@ const HospitalPortal: React.FC<HospitalPortalProps> = ({ hospital, onLogout }) =
   const [newStaffName, setNewStaffName] = useState('');
   const [newStaffPin, setNewStaffPin] = useState('');
   const [linkCopied, setLinkCopied] = useState(false);
+  const [linkPassphrase, setLinkPassphrase] = useState('');
+  const [linkExpiryHours, setLinkExpiryHours] = useState(72);
+  const [sharedLink, setSharedLink] = useState('');
   const [showLogPassPrompt, setShowLogPassPrompt] = useState(false);
   const [logPassInput, setLogPassInput] = useState('');
   const [logPassError, setLogPassError] = useState('');
@@ -40,7 +65,9 @@ const HospitalPortal: React.FC<HospitalPortalProps> = ({ hospital, onLogout }) =
   // Sync State
   const [showSyncModal, setShowSyncModal] = useState(false);
   const [syncDataInput, setSyncDataInput] = useState('');
-  const [syncResult, setSyncResult] = useState<string>('');
+  const [syncReport, setSyncReport] = useState<TransferImportReport | null>(null);
+  const [importingSync, setImportingSync] = useState(false);
+  const [scanningSync, setScanningSync] = useState(false);
 
   useEffect(() => {
     loadData();
@@ -53,10 +80,32 @@ const HospitalPortal: React.FC<HospitalPortalProps> = ({ hospital, onLogout }) =
     checkReportDue();
   }, [hospital.id]);
 
+  const persistHospital = async (updatedHospital: Hospital) => {
+    setHospital(updatedHospital);
+    await updateHospital(updatedHospital);
+  };
+
   const loadData = () => {
     setStaffList(getStaffByHospital(hospital.id));
   };
 
+  // Rostered shifts in the range that nobody checked in for
+  const getAbsences = (start: Date, end: Date) => {
+    return compareRosterToAttendance(
+      hospital,
+      getRosterByHospital(hospital.id),
+      getAttendanceRecords(),
+      getStaffByHospital(hospital.id),
+      start,
+      end
+    ).absences;
+  };
+
+  // Anomalies on the given records, checked against all of the hospital's shifts
+  const getAnomalies = (records: AttendanceRecord[]) => {
+    return detectAnomalies(records, hospital, getRosterByHospital(hospital.id), getAttendanceRecords());
+  };
+
   const checkReportDue = () => {
     if (!hospital.emailReportConfig?.enabled) return;
     
@@ -83,7 +132,7 @@ const HospitalPortal: React.FC<HospitalPortalProps> = ({ hospital, onLogout }) =
         enabled: true
       }
     };
-    updateHospital(updatedHospital);
+    persistHospital(updatedHospital);
     alert("Email settings saved. We will remind you to generate reports weekly.");
     checkReportDue();
   };
@@ -101,7 +150,8 @@ const HospitalPortal: React.FC<HospitalPortalProps> = ({ hospital, onLogout }) =
       );
 
       // 2. Generate AI Summary
-      const summary = await analyzeAttendance(records, [hospital]);
+      const absences = getAbsences(oneWeekAgo, new Date());
+      const summary = await analyzeAttendance(records, [hospital], absences, getAnomalies(records));
 
       // 3. Construct Mailto Link
       const subject = encodeURIComponent(`Weekly Attendance Report: ${hospital.name} (${new Date().toLocaleDateString()})`);
@@ -116,7 +166,7 @@ const HospitalPortal: React.FC<HospitalPortalProps> = ({ hospital, onLogout }) =
           lastReportDate: new Date().toISOString()
         }
       };
-      await updateHospital(updatedHospital);
+      await persistHospital(updatedHospital);
       setReportDue(false);
 
       // 5. Open Email Client
@@ -130,16 +180,16 @@ const HospitalPortal: React.FC<HospitalPortalProps> = ({ hospital, onLogout }) =
     }
   };
 
-  const handleAddStaff = (e: React.FormEvent) => {
+  const handleAddStaff = async (e: React.FormEvent) => {
     e.preventDefault();
     const newUser: User = {
       id: crypto.randomUUID(),
       name: newStaffName,
       role: UserRole.STAFF,
       hospitalId: hospital.id,
-      pin: newStaffPin,
+      pin: await hashSecret(newStaffPin),
     };
-    saveUser(newUser);
+    await saveUser(newUser);
     setNewStaffName('');
     setNewStaffPin('');
     loadData();
@@ -152,35 +202,73 @@ const HospitalPortal: React.FC<HospitalPortalProps> = ({ hospital, onLogout }) =
     }
   };
 
+  const handleResetPin = async (user: User) => {
+    const newPin = prompt(`Enter a new 4-digit PIN for ${user.name}:`);
+    if (!newPin) return;
+    if (!/^\d{4}$/.test(newPin)) {
+      alert("PIN must be exactly 4 digits.");
+      return;
+    }
+    await saveUser({ ...user, pin: await hashSecret(newPin) });
+    loadData();
+    alert("PIN updated.");
+  };
+
   const handleStaffSelect = (user: User) => {
     setSelectedStaff(user);
     setPinInput('');
     setPinError('');
   };
 
-  const handleStaffLogin = (e: React.FormEvent) => {
+  const handleStaffLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (selectedStaff && pinInput === selectedStaff.pin) {
+    if (!selectedStaff) return;
+
+    const subject: LoginSubject = { type: 'STAFF', id: selectedStaff.id, label: selectedStaff.name, hospitalId: hospital.id };
+    const status = getAttemptStatus(subject);
+    if (status.blocked) {
+      setPinError(describeBlock(status));
+      return;
+    }
+
+    if (await verifyStaffPin(selectedStaff.id, pinInput)) {
+      recordSuccessfulAttempt(subject);
+      // Reload in case the PIN was just migrated to a hash
+      setSelectedStaff(getStaffByHospital(hospital.id).find(u => u.id === selectedStaff.id) || selectedStaff);
+      setCurrentActor({ id: selectedStaff.id, name: selectedStaff.name, role: UserRole.STAFF });
+      // Cloud writes are limited to their own rows while they are signed in
+      openCloudSession('STAFF', selectedStaff.id, pinInput);
       setView('STAFF_ACTIVE');
     } else {
-      setPinError('Incorrect PIN');
+      const failed = recordFailedAttempt(subject);
+      setPinError(failed.blocked ? `Incorrect PIN. ${describeBlock(failed)}` : 'Incorrect PIN');
     }
   };
 
-  const handleShareLink = () => {
-    const link = generateHospitalConfigLink(hospital.id);
+  // Without a cloud to look up the hospital's signing keys, only a passphrase lets devices trust the link
+  const passphraseRequired = !isSyncEnabled();
+
+  const handleShareLink = async () => {
+    if (passphraseRequired && !linkPassphrase) {
+      alert('Set a passphrase for the link and share it with your staff separately.');
+      return;
+    }
+    const link = await generateHospitalConfigLink(hospital.id, {
+      expiresInHours: linkExpiryHours,
+      passphrase: linkPassphrase || undefined
+    });
     navigator.clipboard.writeText(link);
+    setSharedLink(link);
     setLinkCopied(true);
     setTimeout(() => setLinkCopied(false), 3000);
   };
 
-  const handleLogExport = (e: React.FormEvent) => {
+  const handleLogExport = async (e: React.FormEvent) => {
     e.preventDefault();
     // Validate password
-    const storedPass = hospital.logViewPassword || '';
-    const inputPass = logPassInput || '';
-
-    if (inputPass === storedPass && storedPass !== '') {
+    if (await verifyLogViewPassword(hospital.id, logPassInput || '')) {
+      // Pick up the hashed password if it was just migrated
+      setHospital(getHospitals().find(h => h.id === hospital.id) || hospital);
       setLogPassError('');
       setShowLogPassPrompt(false);
       setLogPassInput('');
@@ -196,39 +284,60 @@ const HospitalPortal: React.FC<HospitalPortalProps> = ({ hospital, onLogout }) =
         return rDate >= start && rDate <= end;
       });
 
-      if (logs.length === 0) {
+      const absences = getAbsences(start, end);
+
+      if (logs.length === 0 && absences.length === 0) {
         alert("No attendance records found for the selected date range.");
         return;
       }
-      generateAttendancePDF(logs, hospital.name);
+      generateAttendancePDF(logs, hospital, absences, getAnomalies(logs));
     } else {
       setLogPassError('Incorrect password. Please contact Admin if you forgot it.');
     }
   };
 
-  const handleImportSync = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!syncDataInput) return;
-    
-    const result = importAttendanceData(syncDataInput);
-    if (result.success) {
-      setSyncResult(`Success! Updated ${result.count} records.`);
+  const importSyncCode = async (code: string) => {
+    setImportingSync(true);
+    const report = await importAttendanceData(code, hospital.id);
+    setImportingSync(false);
+    setSyncReport(report);
+    if (report.success) {
       setSyncDataInput('');
-      setTimeout(() => {
-        setShowSyncModal(false);
-        setSyncResult('');
-      }, 2000);
-    } else {
-      setSyncResult('Failed. Invalid data code.');
+      loadData();
     }
   };
 
+  const handleImportSync = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (syncDataInput) importSyncCode(syncDataInput);
+  };
+
+  const handleScannedSync = (code: string) => {
+    setScanningSync(false);
+    importSyncCode(code);
+  };
+
+  const closeSyncModal = () => {
+    setShowSyncModal(false);
+    setScanningSync(false);
+    setSyncReport(null);
+    setSyncDataInput('');
+  };
+
+  const syncStatusClass = (status: TransferRecordStatus) => {
+    if (status === 'NEW' || status === 'UPDATED') return 'bg-green-100 text-green-700';
+    if (status === 'UNCHANGED') return 'bg-slate-100 text-slate-600';
+    return 'bg-red-100 text-red-700';
+  };
+
 
   if (view === 'STAFF_ACTIVE' && selectedStaff) {
     return (
       <StaffDashboard 
         user={selectedStaff} 
         onLogout={() => {
+          closeStaffCloudSession();
+          setCurrentActor({ id: hospital.id, name: `${hospital.name} (Manager)`, role: UserRole.MANAGER });
           setSelectedStaff(null);
           setView('SELECT_PROFILE');
           loadData(); 
@@ -277,7 +386,7 @@ const HospitalPortal: React.FC<HospitalPortalProps> = ({ hospital, onLogout }) =
                     <div className="text-sm text-indigo-900">
                       <strong>To:</strong> {hospital.emailReportConfig.recipientEmail}
                     </div>
-                    <button onClick={() => updateHospital({...hospital, emailReportConfig: undefined})} className="text-xs text-slate-400 hover:text-red-500">Change</button>
+                    <button onClick={() => persistHospital({...hospital, emailReportConfig: undefined})} className="text-xs text-slate-400 hover:text-red-500">Change</button>
                   </div>
 
                   {reportDue ? (
@@ -303,8 +412,26 @@ const HospitalPortal: React.FC<HospitalPortalProps> = ({ hospital, onLogout }) =
               )}
             </div>
 
+            {/* SHIFT SCHEDULES */}
+            <ShiftScheduleEditor
+              shifts={hospital.shifts || []}
+              onSave={shifts => persistHospital({ ...hospital, shifts })}
+            />
+
+            {/* AUTO-CLOSE POLICY */}
+            <AutoClosePolicyEditor
+              policy={hospital.autoClosePolicy}
+              onSave={autoClosePolicy => persistHospital({ ...hospital, autoClosePolicy })}
+            />
+
+            {/* DEVICE POLICY */}
+            <DevicePolicyEditor
+              policy={hospital.devicePolicy}
+              onSave={devicePolicy => persistHospital({ ...hospital, devicePolicy })}
+            />
+
             {/* ADD STAFF */}
-            <div>
+            <div className="pt-6 border-t">
               <h3 className="font-semibold mb-4 flex items-center gap-2"><UserPlus className="w-5 h-5 text-green-600" /> Add New Staff</h3>
               <form onSubmit={handleAddStaff} className="space-y-4">
                 <input type="text" placeholder="Staff Full Name" value={newStaffName} onChange={e => setNewStaffName(e.target.value)} className="w-full p-2 border rounded" required />
@@ -325,25 +452,54 @@ const HospitalPortal: React.FC<HospitalPortalProps> = ({ hospital, onLogout }) =
                  <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
                    <div className="bg-white p-6 rounded-xl shadow-xl w-full max-w-md">
                      <h3 className="font-bold text-lg mb-2">Import Attendance Data</h3>
-                     <p className="text-sm text-slate-600 mb-4">Paste the sync code provided by your staff member below.</p>
+                     <p className="text-sm text-slate-600 mb-4">Scan the QR code on your staff member's phone, or paste the sync code they sent you.</p>
                      
                      <form onSubmit={handleImportSync}>
-                       <textarea 
-                          value={syncDataInput} 
-                          onChange={e => setSyncDataInput(e.target.value)} 
-                          className="w-full h-32 p-2 border rounded text-xs font-mono bg-slate-50"
-                          placeholder="Paste code here..."
-                       ></textarea>
+                       {scanningSync ? (
+                         <QrScanner onScan={handleScannedSync} onCancel={() => setScanningSync(false)} />
+                       ) : (
+                         <>
+                           <button type="button" onClick={() => { setSyncReport(null); setScanningSync(true); }} className="w-full mb-2 border border-purple-200 text-purple-700 py-2 rounded flex items-center justify-center gap-2 hover:bg-purple-50">
+                             <ScanLine className="w-4 h-4" /> Scan QR Code
+                           </button>
+                           <textarea 
+                              value={syncDataInput} 
+                              onChange={e => setSyncDataInput(e.target.value)} 
+                              className="w-full h-32 p-2 border rounded text-xs font-mono bg-slate-50"
+                              placeholder="Paste code here..."
+                           ></textarea>
+                         </>
+                       )}
                        
-                       {syncResult && (
-                         <div className={`text-sm mt-2 font-bold ${syncResult.includes('Success') ? 'text-green-600' : 'text-red-600'}`}>
-                           {syncResult}
+                       {syncReport && (
+                         <div className="mt-2">
+                           <div className={`text-sm font-bold ${syncReport.success ? 'text-green-600' : 'text-red-600'}`}>
+                             {syncReport.message}
+                             {syncReport.correctionRequests > 0 && ` ${syncReport.correctionRequests} correction request(s) merged.`}
+                           </div>
+                           {syncReport.records.length > 0 && (
+                             <ul className="mt-2 max-h-48 overflow-y-auto divide-y border rounded text-xs">
+                               {syncReport.records.map((result, index) => (
+                                 <li key={`${result.id}-${index}`} className="p-2">
+                                   <div className="flex justify-between items-center gap-2">
+                                     <span className="text-slate-700">{result.label}</span>
+                                     <span className={`px-2 py-0.5 rounded-full font-semibold whitespace-nowrap ${syncStatusClass(result.status)}`}>
+                                       {TRANSFER_STATUS_LABELS[result.status]}
+                                     </span>
+                                   </div>
+                                   {result.reason && <div className="text-slate-500 mt-1">{result.reason}</div>}
+                                 </li>
+                               ))}
+                             </ul>
+                           )}
                          </div>
                        )}
 
                        <div className="flex gap-2 mt-4">
-                         <button type="button" onClick={() => setShowSyncModal(false)} className="flex-1 py-2 bg-slate-200 rounded">Cancel</button>
-                         <button type="submit" className="flex-1 py-2 bg-purple-600 text-white rounded hover:bg-purple-700">Merge Records</button>
+                         <button type="button" onClick={closeSyncModal} className="flex-1 py-2 bg-slate-200 rounded">{syncReport?.success ? 'Close' : 'Cancel'}</button>
+                         <button type="submit" disabled={importingSync || !syncDataInput} className="flex-1 py-2 bg-purple-600 text-white rounded hover:bg-purple-700 disabled:opacity-50 flex justify-center items-center gap-2">
+                           {importingSync && <Loader2 className="w-4 h-4 animate-spin" />} Merge Records
+                         </button>
                        </div>
                      </form>
                    </div>
@@ -354,9 +510,35 @@ const HospitalPortal: React.FC<HospitalPortalProps> = ({ hospital, onLogout }) =
             {/* SHARE APP */}
             <div className="pt-6 border-t">
               <h4 className="font-semibold mb-2 flex items-center gap-2"><Share2 className="w-4 h-4 text-blue-600" /> Share App Access</h4>
+              <p className="text-xs text-slate-500 mb-3">Signed setup link for staff devices. It carries the hospital settings and staff list, and stops working when it expires.</p>
+              <div className="flex gap-2 mb-2">
+                <input
+                  type="password"
+                  value={linkPassphrase}
+                  onChange={e => setLinkPassphrase(e.target.value)}
+                  placeholder={passphraseRequired ? 'Passphrase (required)' : 'Passphrase (optional)'}
+                  className="flex-1 p-2 border rounded text-sm"
+                />
+                <select value={linkExpiryHours} onChange={e => setLinkExpiryHours(Number(e.target.value))} className="p-2 border rounded text-sm bg-white">
+                  <option value={24}>1 day</option>
+                  <option value={72}>3 days</option>
+                  <option value={168}>7 days</option>
+                  <option value={720}>30 days</option>
+                </select>
+              </div>
               <button onClick={handleShareLink} className="w-full border border-blue-200 bg-blue-50 text-blue-700 py-2 rounded flex items-center justify-center gap-2 hover:bg-blue-100 transition">
                 {linkCopied ? <span className="font-bold">Link Copied!</span> : <><Copy className="w-4 h-4" /> Copy Access Link</>}
               </button>
+              {passphraseRequired && (
+                <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded p-2 mb-2">Without cloud sync the link also carries the hashed staff PINs and hospital password. Treat it as a secret: share it only with your staff and keep the passphrase separate.</p>
+              )}
+              {sharedLink && (
+                <div className="mt-3 p-3 border rounded bg-slate-50">
+                  <p className="text-xs text-slate-500 mb-2 flex items-center gap-1"><QrCode className="w-3 h-3" /> New devices can scan this to open the link.</p>
+                  <QrCodeSequence frames={[sharedLink]} size={200} />
+                  <button onClick={() => setSharedLink('')} className="w-full text-xs text-slate-500 mt-2 hover:text-slate-800">Hide QR Code</button>
+                </div>
+              )}
             </div>
 
             {/* DATA EXPORT */}
@@ -401,7 +583,7 @@ const HospitalPortal: React.FC<HospitalPortalProps> = ({ hospital, onLogout }) =
                     </div>
                     <div>
                         <div className="font-medium">{s.name}</div>
-                        <div className="text-xs text-slate-500">PIN: {s.pin}</div>
+                        <button onClick={() => handleResetPin(s)} className="text-xs text-blue-500 hover:underline">Reset PIN</button>
                     </div>
                   </div>
                   <button onClick={() => handleDeleteStaff(s.id)} className="text-red-400 hover:text-red-600 p-2"><Trash2 className="w-4 h-4" /></button>
@@ -410,6 +592,16 @@ const HospitalPortal: React.FC<HospitalPortalProps> = ({ hospital, onLogout }) =
             </div>
           </div>
         </div>
+
+        <AttendanceReviewPanel hospital={hospital} />
+
+        <RosterPlanner hospital={hospital} staffList={staffList} />
+
+        <DevicePanel hospital={hospital} />
+
+        <LockoutPanel hospital={hospital} />
+
+        <AuditLogViewer hospitalId={hospital.id} />
       </div>
     );
   }
@@ -421,7 +613,8 @@ const HospitalPortal: React.FC<HospitalPortalProps> = ({ hospital, onLogout }) =
           <h1 className="font-bold text-lg text-slate-800">{hospital.name}</h1>
           <p className="text-xs text-slate-500">Reg: {hospital.registrationNumber}</p>
         </div>
-        <div className="flex gap-2">
+        <div className="flex gap-2 items-center">
+           <PendingChangesBadge />
            <button onClick={() => setView('MANAGER')} className="p-2 text-slate-400 hover:text-blue-600 border border-transparent hover:border-blue-100 rounded"><Settings className="w-5 h-5" /></button>
            <button onClick={onLogout} className="p-2 text-slate-400 hover:text-red-600 border border-transparent hover:border-red-100 rounded"><LogOut className="w-5 h-5" /></button>
         </div>
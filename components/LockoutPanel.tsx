@@ -0,0 +1,74 @@
+import React, { useState, useEffect } from 'react';
+import { Hospital } from '../types';
+import { getHospitalAttemptStates, getHospitalFailedLogins, clearLockout, getAttemptStatus, AttemptState, FailedLoginAttempt } from '../services/loginAttempts';
+import { ShieldAlert, Unlock } from 'lucide-react';
+
+interface LockoutPanelProps {
+  hospital: Hospital;
+}
+
+const LockoutPanel: React.FC<LockoutPanelProps> = ({ hospital }) => {
+  const [states, setStates] = useState<AttemptState[]>([]);
+  const [failedLogins, setFailedLogins] = useState<FailedLoginAttempt[]>([]);
+
+  const loadData = () => {
+    setStates(getHospitalAttemptStates(hospital.id));
+    setFailedLogins(getHospitalFailedLogins(hospital.id).slice(0, 20));
+  };
+
+  useEffect(() => {
+    loadData();
+  }, [hospital.id]);
+
+  const handleClear = (state: AttemptState) => {
+    clearLockout(state.subject);
+    loadData();
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl border shadow-sm mt-6">
+      <h3 className="font-semibold mb-4 flex items-center gap-2"><ShieldAlert className="w-5 h-5 text-red-600" /> Login Security</h3>
+
+      <div className="space-y-2 mb-4">
+        {states.length === 0 && <p className="text-sm text-slate-400 italic">No failed login attempts pending.</p>}
+        {states.map(state => {
+          const status = getAttemptStatus(state.subject);
+          return (
+            <div key={`${state.subject.type}:${state.subject.id}`} className="flex justify-between items-center p-2 bg-slate-50 rounded text-sm">
+              <div>
+                <div className="font-medium">{state.subject.label}</div>
+                <div className="text-xs text-slate-500">
+                  {state.failures} failed attempt(s)
+                  {status.blocked && (
+                    <span className={status.locked ? 'text-red-600 font-bold' : 'text-amber-600'}>
+                      {' '}· {status.locked ? 'Locked' : 'Delayed'} until {new Date(state.retryAt!).toLocaleTimeString()}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <button onClick={() => handleClear(state)} className="text-xs bg-white border border-slate-200 px-2 py-1 rounded flex items-center gap-1 hover:bg-green-50 hover:text-green-700">
+                <Unlock className="w-3 h-3" /> Clear
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {failedLogins.length > 0 && (
+        <div>
+          <h4 className="text-xs font-bold text-slate-500 uppercase mb-2">Recent Failed Attempts</h4>
+          <div className="max-h-40 overflow-y-auto text-xs divide-y">
+            {failedLogins.map(a => (
+              <div key={a.id} className="py-1 flex justify-between text-slate-600">
+                <span>{a.subjectLabel}</span>
+                <span className="font-mono text-slate-400">...{a.deviceId.slice(-6)} · {new Date(a.timestamp).toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LockoutPanel;
@@ -0,0 +1,48 @@
+import React, { useState, useEffect } from 'react';
+import { isSyncEnabled } from '../services/cloudBackend';
+import { countDirty, getOutboxRetryState, subscribeOutbox } from '../services/syncState';
+import { CloudOff, RefreshCw } from 'lucide-react';
+
+// Header counter for local changes that have not reached the cloud yet
+const PendingChangesBadge: React.FC = () => {
+  const [pending, setPending] = useState(countDirty());
+  const [retry, setRetry] = useState(getOutboxRetryState());
+  const [online, setOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const refresh = () => {
+      setPending(countDirty());
+      setRetry(getOutboxRetryState());
+    };
+    const updateOnline = () => setOnline(navigator.onLine);
+    const unsubscribe = subscribeOutbox(refresh);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
+
+  // Nothing is queued for upload in local-only mode
+  if (!isSyncEnabled() || pending === 0) return null;
+
+  const title = !online
+    ? 'Offline. Changes are saved on this device and will upload when the connection returns.'
+    : retry.attempts > 0
+      ? `Upload failed${retry.lastError ? ` (${retry.lastError})` : ''}. Retrying${retry.nextAttemptAt ? ` at ${new Date(retry.nextAttemptAt).toLocaleTimeString()}` : ''}.`
+      : 'Uploading changes...';
+
+  return (
+    <span
+      title={title}
+      className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs font-bold border ${!online || retry.attempts > 0 ? 'bg-amber-50 text-amber-700 border-amber-200' : 'bg-blue-50 text-blue-700 border-blue-200'}`}
+    >
+      {!online ? <CloudOff className="w-3 h-3" /> : <RefreshCw className={`w-3 h-3 ${retry.attempts > 0 ? '' : 'animate-spin'}`} />}
+      {pending} pending
+    </span>
+  );
+};
+
+export default PendingChangesBadge;
@@ -0,0 +1,36 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { renderQrDataUrl, FRAME_INTERVAL_MS } from '../services/qrTransfer';
+
+interface QrCodeSequenceProps {
+  // One QR code per frame; several frames are cycled so a scanner can collect them all
+  frames: string[];
+  size?: number; // Displayed width in pixels
+}
+
+const QrCodeSequence: React.FC<QrCodeSequenceProps> = ({ frames, size = 240 }) => {
+  const [index, setIndex] = useState(0);
+  const images = useMemo(() => frames.map(frame => renderQrDataUrl(frame)), [frames]);
+
+  useEffect(() => {
+    setIndex(0);
+    if (frames.length < 2) return;
+    const timer = setInterval(() => setIndex(i => (i + 1) % frames.length), FRAME_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [frames]);
+
+  const image = images[index];
+  if (!image) {
+    return <p className="text-xs text-slate-500 text-center">Too long for a QR code. Copy it instead.</p>;
+  }
+
+  return (
+    <div className="flex flex-col items-center">
+      <img src={image} alt="QR code" style={{ width: size, height: size, imageRendering: 'pixelated' }} className="border rounded bg-white" />
+      {frames.length > 1 && (
+        <p className="text-xs text-slate-500 mt-1">Part {index + 1} of {frames.length}. Keep the scanner pointed until all parts are read.</p>
+      )}
+    </div>
+  );
+};
+
+export default QrCodeSequence;
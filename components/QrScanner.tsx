@@ -0,0 +1,94 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createFrameCollector, scanVideoFrame, FrameProgress } from '../services/qrTransfer';
+import { Camera, X } from 'lucide-react';
+
+interface QrScannerProps {
+  // Called once with the reassembled data when every frame has been read
+  onScan: (data: string) => void;
+  onCancel: () => void;
+}
+
+const SCAN_INTERVAL_MS = 150;
+
+const QrScanner: React.FC<QrScannerProps> = ({ onScan, onCancel }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [progress, setProgress] = useState<FrameProgress | null>(null);
+  const [error, setError] = useState('');
+  // The camera loop starts once; read the latest callback from a ref
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+    const collector = createFrameCollector();
+
+    const scan = async () => {
+      if (stopped || !videoRef.current || !canvasRef.current) return;
+      const text = await scanVideoFrame(videoRef.current, canvasRef.current);
+      const result = text ? collector.add(text) : null;
+      if (result && !stopped) {
+        setProgress(result);
+        if (result.data) {
+          stopped = true;
+          onScanRef.current(result.data);
+          return;
+        }
+      }
+      timer = setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError('This browser cannot use the camera. Paste the code instead.');
+      return;
+    }
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(media => {
+        stream = media;
+        if (stopped) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        if (videoRef.current) {
+          videoRef.current.srcObject = media;
+          videoRef.current.play().catch(() => {});
+        }
+        scan();
+      })
+      .catch(err => {
+        console.error("Camera unavailable:", err);
+        setError('Camera unavailable. Allow camera access, or paste the code instead.');
+      });
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative bg-black rounded overflow-hidden aspect-square">
+        <video ref={videoRef} muted playsInline className="w-full h-full object-cover" />
+        <canvas ref={canvasRef} className="hidden" />
+        <button type="button" onClick={onCancel} className="absolute top-2 right-2 bg-white/80 rounded-full p-1" aria-label="Stop scanning">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      {error ? (
+        <p className="text-xs text-red-600 text-center">{error}</p>
+      ) : (
+        <p className="text-xs text-slate-500 text-center flex items-center justify-center gap-1">
+          <Camera className="w-3 h-3" />
+          {progress ? `Read ${progress.received} of ${progress.total} parts` : 'Point the camera at the QR code'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default QrScanner;
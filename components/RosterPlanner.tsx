@@ -0,0 +1,126 @@
+import React, { useState, useEffect } from 'react';
+import { Hospital, User, RosterAssignment } from '../types';
+import { getRosterByHospital, saveRosterAssignment, deleteRosterAssignment, getAttendanceRecords } from '../services/storage';
+import { getHospitalShifts, formatShiftWindow } from '../services/shiftUtils';
+import { compareRosterToAttendance, parseRosterDate, toRosterDate, RosterStatus } from '../services/rosterUtils';
+import { CalendarDays, Trash2, UserX, AlertTriangle, HelpCircle } from 'lucide-react';
+
+interface RosterPlannerProps {
+  hospital: Hospital;
+  staffList: User[];
+}
+
+const STATUS_STYLES: Record<RosterStatus, string> = {
+  ATTENDED: 'bg-green-100 text-green-700',
+  NO_SHOW: 'bg-amber-100 text-amber-700',
+  ABSENT: 'bg-red-100 text-red-700',
+  UPCOMING: 'bg-slate-100 text-slate-600',
+};
+
+const RosterPlanner: React.FC<RosterPlannerProps> = ({ hospital, staffList }) => {
+  const shifts = getHospitalShifts(hospital);
+  const [assignments, setAssignments] = useState<RosterAssignment[]>([]);
+  const [date, setDate] = useState(toRosterDate(new Date()));
+  const [shiftId, setShiftId] = useState(shifts[0].id);
+  const [userId, setUserId] = useState('');
+
+  useEffect(() => {
+    setAssignments(getRosterByHospital(hospital.id));
+  }, [hospital.id]);
+
+  useEffect(() => {
+    if (!shifts.some(s => s.id === shiftId)) setShiftId(shifts[0].id);
+  }, [hospital.shifts]);
+
+  const handleAssign = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId) return;
+    const duplicate = assignments.some(a => a.userId === userId && a.shiftId === shiftId && a.date === date);
+    if (duplicate) {
+      alert("This staff member is already rostered for that shift.");
+      return;
+    }
+    saveRosterAssignment({
+      id: crypto.randomUUID(),
+      hospitalId: hospital.id,
+      userId,
+      shiftId,
+      date,
+    });
+    setAssignments(getRosterByHospital(hospital.id));
+  };
+
+  const handleRemove = (id: string) => {
+    deleteRosterAssignment(id);
+    setAssignments(getRosterByHospital(hospital.id));
+  };
+
+  // Window: last 7 days through the next 7 days
+  const windowStart = new Date();
+  windowStart.setDate(windowStart.getDate() - 7);
+  windowStart.setHours(0, 0, 0, 0);
+  const windowEnd = new Date();
+  windowEnd.setDate(windowEnd.getDate() + 7);
+  windowEnd.setHours(23, 59, 59, 999);
+
+  const comparison = compareRosterToAttendance(hospital, assignments, getAttendanceRecords(), staffList, windowStart, windowEnd);
+  const rosterInUse = comparison.entries.length > 0;
+
+  return (
+    <div className="bg-white p-6 rounded-xl border shadow-sm mt-6">
+      <h3 className="font-semibold mb-4 flex items-center gap-2"><CalendarDays className="w-5 h-5 text-teal-600" /> Staff Roster</h3>
+
+      <form onSubmit={handleAssign} className="grid md:grid-cols-4 gap-2 mb-6">
+        <input type="date" value={date} onChange={e => setDate(e.target.value)} className="p-2 border rounded text-sm" required />
+        <select value={shiftId} onChange={e => setShiftId(e.target.value)} className="p-2 border rounded text-sm">
+          {shifts.map(s => <option key={s.id} value={s.id}>{s.name} ({formatShiftWindow(s)})</option>)}
+        </select>
+        <select value={userId} onChange={e => setUserId(e.target.value)} className="p-2 border rounded text-sm" required>
+          <option value="">Select staff...</option>
+          {staffList.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+        </select>
+        <button className="bg-teal-600 text-white py-2 rounded hover:bg-teal-700 text-sm">Assign Shift</button>
+      </form>
+
+      {rosterInUse && (
+        <div className="grid grid-cols-3 gap-2 mb-6 text-center">
+          <div className="p-3 rounded bg-red-50 border border-red-100">
+            <UserX className="w-4 h-4 mx-auto text-red-600" />
+            <div className="text-lg font-bold text-red-700">{comparison.absences.length}</div>
+            <div className="text-[10px] uppercase text-red-500 tracking-wider">Absent</div>
+          </div>
+          <div className="p-3 rounded bg-amber-50 border border-amber-100">
+            <AlertTriangle className="w-4 h-4 mx-auto text-amber-600" />
+            <div className="text-lg font-bold text-amber-700">{comparison.noShows.length}</div>
+            <div className="text-[10px] uppercase text-amber-500 tracking-wider">No-Show Now</div>
+          </div>
+          <div className="p-3 rounded bg-slate-50 border border-slate-100">
+            <HelpCircle className="w-4 h-4 mx-auto text-slate-600" />
+            <div className="text-lg font-bold text-slate-700">{comparison.unscheduled.length}</div>
+            <div className="text-[10px] uppercase text-slate-500 tracking-wider">Unscheduled</div>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-1 max-h-[300px] overflow-y-auto">
+        {!rosterInUse && <p className="text-sm text-slate-400 italic">No shifts rostered for the last or next 7 days.</p>}
+        {comparison.entries.map(entry => (
+          <div key={entry.assignment.id} className="flex justify-between items-center p-2 bg-slate-50 rounded text-sm">
+            <div>
+              <span className="font-medium">{entry.userName}</span>
+              <span className="text-xs text-slate-500 ml-2">
+                {parseRosterDate(entry.assignment.date).toLocaleDateString()} · {entry.occurrence.shift.name}
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className={`text-[10px] px-1.5 py-0.5 rounded font-medium ${STATUS_STYLES[entry.status]}`}>{entry.status.replace('_', '-')}</span>
+              <button onClick={() => handleRemove(entry.assignment.id)} className="text-red-400 hover:text-red-600 p-1"><Trash2 className="w-4 h-4" /></button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RosterPlanner;
@@ -0,0 +1,126 @@
+import React, { useState, useEffect } from 'react';
+import { SCHEMA_MIGRATIONS, LATEST_SCHEMA_VERSION, buildMigrationScript } from '../services/schemaMigrations';
+import { getSchemaStatus, applyPendingMigrations, SchemaStatus } from '../services/syncEngine';
+import { getCloudBackend, isSyncEnabled } from '../services/cloudBackend';
+import { AlertTriangle, CheckCircle, Copy, Loader2, RefreshCw, Play } from 'lucide-react';
+
+interface SchemaMigrationsPanelProps {
+  onStatusChange?: (status: SchemaStatus | null) => void;
+}
+
+const SchemaMigrationsPanel: React.FC<SchemaMigrationsPanelProps> = ({ onStatusChange }) => {
+  const [status, setStatus] = useState<SchemaStatus | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const canApply = isSyncEnabled() && !!getCloudBackend().applyMigrations;
+
+  const updateStatus = (next: SchemaStatus | null) => {
+    setStatus(next);
+    onStatusChange?.(next);
+  };
+
+  const checkStatus = async () => {
+    if (!isSyncEnabled()) return;
+    setLoading(true);
+    setError('');
+    try {
+      updateStatus(await getSchemaStatus());
+    } catch (err: any) {
+      setError(err?.message || 'Could not read the schema version.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    checkStatus();
+  }, []);
+
+  const handleApply = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      updateStatus(await applyPendingMigrations());
+    } catch (err: any) {
+      setError(err?.message || 'Failed to apply migrations.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Without a connection we cannot tell the version, so offer the full schema for a new project
+  const pending = status ? status.pending : SCHEMA_MIGRATIONS;
+  const script = buildMigrationScript(pending);
+
+  const handleCopy = (sql: string) => {
+    navigator.clipboard.writeText(sql);
+    alert("SQL copied! Paste this into the SQL Editor in your Supabase Dashboard.");
+  };
+
+  return (
+    <div className="space-y-4 animate-in fade-in">
+      {status && pending.length === 0 ? (
+        <div className="flex items-start gap-3 bg-green-900/30 border border-green-800 p-3 rounded">
+          <CheckCircle className="w-5 h-5 text-green-400 shrink-0" />
+          <div>
+            <p className="text-sm text-green-300 font-bold">Schema up to date</p>
+            <p className="text-xs text-green-200/70">Cloud database is at version {status.currentVersion} (latest {LATEST_SCHEMA_VERSION}).</p>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-start gap-3 bg-amber-900/30 border border-amber-800 p-3 rounded">
+          <AlertTriangle className="w-5 h-5 text-amber-500 shrink-0" />
+          <div>
+            <p className="text-sm text-amber-200 font-bold">
+              {status ? `Schema out of date (version ${status.currentVersion} of ${LATEST_SCHEMA_VERSION})` : 'Required Setup'}
+            </p>
+            <p className="text-xs text-amber-200/70">
+              {canApply
+                ? 'Apply the pending migrations below. Sync stays paused until the schema is current.'
+                : 'Run the SQL below in your Supabase SQL Editor, in order. Sync stays paused until the schema is current.'}
+            </p>
+            <ul className="mt-2 text-xs text-amber-100 font-mono space-y-0.5">
+              {pending.map(m => <li key={m.version}>{m.version}. {m.name}</li>)}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {error && <div className="text-xs text-red-300 bg-red-900/30 border border-red-800 p-2 rounded">{error}</div>}
+
+      <div className="flex flex-wrap gap-2">
+        {isSyncEnabled() && (
+          <button onClick={checkStatus} disabled={loading} className="bg-slate-700 hover:bg-slate-600 text-white text-xs px-3 py-1.5 rounded flex items-center gap-2 transition disabled:opacity-50">
+            {loading ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />} Check Again
+          </button>
+        )}
+        {canApply && pending.length > 0 && (
+          <button onClick={handleApply} disabled={loading} className="bg-blue-600 hover:bg-blue-500 text-white text-xs px-3 py-1.5 rounded flex items-center gap-2 transition disabled:opacity-50">
+            <Play className="w-3 h-3" /> Apply Migrations
+          </button>
+        )}
+        <button onClick={() => handleCopy(buildMigrationScript(SCHEMA_MIGRATIONS))} className="bg-slate-700 hover:bg-slate-600 text-white text-xs px-3 py-1.5 rounded flex items-center gap-2 transition">
+          <Copy className="w-3 h-3" /> Copy Full Schema
+        </button>
+      </div>
+
+      {pending.length > 0 && (
+        <div className="relative group">
+          <div className="absolute right-2 top-2">
+            <button
+              onClick={() => handleCopy(script)}
+              className="bg-slate-600 hover:bg-slate-500 text-white text-xs px-3 py-1.5 rounded flex items-center gap-2 transition"
+            >
+              <Copy className="w-3 h-3" /> Copy Pending SQL
+            </button>
+          </div>
+          <pre className="bg-slate-950 p-4 rounded border border-slate-800 text-[10px] font-mono text-slate-400 overflow-x-auto h-48">
+            {script}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SchemaMigrationsPanel;
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { User } from '../types';
+import { createAdmin } from '../services/storage';
+import { registerFirstAdmin } from '../services/cloudAuth';
+import { Activity, ShieldCheck, Loader2 } from 'lucide-react';
+
+interface SetupWizardProps {
+  onComplete: (admin: User) => void;
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const SetupWizard: React.FC<SetupWizardProps> = ({ onComplete }) => {
+  const [name, setName] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const admin = await createAdmin(name.trim(), username.trim(), password);
+      await registerFirstAdmin(admin, password);
+      onComplete(admin);
+    } catch (err) {
+      console.error(err);
+      setError('Failed to create administrator.');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-100 flex flex-col items-center justify-center p-4">
+      <div className="bg-white w-full max-w-md rounded-2xl shadow-xl overflow-hidden border border-slate-200">
+        <div className="bg-slate-800 p-8 text-center text-white">
+          <Activity className="w-12 h-12 mx-auto mb-3" />
+          <h1 className="text-2xl font-bold">Welcome to MediGuard</h1>
+          <p className="text-slate-300 text-sm">First-time setup</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-8 space-y-4">
+          <div className="text-center mb-6">
+            <h2 className="text-lg font-semibold text-slate-800 flex items-center justify-center gap-2">
+              <ShieldCheck className="w-5 h-5" /> Create System Administrator
+            </h2>
+            <p className="text-sm text-slate-500">This account registers hospitals and manages the system. You can add more administrators later.</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Full Name</label>
+            <input type="text" value={name} onChange={e => setName(e.target.value)} className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-slate-500 outline-none" required autoFocus />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Username</label>
+            <input type="text" value={username} onChange={e => setUsername(e.target.value)} className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-slate-500 outline-none" required />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Password</label>
+            <input type="password" value={password} onChange={e => setPassword(e.target.value)} className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-slate-500 outline-none" required />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Confirm Password</label>
+            <input type="password" value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-slate-500 outline-none" required />
+          </div>
+
+          {error && <div className="text-red-600 text-sm text-center bg-red-50 p-2 rounded">{error}</div>}
+
+          <button type="submit" disabled={saving} className="w-full bg-slate-800 text-white py-3 rounded-lg font-bold hover:bg-slate-900 transition flex justify-center items-center gap-2">
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />} Create Administrator
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SetupWizard;
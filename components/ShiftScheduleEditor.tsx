@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { ShiftTemplate } from '../types';
+import { DEFAULT_SHIFT, formatShiftWindow, isOvernightShift } from '../services/shiftUtils';
+import { Clock, Plus, Trash2, Moon } from 'lucide-react';
+
+interface ShiftScheduleEditorProps {
+  shifts: ShiftTemplate[];
+  onSave: (shifts: ShiftTemplate[]) => void;
+}
+
+const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const ShiftScheduleEditor: React.FC<ShiftScheduleEditorProps> = ({ shifts, onSave }) => {
+  const [name, setName] = useState('');
+  const [startTime, setStartTime] = useState('08:00');
+  const [endTime, setEndTime] = useState('17:00');
+  const [graceMinutes, setGraceMinutes] = useState(5);
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>([1, 2, 3, 4, 5]);
+
+  const toggleDay = (day: number) => {
+    setDaysOfWeek(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort((a, b) => a - b));
+  };
+
+  const handleAddShift = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (daysOfWeek.length === 0) {
+      alert("Select at least one day for this shift.");
+      return;
+    }
+    const newShift: ShiftTemplate = {
+      id: crypto.randomUUID(),
+      name,
+      startTime,
+      endTime,
+      graceMinutes,
+      daysOfWeek,
+    };
+    onSave([...shifts, newShift]);
+    setName('');
+  };
+
+  const handleRemoveShift = (id: string) => {
+    if (confirm('Remove this shift from the schedule?')) {
+      onSave(shifts.filter(s => s.id !== id));
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="font-semibold mb-4 flex items-center gap-2"><Clock className="w-5 h-5 text-teal-600" /> Shift Schedules</h3>
+
+      <div className="space-y-2 mb-4">
+        {shifts.length === 0 && (
+          <div className="text-xs text-slate-500 bg-slate-50 p-2 rounded">
+            No shifts configured. Using default {DEFAULT_SHIFT.name} ({formatShiftWindow(DEFAULT_SHIFT)}, {DEFAULT_SHIFT.graceMinutes} min grace).
+          </div>
+        )}
+        {shifts.map(s => (
+          <div key={s.id} className="flex justify-between items-center p-2 bg-slate-50 rounded text-sm">
+            <div>
+              <div className="font-medium flex items-center gap-1">
+                {s.name} {isOvernightShift(s) && <Moon className="w-3 h-3 text-indigo-500" />}
+              </div>
+              <div className="text-xs text-slate-500">
+                {formatShiftWindow(s)} · {s.graceMinutes}m grace · {s.daysOfWeek.map(d => DAY_LABELS[d]).join(' ')}
+              </div>
+            </div>
+            <button onClick={() => handleRemoveShift(s.id)} className="text-red-400 hover:text-red-600 p-2"><Trash2 className="w-4 h-4" /></button>
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleAddShift} className="space-y-3">
+        <input type="text" placeholder="Shift Name (e.g. Night)" value={name} onChange={e => setName(e.target.value)} className="w-full p-2 border rounded" required />
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <label className="block text-xs text-slate-500 mb-1">Start</label>
+            <input type="time" value={startTime} onChange={e => setStartTime(e.target.value)} className="w-full p-2 border rounded text-sm" required />
+          </div>
+          <div>
+            <label className="block text-xs text-slate-500 mb-1">End</label>
+            <input type="time" value={endTime} onChange={e => setEndTime(e.target.value)} className="w-full p-2 border rounded text-sm" required />
+          </div>
+          <div>
+            <label className="block text-xs text-slate-500 mb-1">Grace (m)</label>
+            <input type="number" min={0} value={graceMinutes} onChange={e => setGraceMinutes(Number(e.target.value))} className="w-full p-2 border rounded text-sm" required />
+          </div>
+        </div>
+        <div className="flex gap-1">
+          {DAY_LABELS.map((label, day) => (
+            <button
+              key={day}
+              type="button"
+              onClick={() => toggleDay(day)}
+              className={`flex-1 py-1 rounded text-xs font-bold border ${daysOfWeek.includes(day) ? 'bg-teal-600 text-white border-teal-600' : 'bg-white text-slate-500 border-slate-200'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {startTime && endTime && endTime <= startTime && (
+          <p className="text-xs text-indigo-600">Ends the next day (overnight shift).</p>
+        )}
+        <button className="w-full bg-teal-600 text-white py-2 rounded hover:bg-teal-700 flex items-center justify-center gap-2">
+          <Plus className="w-4 h-4" /> Add Shift
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ShiftScheduleEditor;
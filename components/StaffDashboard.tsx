@@ -1,14 +1,36 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { User, Hospital, AttendanceRecord } from '../types';
-import { getHospitals, getActiveRecord, saveAttendanceRecord, updateAttendanceRecord, getOrCreateDeviceId, updateUser, getAttendanceRecords, exportAttendanceData } from '../services/storage';
-import { getCurrentPosition, calculateDistance } from '../services/geoUtils';
-import { MapPin, LogIn, LogOut, Clock, AlertCircle, Building2, Camera, Upload, User as UserIcon, Calendar, CheckCircle, Share2, ClipboardCheck } from 'lucide-react';
+import { User, Hospital, AttendanceRecord, CorrectionRequest, DeviceCheckOutcome } from '../types';
+import { getHospitals, getActiveRecord, saveAttendanceRecord, updateAttendanceRecord, getOrCreateDeviceId, updateUser, getAttendanceRecords, getCorrectionRequestsByUser, saveCorrectionRequest } from '../services/storage';
+import { exportAttendanceData } from '../services/transferCodes';
+import { splitIntoFrames } from '../services/qrTransfer';
+import { enrollThisDevice } from '../services/deviceEnrollment';
+import { getDevicePolicy, getDeviceMismatch, applyDevicePolicy, verifyOverridePin, DEVICE_CHECK_LABELS } from '../services/devicePolicy';
+import { getAttemptStatus, recordFailedAttempt, recordSuccessfulAttempt, describeBlock, LoginSubject } from '../services/loginAttempts';
+import { getHospitalZones } from '../services/geoUtils';
+import { verifyLocation, isFlaggedVerification, VERIFICATION_LABELS } from '../services/locationVerification';
+import { evaluateRecord } from '../services/shiftUtils';
+import { AUTO_CLOSE_RULE_LABELS } from '../services/autoClose';
+import { getReviewStatus, REVIEW_LABELS, CORRECTION_REQUEST_LABELS, toDateTimeInputValue, fromDateTimeInputValue } from '../services/attendanceReview';
+import PendingChangesBadge from './PendingChangesBadge';
+import QrCodeSequence from './QrCodeSequence';
+import { MapPin, LogIn, LogOut, Clock, AlertCircle, Building2, Camera, Upload, User as UserIcon, Calendar, CheckCircle, Share2, ClipboardCheck, Edit2 } from 'lucide-react';
 
 interface StaffDashboardProps {
   user: User;
   onLogout: () => void;
 }
 
+type DeviceAction = 'CHECK_IN' | 'CHECK_OUT';
+
+const ACTION_LABELS: Record<DeviceAction, string> = { CHECK_IN: 'Check-in', CHECK_OUT: 'Check-out' };
+
+// Added to the status message when the device policy let an unapproved device through
+const deviceCheckNote = (outcome: DeviceCheckOutcome): string => {
+  if (outcome === 'FLAGGED') return 'This device is not approved for you, so the record has been flagged for review.';
+  if (outcome === 'OVERRIDDEN') return 'Allowed on this device by manager override.';
+  return '';
+};
+
 const StaffDashboard: React.FC<StaffDashboardProps> = ({ user, onLogout }) => {
   const [hospitals, setHospitals] = useState<Hospital[]>([]);
   const [selectedHospitalId, setSelectedHospitalId] = useState<string>('');
@@ -23,11 +45,25 @@ const StaffDashboard: React.FC<StaffDashboardProps> = ({ user, onLogout }) => {
   const [history, setHistory] = useState<AttendanceRecord[]>([]);
   const [stats, setStats] = useState({ lateDays: 0, earlyLeavings: 0, totalDays: 0 });
 
+  // Correction Request State
+  const [correctionRequests, setCorrectionRequests] = useState<CorrectionRequest[]>([]);
+  const [requestingRecord, setRequestingRecord] = useState<AttendanceRecord | null>(null);
+  const [requestCheckIn, setRequestCheckIn] = useState('');
+  const [requestCheckOut, setRequestCheckOut] = useState('');
+  const [requestNote, setRequestNote] = useState('');
+  const [requestError, setRequestError] = useState('');
+
   // Sync State
   const [showExportModal, setShowExportModal] = useState(false);
   const [exportCode, setExportCode] = useState('');
+  const [exportFrames, setExportFrames] = useState<string[]>([]);
   const [copied, setCopied] = useState(false);
 
+  // Device Override State
+  const [overridePrompt, setOverridePrompt] = useState<{ action: DeviceAction; hospital: Hospital; reason: string } | null>(null);
+  const [overridePin, setOverridePin] = useState('');
+  const [overrideError, setOverrideError] = useState('');
+
   useEffect(() => {
     setHospitals(getHospitals());
     const current = getActiveRecord(user.id);
@@ -61,26 +97,19 @@ const StaffDashboard: React.FC<StaffDashboardProps> = ({ user, onLogout }) => {
     
     setHistory(userRecords);
     calculateStats(userRecords);
+    setCorrectionRequests(getCorrectionRequestsByUser(user.id));
   };
 
   const calculateStats = (records: AttendanceRecord[]) => {
     let late = 0;
     let early = 0;
+    const allHospitals = getHospitals();
 
     records.forEach(r => {
-      const checkIn = new Date(r.checkInTime);
-      // Late logic: Check in after 8:05 AM
-      if (checkIn.getHours() > 8 || (checkIn.getHours() === 8 && checkIn.getMinutes() > 5)) {
-        late++;
-      }
-
-      if (r.checkOutTime) {
-        const checkOut = new Date(r.checkOutTime);
-        // Early logic: Check out before 5:00 PM (17:00)
-        if (checkOut.getHours() < 17) {
-          early++;
-        }
-      }
+      // Late / early rules come from the hospital's shift schedule
+      const evaluation = evaluateRecord(r, allHospitals.find(h => h.id === r.hospitalId));
+      if (evaluation.isLate) late++;
+      if (evaluation.isEarlyLeave) early++;
     });
 
     setStats({
@@ -126,6 +155,7 @@ const StaffDashboard: React.FC<StaffDashboardProps> = ({ user, onLogout }) => {
   const handleGenerateSyncCode = () => {
     const code = exportAttendanceData(user.hospitalId, user.id);
     setExportCode(code);
+    setExportFrames(splitIntoFrames(code));
     setShowExportModal(true);
     setCopied(false);
   };
@@ -135,7 +165,102 @@ const StaffDashboard: React.FC<StaffDashboardProps> = ({ user, onLogout }) => {
     setCopied(true);
   };
 
-  const handleCheckIn = async () => {
+  const openCorrectionRequest = (record: AttendanceRecord) => {
+    setRequestingRecord(record);
+    setRequestCheckIn(toDateTimeInputValue(record.checkInTime));
+    setRequestCheckOut(toDateTimeInputValue(record.checkOutTime));
+    setRequestNote('');
+    setRequestError('');
+  };
+
+  const handleSubmitCorrectionRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!requestingRecord) return;
+    const proposedCheckInTime = fromDateTimeInputValue(requestCheckIn);
+    const proposedCheckOutTime = fromDateTimeInputValue(requestCheckOut);
+    if (!proposedCheckInTime) {
+      setRequestError('Check-in time is required.');
+      return;
+    }
+    if (proposedCheckOutTime && proposedCheckOutTime <= proposedCheckInTime) {
+      setRequestError('Check-out must be after check-in.');
+      return;
+    }
+
+    const now = new Date().toISOString();
+    await saveCorrectionRequest({
+      id: crypto.randomUUID(),
+      recordId: requestingRecord.id,
+      userId: user.id,
+      userName: user.name,
+      hospitalId: requestingRecord.hospitalId,
+      proposedCheckInTime,
+      proposedCheckOutTime,
+      note: requestNote.trim(),
+      status: 'PENDING',
+      createdAt: now,
+      updatedAt: now
+    });
+    setRequestingRecord(null);
+    loadHistory();
+    setStatusMessage({
+      type: 'success',
+      text: navigator.onLine
+        ? 'Correction request sent to your manager.'
+        : 'Correction request saved. It will be sent when you are back online or share a sync code.'
+    });
+  };
+
+  // Applies the hospital's device policy; null when the action may not go ahead (yet)
+  const checkDevice = (hospital: Hospital | undefined, action: DeviceAction, overridden: boolean): DeviceCheckOutcome | null => {
+    const mismatch = getDeviceMismatch(user, action === 'CHECK_OUT' ? activeShift : undefined);
+    const decision = applyDevicePolicy(getDevicePolicy(hospital), mismatch, overridden);
+    if (decision.action === 'ALLOW') return decision.outcome;
+
+    if (decision.action === 'NEEDS_OVERRIDE' && hospital) {
+      setOverridePrompt({ action, hospital, reason: decision.reason });
+      setOverridePin('');
+      setOverrideError('');
+    } else {
+      setStatusMessage({ type: 'error', text: `${ACTION_LABELS[action]} blocked: ${decision.reason}` });
+    }
+    return null;
+  };
+
+  const overrideSubject = (hospital: Hospital): LoginSubject => ({
+    type: 'OVERRIDE', id: hospital.id, label: `${hospital.name} override PIN`, hospitalId: hospital.id
+  });
+
+  const handleOverrideSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!overridePrompt) return;
+    const subject = overrideSubject(overridePrompt.hospital);
+    const status = getAttemptStatus(subject);
+    if (status.blocked) {
+      setOverrideError(describeBlock(status));
+      return;
+    }
+
+    if (!(await verifyOverridePin(getDevicePolicy(overridePrompt.hospital), overridePin))) {
+      const failed = recordFailedAttempt(subject);
+      setOverrideError(failed.blocked ? `Incorrect PIN. ${describeBlock(failed)}` : 'Incorrect PIN');
+      return;
+    }
+    recordSuccessfulAttempt(subject);
+    const { action } = overridePrompt;
+    setOverridePrompt(null);
+    if (action === 'CHECK_IN') handleCheckIn(true);
+    else handleCheckOut(true);
+  };
+
+  const addDeviceNote = (outcome: DeviceCheckOutcome) => {
+    const note = deviceCheckNote(outcome);
+    if (!note) return;
+    setStatusMessage(prev => prev && { type: prev.type === 'success' ? 'warning' : prev.type, text: `${prev.text} ${note}` });
+  };
+
+  // `overridden`: the manager's override PIN was just entered for this attempt
+  const handleCheckIn = async (overridden = false) => {
     if (!selectedHospitalId) return;
     const hospital = hospitals.find(h => h.id === selectedHospitalId);
     if (!hospital) return;
@@ -145,23 +270,16 @@ const StaffDashboard: React.FC<StaffDashboardProps> = ({ user, onLogout }) => {
     setStatusMessage(null);
 
     try {
-      const position = await getCurrentPosition();
-      const userCoords = {
-        latitude: position.coords.latitude,
-        longitude: position.coords.longitude,
-        accuracy: position.coords.accuracy
-      };
+      const device = await enrollThisDevice(user);
+      const deviceCheck = checkDevice(hospital, 'CHECK_IN', overridden);
+      if (!deviceCheck) return;
 
-      const distance = calculateDistance(userCoords, hospital.coords);
-      const isWithinRange = distance <= hospital.radius + 15;
-      const isFlagged = !isWithinRange;
-      const deviceId = getOrCreateDeviceId();
+      const verification = await verifyLocation(getHospitalZones(hospital));
+      const location = verification.match;
+      const distance = location.distanceFromCenter;
+      const isFlagged = isFlaggedVerification(verification.outcome);
+      const deviceId = device.deviceId;
 
-      if (!user.boundDeviceId) {
-        const updatedUser = { ...user, boundDeviceId: deviceId };
-        updateUser(updatedUser);
-      }
-      
       const newRecord: AttendanceRecord = {
         id: crypto.randomUUID(),
         userId: user.id,
@@ -169,27 +287,42 @@ const StaffDashboard: React.FC<StaffDashboardProps> = ({ user, onLogout }) => {
         hospitalId: hospital.id,
         hospitalName: hospital.name,
         checkInTime: new Date().toISOString(),
-        checkInCoords: userCoords,
+        checkInCoords: verification.coords,
         flagged: isFlagged,
+        checkInVerification: verification.outcome,
         distanceFromCenter: distance,
+        zoneName: location.zone?.name,
         checkInDeviceId: deviceId,
+        checkInDeviceCheck: deviceCheck,
+        anomaly: deviceCheck === 'FLAGGED' ? 'DEVICE_MISMATCH' : undefined,
       };
 
-      saveAttendanceRecord(newRecord);
+      await saveAttendanceRecord(newRecord);
       setActiveShift(newRecord);
       loadHistory(); // Refresh history
 
-      if (isFlagged) {
+      if (verification.outcome === 'NO_FIX') {
+        setStatusMessage({
+          type: 'warning',
+          text: `Warning: GPS accuracy was too poor to verify your location (±${Math.round(verification.coords.accuracy || 0)}m). This check-in has been flagged.`
+        });
+      } else if (isFlagged) {
+        setStatusMessage({
+          type: 'warning',
+          text: `Warning: You are ${Math.round(location.distanceOutside)}m outside ${location.nearestZone.name}. This check-in has been flagged.`
+        });
+      } else if (verification.outcome === 'INSIDE_UNCERTAIN') {
         setStatusMessage({
           type: 'warning',
-          text: `Warning: You are ${Math.round(distance)}m away from the hospital. This check-in has been flagged.`
+          text: `Checked in. Your location is probably at ${location.nearestZone.name}, but GPS accuracy was only ±${Math.round(verification.coords.accuracy || 0)}m.`
         });
       } else {
         setStatusMessage({
           type: 'success',
-          text: 'Checked in successfully! Location verified.'
+          text: `Checked in successfully! Location verified (${location.zone?.name}).`
         });
       }
+      addDeviceNote(deviceCheck);
 
     } catch (err: any) {
       setGeoError(err.message || "Could not retrieve location.");
@@ -198,62 +331,60 @@ const StaffDashboard: React.FC<StaffDashboardProps> = ({ user, onLogout }) => {
     }
   };
 
-  const handleCheckOut = async () => {
+  const handleCheckOut = async (overridden = false) => {
     if (!activeShift) return;
+    const hospital = hospitals.find(h => h.id === activeShift.hospitalId);
+
+    setStatusMessage(null);
+    const deviceCheck = checkDevice(hospital, 'CHECK_OUT', overridden);
+    if (!deviceCheck) return;
+    const deviceId = getOrCreateDeviceId();
+    const anomaly = deviceCheck === 'FLAGGED' ? 'DEVICE_MISMATCH' : activeShift.anomaly;
 
     setLoading(true);
     try {
-      const position = await getCurrentPosition();
-      const userCoords = {
-        latitude: position.coords.latitude,
-        longitude: position.coords.longitude,
-        accuracy: position.coords.accuracy
-      };
-      
-      const hospital = hospitals.find(h => h.id === activeShift.hospitalId);
-      let isCheckoutFlagged = false;
-      let dist = 0;
-
-      if (hospital) {
-        dist = calculateDistance(userCoords, hospital.coords);
-        if (dist > hospital.radius + 15) {
-          isCheckoutFlagged = true;
-        }
-      }
+      if (!hospital) throw new Error("Hospital not found on this device.");
+
+      const verification = await verifyLocation(getHospitalZones(hospital));
+      const dist = verification.match.distanceOutside;
+      const checkOutZoneName = verification.match.zone?.name;
+      const isCheckoutFlagged = isFlaggedVerification(verification.outcome);
 
       const checkInTime = new Date(activeShift.checkInTime).getTime();
       const checkOutTime = new Date().getTime();
       const durationMinutes = Math.round((checkOutTime - checkInTime) / 60000);
 
-      const deviceId = getOrCreateDeviceId();
-      let anomaly: 'DEVICE_MISMATCH' | undefined = undefined;
-      if (user.boundDeviceId && deviceId !== user.boundDeviceId) {
-        anomaly = 'DEVICE_MISMATCH';
-      }
-
       const updatedRecord: AttendanceRecord = {
         ...activeShift,
         checkOutTime: new Date().toISOString(),
-        checkOutCoords: userCoords,
+        checkOutCoords: verification.coords,
+        checkOutZoneName,
         durationMinutes,
         flagged: activeShift.flagged || isCheckoutFlagged,
+        checkOutVerification: verification.outcome,
         checkOutDeviceId: deviceId,
+        checkOutDeviceCheck: deviceCheck,
         anomaly: anomaly,
       };
 
-      updateAttendanceRecord(updatedRecord);
+      await updateAttendanceRecord(updatedRecord);
       setActiveShift(undefined);
       loadHistory(); // Refresh history
       
-      if (anomaly) {
+      if (deviceCheck === 'FLAGGED') {
          setStatusMessage({
           type: 'error',
-          text: `Shift ended. CRITICAL: A different device was used for checkout. This has been logged for admin review.`
+          text: `Shift ended. CRITICAL: A different or unapproved device was used for checkout. This has been logged for admin review.`
+        });
+      } else if (verification.outcome === 'NO_FIX') {
+         setStatusMessage({
+          type: 'warning',
+          text: `Shift ended. Warning: GPS accuracy was too poor to verify your location. This has been flagged.`
         });
       } else if (isCheckoutFlagged) {
          setStatusMessage({
           type: 'warning',
-          text: `Shift ended. Warning: You are ${Math.round(dist)}m away. This has been flagged.`
+          text: `Shift ended. Warning: You are ${Math.round(dist)}m outside the hospital zones. This has been flagged.`
         });
       } else {
         setStatusMessage({
@@ -261,6 +392,7 @@ const StaffDashboard: React.FC<StaffDashboardProps> = ({ user, onLogout }) => {
           text: `Shift ended successfully. Duration: ${durationMinutes} minutes.`
         });
       }
+      if (deviceCheck === 'OVERRIDDEN') addDeviceNote(deviceCheck);
 
     } catch (err: any) {
        const checkInTime = new Date(activeShift.checkInTime).getTime();
@@ -270,15 +402,21 @@ const StaffDashboard: React.FC<StaffDashboardProps> = ({ user, onLogout }) => {
        const updatedRecord: AttendanceRecord = {
         ...activeShift,
         checkOutTime: new Date().toISOString(),
-        durationMinutes
+        durationMinutes,
+        flagged: true,
+        checkOutVerification: 'NO_FIX',
+        checkOutDeviceId: deviceId,
+        checkOutDeviceCheck: deviceCheck,
+        anomaly: anomaly
        };
-       updateAttendanceRecord(updatedRecord);
+       await updateAttendanceRecord(updatedRecord);
        setActiveShift(undefined);
        loadHistory();
        setStatusMessage({
         type: 'warning',
         text: `Shift ended without location verification (GPS Error). Duration: ${durationMinutes} mins.`
       });
+      addDeviceNote(deviceCheck);
     } finally {
       setLoading(false);
     }
@@ -290,6 +428,9 @@ const StaffDashboard: React.FC<StaffDashboardProps> = ({ user, onLogout }) => {
       {/* HEADER WITH PROFILE PIC */}
       <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 mb-4 relative overflow-hidden">
         <div className="absolute top-0 left-0 w-full h-20 bg-gradient-to-r from-blue-600 to-blue-400"></div>
+        <div className="absolute top-3 right-3 z-10">
+            <PendingChangesBadge />
+        </div>
         <div className="relative flex flex-col items-center">
             <div className="relative group">
                 <div className="w-24 h-24 rounded-full border-4 border-white shadow-md bg-slate-100 flex items-center justify-center overflow-hidden">
@@ -349,9 +490,13 @@ const StaffDashboard: React.FC<StaffDashboardProps> = ({ user, onLogout }) => {
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
           <div className="bg-white p-6 rounded-xl shadow-xl w-full max-w-sm">
             <h3 className="font-bold text-lg mb-2 text-center">Sync with Manager</h3>
-            <p className="text-sm text-slate-600 mb-4 text-center">Copy this code and send it to your hospital manager to update your attendance on their dashboard.</p>
-            
-            <div className="bg-slate-100 p-3 rounded-lg break-all text-xs font-mono mb-4 max-h-32 overflow-y-auto border border-slate-300">
+            <p className="text-sm text-slate-600 mb-4 text-center">Let your hospital manager scan this QR code, or copy the code and send it to them, to update your attendance on their dashboard.</p>
+
+            <div className="mb-4">
+              <QrCodeSequence frames={exportFrames} />
+            </div>
+
+            <div className="bg-slate-100 p-3 rounded-lg break-all text-xs font-mono mb-4 max-h-20 overflow-y-auto border border-slate-300">
               {exportCode}
             </div>
 
@@ -363,6 +508,59 @@ const StaffDashboard: React.FC<StaffDashboardProps> = ({ user, onLogout }) => {
         </div>
       )}
 
+      {requestingRecord && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <form onSubmit={handleSubmitCorrectionRequest} className="bg-white p-6 rounded-xl shadow-xl w-full max-w-sm space-y-4">
+            <div>
+              <h3 className="font-bold text-lg">Request Correction</h3>
+              <p className="text-sm text-slate-600">Shift on {new Date(requestingRecord.checkInTime).toLocaleDateString()}. Enter the correct times; your manager will review them.</p>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Check In</label>
+              <input type="datetime-local" value={requestCheckIn} onChange={e => setRequestCheckIn(e.target.value)} className="w-full p-2 border rounded text-sm" required />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Check Out</label>
+              <input type="datetime-local" value={requestCheckOut} onChange={e => setRequestCheckOut(e.target.value)} className="w-full p-2 border rounded text-sm" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Note</label>
+              <textarea value={requestNote} onChange={e => setRequestNote(e.target.value)} className="w-full h-20 p-2 border rounded text-sm" placeholder="e.g. I forgot to check out" required />
+            </div>
+            {requestError && <div className="text-red-600 text-sm bg-red-50 p-2 rounded">{requestError}</div>}
+            <div className="flex gap-2">
+              <button type="button" onClick={() => setRequestingRecord(null)} className="flex-1 py-2 bg-slate-200 rounded">Cancel</button>
+              <button type="submit" className="flex-1 py-2 bg-blue-600 text-white rounded hover:bg-blue-700">Submit</button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {overridePrompt && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <form onSubmit={handleOverrideSubmit} className="bg-white p-6 rounded-xl shadow-xl w-full max-w-sm space-y-4">
+            <div>
+              <h3 className="font-bold text-lg">Manager Override</h3>
+              <p className="text-sm text-slate-600">{overridePrompt.reason} Ask your manager to enter the override PIN to allow this {ACTION_LABELS[overridePrompt.action].toLowerCase()}.</p>
+            </div>
+            <input
+              type="password"
+              value={overridePin}
+              onChange={e => setOverridePin(e.target.value)}
+              className="w-full p-2 border rounded text-center tracking-widest"
+              placeholder="Override PIN"
+              autoFocus
+              required
+            />
+            {overrideError && <div className="text-red-600 text-sm bg-red-50 p-2 rounded">{overrideError}</div>}
+            <div className="flex gap-2">
+              <button type="button" onClick={() => setOverridePrompt(null)} className="flex-1 py-2 bg-slate-200 rounded">Cancel</button>
+              <button type="submit" className="flex-1 py-2 bg-blue-600 text-white rounded hover:bg-blue-700">Allow</button>
+            </div>
+          </form>
+        </div>
+      )}
+
       {/* ACTION CARD */}
       <div className="bg-white rounded-xl shadow-lg border border-slate-100 p-6 mb-6">
         {statusMessage && (
@@ -408,11 +606,11 @@ const StaffDashboard: React.FC<StaffDashboardProps> = ({ user, onLogout }) => {
             </div>
 
             <button
-                onClick={handleCheckIn}
+                onClick={() => handleCheckIn()}
                 disabled={!selectedHospitalId || loading}
                 className="w-full bg-green-600 text-white py-4 rounded-xl font-bold hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition flex justify-center items-center gap-2 shadow-lg shadow-green-200"
             >
-                {loading ? 'Verifying Location...' : (
+                {loading ? 'Taking GPS Readings...' : (
                 <>
                     <MapPin className="w-5 h-5" /> CHECK IN NOW
                 </>
@@ -437,10 +635,11 @@ const StaffDashboard: React.FC<StaffDashboardProps> = ({ user, onLogout }) => {
             
             <div className="text-sm text-slate-500">
                 Location verified at <span className="font-semibold text-slate-700">{activeShift.hospitalName}</span>
+                {activeShift.zoneName && <span> ({activeShift.zoneName})</span>}
             </div>
 
             <button
-                onClick={handleCheckOut}
+                onClick={() => handleCheckOut()}
                 disabled={loading}
                 className="w-full bg-red-50 text-red-600 border border-red-200 py-3 rounded-xl font-bold hover:bg-red-100 disabled:opacity-50 transition flex justify-center items-center gap-2"
             >
@@ -466,8 +665,15 @@ const StaffDashboard: React.FC<StaffDashboardProps> = ({ user, onLogout }) => {
             )}
             {history.map(record => {
                 const checkInDate = new Date(record.checkInTime);
-                const isLate = checkInDate.getHours() > 8 || (checkInDate.getHours() === 8 && checkInDate.getMinutes() > 5);
-                const isEarlyLeave = record.checkOutTime ? new Date(record.checkOutTime).getHours() < 17 : false;
+                const evaluation = evaluateRecord(record, hospitals.find(h => h.id === record.hospitalId));
+                const isLate = evaluation.isLate;
+                const isEarlyLeave = evaluation.isEarlyLeave;
+                const verificationIssue = [record.checkInVerification, record.checkOutVerification].find(v => v && v !== 'VERIFIED');
+                const overriddenCheck = [record.checkInDeviceCheck, record.checkOutDeviceCheck].find(c => c === 'OVERRIDDEN');
+                const reviewStatus = getReviewStatus(record);
+                const latestRequest = correctionRequests
+                    .filter(c => c.recordId === record.id)
+                    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
 
                 return (
                     <div key={record.id} className="p-4 flex justify-between items-center hover:bg-slate-50">
@@ -478,10 +684,29 @@ const StaffDashboard: React.FC<StaffDashboardProps> = ({ user, onLogout }) => {
                                 {record.checkOutTime && ` - ${new Date(record.checkOutTime).toLocaleTimeString([], {hour:'2-digit', minute:'2-digit'})}`}
                             </div>
                             <div className="flex gap-1 mt-1">
+                                {evaluation.occurrence && <span className="text-[10px] bg-slate-100 text-slate-600 px-1.5 py-0.5 rounded font-medium">{evaluation.occurrence.shift.name}</span>}
                                 {isLate && <span className="text-[10px] bg-red-100 text-red-700 px-1.5 py-0.5 rounded font-medium">Late</span>}
                                 {isEarlyLeave && <span className="text-[10px] bg-amber-100 text-amber-700 px-1.5 py-0.5 rounded font-medium">Left Early</span>}
                                 {!isLate && !isEarlyLeave && record.checkOutTime && <span className="text-[10px] bg-green-100 text-green-700 px-1.5 py-0.5 rounded font-medium">On Time</span>}
+                                {reviewStatus && reviewStatus !== 'PENDING' && <span className={`text-[10px] px-1.5 py-0.5 rounded font-medium ${reviewStatus === 'APPROVED' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>{REVIEW_LABELS[reviewStatus]}</span>}
+                                {record.checkOutStatus === 'AUTO_CLOSED' && <span className="text-[10px] bg-orange-100 text-orange-700 px-1.5 py-0.5 rounded font-medium" title={AUTO_CLOSE_RULE_LABELS[record.autoCloseRule || 'MAX_LENGTH']}>Auto-closed</span>}
+                                {record.correction && <span className="text-[10px] bg-blue-100 text-blue-700 px-1.5 py-0.5 rounded font-medium" title={record.correction.reason}>Corrected</span>}
+                                {overriddenCheck && <span className="text-[10px] bg-purple-100 text-purple-700 px-1.5 py-0.5 rounded font-medium">{DEVICE_CHECK_LABELS[overriddenCheck]}</span>}
+                                {verificationIssue && <span className={`text-[10px] px-1.5 py-0.5 rounded font-medium ${isFlaggedVerification(verificationIssue) ? 'bg-red-100 text-red-700' : 'bg-slate-100 text-slate-600'}`}>{VERIFICATION_LABELS[verificationIssue]}</span>}
                             </div>
+                            {latestRequest ? (
+                                <div className={`text-[10px] mt-1 ${latestRequest.status === 'PENDING' ? 'text-amber-600' : latestRequest.status === 'APPROVED' ? 'text-green-600' : 'text-red-600'}`}>
+                                    {CORRECTION_REQUEST_LABELS[latestRequest.status]}
+                                    {latestRequest.resolutionNote && `: ${latestRequest.resolutionNote}`}
+                                    {latestRequest.status !== 'PENDING' && (
+                                        <button onClick={() => openCorrectionRequest(record)} className="ml-2 text-blue-500 hover:underline">Request again</button>
+                                    )}
+                                </div>
+                            ) : (
+                                <button onClick={() => openCorrectionRequest(record)} className="text-[10px] mt-1 text-blue-500 hover:underline flex items-center gap-1">
+                                    <Edit2 className="w-3 h-3" /> Request correction
+                                </button>
+                            )}
                         </div>
                         <div className="text-right">
                             {record.checkOutTime ? (
@@ -0,0 +1,183 @@
+import { Anomaly, AnomalySeverity, AnomalyType, AttendanceRecord, Coords, Hospital, RosterAssignment } from '../types';
+import { calculateDistance } from './geoUtils';
+import { getHospitalShifts, getShiftOccurrence, isWithinShiftWindow } from './shiftUtils';
+import { parseRosterDate, toRosterDate } from './rosterUtils';
+
+// Rules run over a hospital's records whenever they are reviewed or reported on, so they can compare
+// shifts across staff and devices. Only DEVICE_MISMATCH is stored on the record, by the device policy.
+
+export const ANOMALY_RULES: Record<AnomalyType, { label: string; severity: AnomalySeverity }> = {
+  DEVICE_MISMATCH: { label: 'Device mismatch', severity: 'HIGH' },
+  IMPOSSIBLE_TRAVEL: { label: 'Impossible travel', severity: 'HIGH' },
+  SHARED_DEVICE: { label: 'Shared device', severity: 'HIGH' },
+  REUSED_COORDINATES: { label: 'Reused coordinates', severity: 'MEDIUM' },
+  LONG_SHIFT: { label: 'Implausibly long shift', severity: 'MEDIUM' },
+  SHORT_SHIFT: { label: 'Implausibly short shift', severity: 'LOW' },
+  OFF_ROSTER: { label: 'Not rostered', severity: 'LOW' },
+};
+
+export const SEVERITY_LABELS: Record<AnomalySeverity, string> = {
+  HIGH: 'High',
+  MEDIUM: 'Medium',
+  LOW: 'Low',
+};
+
+const SEVERITY_ORDER: AnomalySeverity[] = ['HIGH', 'MEDIUM', 'LOW'];
+
+// Faster than any ground transport between two fixes
+const MAX_TRAVEL_KMH = 200;
+// Shorter hops are GPS noise or moving between zones
+const MIN_TRAVEL_METERS = 1000;
+// Another staff member checking in on the same device this close in time suggests buddy punching
+const SHARED_DEVICE_WINDOW_MINUTES = 15;
+const MIN_SHIFT_MINUTES = 15;
+const MAX_SHIFT_HOURS = 16;
+
+interface RuleContext {
+  hospital: Hospital;
+  byUser: Map<string, AttendanceRecord[]>; // Sorted by check-in
+  byDevice: Map<string, AttendanceRecord[]>; // By check-in device
+  coordinateUses: Map<string, Set<string>>; // Exact coordinates -> ids of the records they appear on
+  assignments: RosterAssignment[];
+  rosterDates: Set<string>; // Days the roster was planned for
+}
+
+// Returns what the rule found, or null when the record passes
+type AnomalyRule = (record: AttendanceRecord, context: RuleContext) => string | null;
+
+const minutesBetween = (from: string, to: string) => (new Date(to).getTime() - new Date(from).getTime()) / 60000;
+
+const groupBy = (records: AttendanceRecord[], key: (r: AttendanceRecord) => string | undefined) => {
+  const groups = new Map<string, AttendanceRecord[]>();
+  records.forEach(r => {
+    const value = key(r);
+    if (!value) return;
+    const group = groups.get(value);
+    if (group) group.push(r);
+    else groups.set(value, [r]);
+  });
+  return groups;
+};
+
+// Real fixes differ in the last decimals; a mocked location tends to repeat exactly. (0, 0) is a missing fix.
+const coordinateKey = (coords?: Coords) => coords && (coords.latitude || coords.longitude)
+  ? `${coords.latitude},${coords.longitude}`
+  : undefined;
+
+const describeTravel = (from: Coords, fromTime: string, to: Coords, toTime: string): string | null => {
+  const meters = calculateDistance(from, to);
+  if (meters < MIN_TRAVEL_METERS + (from.accuracy || 0) + (to.accuracy || 0)) return null;
+  const hours = Math.max(minutesBetween(fromTime, toTime), 1) / 60;
+  const speed = meters / 1000 / hours;
+  return speed > MAX_TRAVEL_KMH ? `${(meters / 1000).toFixed(1)} km at ${Math.round(speed)} km/h` : null;
+};
+
+const RULES: Record<AnomalyType, AnomalyRule> = {
+  DEVICE_MISMATCH: record => record.anomaly === 'DEVICE_MISMATCH' ? 'Different or unapproved device used' : null,
+
+  IMPOSSIBLE_TRAVEL: (record, { byUser }) => {
+    if (record.checkOutCoords && record.checkOutTime) {
+      const travel = describeTravel(record.checkInCoords, record.checkInTime, record.checkOutCoords, record.checkOutTime);
+      if (travel) return `${travel} between check-in and check-out`;
+    }
+    const shifts = byUser.get(record.userId) || [];
+    const previous = shifts[shifts.indexOf(record) - 1];
+    if (previous?.checkOutCoords && previous.checkOutTime) {
+      const travel = describeTravel(previous.checkOutCoords, previous.checkOutTime, record.checkInCoords, record.checkInTime);
+      if (travel) return `${travel} since the previous check-out`;
+    }
+    return null;
+  },
+
+  SHARED_DEVICE: (record, { byDevice }) => {
+    if (!record.checkInDeviceId) return null;
+    const other = (byDevice.get(record.checkInDeviceId) || []).find(r =>
+      r.userId !== record.userId && Math.abs(minutesBetween(r.checkInTime, record.checkInTime)) <= SHARED_DEVICE_WINDOW_MINUTES
+    );
+    if (!other) return null;
+    const minutes = Math.round(minutesBetween(other.checkInTime, record.checkInTime));
+    return `Same device checked in ${other.userName} ${Math.abs(minutes)} min ${minutes >= 0 ? 'earlier' : 'later'}`;
+  },
+
+  REUSED_COORDINATES: (record, { coordinateUses }) => {
+    const otherShifts = new Set<string>();
+    [record.checkInCoords, record.checkOutCoords].forEach(coords => {
+      const key = coordinateKey(coords);
+      if (key) coordinateUses.get(key)?.forEach(id => id !== record.id && otherShifts.add(id));
+    });
+    if (otherShifts.size === 0) return null;
+    return `Exact coordinates also recorded on ${otherShifts.size} other shift${otherShifts.size === 1 ? '' : 's'}`;
+  },
+
+  // Auto-closed shifts have a capped duration and are reviewed anyway
+  LONG_SHIFT: record => record.durationMinutes !== undefined && record.checkOutStatus !== 'AUTO_CLOSED' && record.durationMinutes > MAX_SHIFT_HOURS * 60
+    ? `${(record.durationMinutes / 60).toFixed(1)} hours`
+    : null,
+
+  SHORT_SHIFT: record => record.durationMinutes !== undefined && record.checkOutStatus !== 'AUTO_CLOSED' && record.durationMinutes < MIN_SHIFT_MINUTES
+    ? `${record.durationMinutes} min`
+    : null,
+
+  // Only on days the roster covers, so hospitals that don't roster are not flagged
+  OFF_ROSTER: (record, { hospital, assignments, rosterDates }) => {
+    const checkIn = new Date(record.checkInTime);
+    const dayBefore = new Date(checkIn);
+    dayBefore.setDate(dayBefore.getDate() - 1);
+    if (!rosterDates.has(toRosterDate(checkIn)) && !rosterDates.has(toRosterDate(dayBefore))) return null;
+
+    const shifts = getHospitalShifts(hospital);
+    const rostered = assignments.some(a => {
+      const shift = a.userId === record.userId && shifts.find(s => s.id === a.shiftId);
+      return !!shift && isWithinShiftWindow(checkIn, getShiftOccurrence(shift, parseRosterDate(a.date)));
+    });
+    return rostered ? null : 'Checked in outside any rostered shift';
+  },
+};
+
+// Anomalies found on each of `records`, keyed by record id; records without any are left out.
+// `history` should hold all of the hospital's records so shifts outside a report's range still count.
+export const detectAnomalies = (
+  records: AttendanceRecord[],
+  hospital: Hospital,
+  assignments: RosterAssignment[],
+  history: AttendanceRecord[] = records
+): Map<string, Anomaly[]> => {
+  const hospitalRecords = history.filter(r => r.hospitalId === hospital.id)
+    .sort((a, b) => a.checkInTime.localeCompare(b.checkInTime));
+  const hospitalAssignments = assignments.filter(a => a.hospitalId === hospital.id);
+
+  const coordinateUses = new Map<string, Set<string>>();
+  hospitalRecords.forEach(r => [r.checkInCoords, r.checkOutCoords].forEach(coords => {
+    const key = coordinateKey(coords);
+    if (key) coordinateUses.set(key, (coordinateUses.get(key) || new Set()).add(r.id));
+  }));
+
+  const context: RuleContext = {
+    hospital,
+    byUser: groupBy(hospitalRecords, r => r.userId),
+    byDevice: groupBy(hospitalRecords, r => r.checkInDeviceId),
+    coordinateUses,
+    assignments: hospitalAssignments,
+    rosterDates: new Set(hospitalAssignments.map(a => a.date)),
+  };
+
+  // Rules look records up by identity in the sorted history
+  const byId = new Map(hospitalRecords.map(r => [r.id, r]));
+  const result = new Map<string, Anomaly[]>();
+  records.forEach(record => {
+    const subject = byId.get(record.id) || record;
+    const found: Anomaly[] = [];
+    (Object.keys(RULES) as AnomalyType[]).forEach(type => {
+      const detail = RULES[type](subject, context);
+      if (detail) found.push({ type, severity: ANOMALY_RULES[type].severity, detail });
+    });
+    if (found.length > 0) {
+      result.set(record.id, found.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)));
+    }
+  });
+  return result;
+};
+
+export const describeAnomaly = (anomaly: Anomaly): string => {
+  return `${ANOMALY_RULES[anomaly.type].label}: ${anomaly.detail}`;
+};
@@ -0,0 +1,101 @@
+import { Anomaly, AttendanceRecord, ReviewStatus, CorrectionRequest, CorrectionRequestStatus } from '../types';
+
+export const REVIEW_LABELS: Record<ReviewStatus, string> = {
+  PENDING: 'Pending Review',
+  APPROVED: 'Approved',
+  REJECTED: 'Rejected',
+};
+
+export const CORRECTION_REQUEST_LABELS: Record<CorrectionRequestStatus, string> = {
+  PENDING: 'Correction Requested',
+  APPROVED: 'Correction Approved',
+  DECLINED: 'Correction Declined',
+};
+
+// <input type="datetime-local"> works in local time without a zone suffix
+export const toDateTimeInputValue = (iso?: string): string => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+export const fromDateTimeInputValue = (value: string): string | undefined => {
+  return value ? new Date(value).toISOString() : undefined;
+};
+
+// Location flags, device mismatches, auto-closed shifts and medium or high severity anomalies
+// (from detectAnomalies) must be signed off by a manager
+export const requiresReview = (record: AttendanceRecord, anomalies: Anomaly[] = []): boolean => {
+  return record.flagged || !!record.anomaly || record.checkOutStatus === 'AUTO_CLOSED' || anomalies.some(a => a.severity !== 'LOW');
+};
+
+export const getReviewStatus = (record: AttendanceRecord, anomalies: Anomaly[] = []): ReviewStatus | undefined => {
+  if (record.reviewStatus) return record.reviewStatus;
+  return requiresReview(record, anomalies) ? 'PENDING' : undefined;
+};
+
+export const calculateDurationMinutes = (checkInTime: string, checkOutTime?: string): number | undefined => {
+  if (!checkOutTime) return undefined;
+  return Math.round((new Date(checkOutTime).getTime() - new Date(checkInTime).getTime()) / 60000);
+};
+
+export const applyCorrection = (
+  record: AttendanceRecord,
+  times: { checkInTime: string, checkOutTime?: string },
+  reason: string,
+  correctedBy: string
+): AttendanceRecord => {
+  // The times the device recorded come from the first correction; later ones replace the
+  // corrected times, duration and reason but keep those originals
+  const original = record.correction || {
+    originalCheckInTime: record.checkInTime,
+    originalCheckOutTime: record.checkOutTime,
+    originalDurationMinutes: record.durationMinutes,
+  };
+
+  return {
+    ...record,
+    checkInTime: times.checkInTime,
+    checkOutTime: times.checkOutTime,
+    durationMinutes: calculateDurationMinutes(times.checkInTime, times.checkOutTime),
+    correction: {
+      originalCheckInTime: original.originalCheckInTime,
+      originalCheckOutTime: original.originalCheckOutTime,
+      originalDurationMinutes: original.originalDurationMinutes,
+      reason,
+      correctedBy,
+      correctedAt: new Date().toISOString(),
+    },
+  };
+};
+
+export const applyReview = (
+  record: AttendanceRecord,
+  status: 'APPROVED' | 'REJECTED',
+  note: string,
+  reviewedBy: string
+): AttendanceRecord => ({
+  ...record,
+  reviewStatus: status,
+  reviewNote: note || undefined,
+  reviewedBy,
+  reviewedAt: new Date().toISOString(),
+});
+
+export const resolveCorrectionRequest = (
+  request: CorrectionRequest,
+  status: 'APPROVED' | 'DECLINED',
+  note: string,
+  resolvedBy: string
+): CorrectionRequest => {
+  const now = new Date().toISOString();
+  return {
+    ...request,
+    status,
+    resolutionNote: note || undefined,
+    resolvedBy,
+    resolvedAt: now,
+    updatedAt: now,
+  };
+};
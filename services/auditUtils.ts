@@ -0,0 +1,37 @@
+import { AuditChange } from '../types';
+
+// Fields whose values must never be written to the audit trail
+const REDACTED_FIELDS = ['password', 'logViewPassword', 'pin'];
+// Large blobs are summarised rather than copied
+const SUMMARISED_FIELDS = ['profilePicture'];
+// Sync bookkeeping changes on every write and is not a meaningful change
+const IGNORED_FIELDS = ['updatedAt'];
+
+const auditValue = (field: string, value: unknown): unknown => {
+  if (value === undefined || value === null) return value;
+  if (REDACTED_FIELDS.includes(field)) return '[redacted]';
+  if (SUMMARISED_FIELDS.includes(field)) return '[image]';
+  return value;
+};
+
+// Shallow field-by-field diff; nested objects are compared by value
+export const diffEntities = (before?: object | null, after?: object | null): AuditChange[] => {
+  const prev = (before || {}) as Record<string, unknown>;
+  const next = (after || {}) as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(prev), ...Object.keys(next)]));
+
+  return fields
+    .filter(field => !IGNORED_FIELDS.includes(field))
+    .filter(field => JSON.stringify(prev[field]) !== JSON.stringify(next[field]))
+    .map(field => ({
+      field,
+      before: auditValue(field, prev[field]),
+      after: auditValue(field, next[field]),
+    }));
+};
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
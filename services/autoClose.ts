@@ -0,0 +1,62 @@
+import { AttendanceRecord, AutoClosePolicy, AutoCloseRule, Hospital } from '../types';
+import { getHospitalShifts, matchShift } from './shiftUtils';
+
+export const DEFAULT_AUTO_CLOSE_POLICY: AutoClosePolicy = {
+  enabled: true,
+  maxShiftHours: 16,
+  closeAtShiftEnd: false,
+  shiftEndBufferMinutes: 60,
+};
+
+export const AUTO_CLOSE_RULE_LABELS: Record<AutoCloseRule, string> = {
+  MAX_LENGTH: 'Max shift length reached',
+  SHIFT_END: 'Scheduled shift end',
+};
+
+export const getAutoClosePolicy = (hospital?: Hospital): AutoClosePolicy => {
+  return { ...DEFAULT_AUTO_CLOSE_POLICY, ...hospital?.autoClosePolicy };
+};
+
+export interface AutoCloseDecision {
+  closeAt: Date; // Check-out time written to the record
+  rule: AutoCloseRule;
+}
+
+// Returns when an open record should be closed, or undefined if it may stay open at `now`.
+// The earliest applicable rule wins so the recorded duration is capped as tightly as possible.
+export const getAutoCloseDecision = (
+  record: AttendanceRecord,
+  hospital: Hospital | undefined,
+  now: Date = new Date()
+): AutoCloseDecision | undefined => {
+  if (record.checkOutTime) return undefined;
+  const policy = getAutoClosePolicy(hospital);
+  if (!policy.enabled) return undefined;
+
+  const checkIn = new Date(record.checkInTime);
+  const candidates: { closeAt: Date, dueAt: Date, rule: AutoCloseRule }[] = [];
+
+  const maxEnd = new Date(checkIn.getTime() + policy.maxShiftHours * 3600000);
+  candidates.push({ closeAt: maxEnd, dueAt: maxEnd, rule: 'MAX_LENGTH' });
+
+  if (policy.closeAtShiftEnd) {
+    const occurrence = matchShift(checkIn, getHospitalShifts(hospital));
+    if (occurrence && occurrence.end > checkIn) {
+      const dueAt = new Date(occurrence.end.getTime() + policy.shiftEndBufferMinutes * 60000);
+      candidates.push({ closeAt: occurrence.end, dueAt, rule: 'SHIFT_END' });
+    }
+  }
+
+  const due = candidates
+    .filter(c => now >= c.dueAt)
+    .sort((a, b) => a.closeAt.getTime() - b.closeAt.getTime())[0];
+  return due ? { closeAt: due.closeAt, rule: due.rule } : undefined;
+};
+
+export const applyAutoClose = (record: AttendanceRecord, decision: AutoCloseDecision): AttendanceRecord => ({
+  ...record,
+  checkOutTime: decision.closeAt.toISOString(),
+  durationMinutes: Math.round((decision.closeAt.getTime() - new Date(record.checkInTime).getTime()) / 60000),
+  checkOutStatus: 'AUTO_CLOSED',
+  autoCloseRule: decision.rule,
+});
@@ -0,0 +1,138 @@
+import { User } from '../types';
+import { getCloudBackend, isSyncEnabled } from './cloudBackend';
+import { mapUserToDb } from './dbMappers';
+import { CloudSession, CloudSessionRole, getCloudSession, setCloudSession } from './session';
+import { runSync } from './syncEngine';
+
+// Cloud sessions for row-level security. A hospital or admin sign-in opens the base session;
+// a staff member signing in on the hospital's device stacks a STAFF session on top until they
+// sign out. Sessions are kept per login so an offline sign-in can reuse one until it expires.
+
+const SESSIONS_KEY = 'mediguard_cloud_sessions';
+
+let baseSession: CloudSession | null = null;
+// Bumped on sign-out so a sign-in still in flight cannot reopen a session afterwards
+let generation = 0;
+
+const sessionKey = (role: CloudSessionRole, login: string) => `${role}:${login}`;
+
+const getStoredSessions = (): Record<string, CloudSession> => {
+  const data = localStorage.getItem(SESSIONS_KEY);
+  return data ? JSON.parse(data) : {};
+};
+
+const saveStoredSessions = (sessions: Record<string, CloudSession>) => {
+  localStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+};
+
+const isExpired = (session: CloudSession) => new Date(session.expiresAt).getTime() <= Date.now();
+
+const requestSession = async (role: CloudSessionRole, login: string, secret: string): Promise<CloudSession | null> => {
+  const key = sessionKey(role, login);
+  if (!navigator.onLine) {
+    const stored = getStoredSessions()[key];
+    return stored && !isExpired(stored) ? stored : null;
+  }
+
+  try {
+    const session = await getCloudBackend().startSession(role, login, secret);
+
+    const sessions = getStoredSessions();
+    if (session) sessions[key] = session;
+    else delete sessions[key];
+    saveStoredSessions(sessions);
+    return session;
+  } catch (err) {
+    console.error("Cloud sign-in failed:", err);
+    return null;
+  }
+};
+
+const endSession = (session: CloudSession) => {
+  const sessions = getStoredSessions();
+  Object.keys(sessions).filter(key => sessions[key].token === session.token).forEach(key => delete sessions[key]);
+  saveStoredSessions(sessions);
+
+  if (!navigator.onLine) return;
+  getCloudBackend().endSession(session.token).catch(err => console.error("Failed to end cloud session:", err));
+};
+
+// Call after the secret was verified locally (or to look up an account this device lacks).
+// Resolves to null in local mode, or when the cloud rejects the credentials.
+export const openCloudSession = async (role: CloudSessionRole, login: string, secret: string): Promise<CloudSession | null> => {
+  if (!isSyncEnabled()) return null;
+  const started = generation;
+  const session = await requestSession(role, login, secret);
+  if (!session || started !== generation) return null;
+
+  if (role !== 'STAFF') baseSession = session;
+  setCloudSession(session);
+  return session;
+};
+
+// Staff sign-out: back to the hospital's session
+export const closeStaffCloudSession = () => {
+  generation++;
+  const active = getCloudSession();
+  if (active?.role !== 'STAFF') return;
+  endSession(active);
+  setCloudSession(baseSession);
+};
+
+export const closeCloudSessions = () => {
+  generation++;
+  const active = getCloudSession();
+  if (active && active !== baseSession) endSession(active);
+  if (baseSession) endSession(baseSession);
+  baseSession = null;
+  setCloudSession(null);
+};
+
+// Local check first. Accounts this device has not seen yet are checked against the cloud,
+// and their data is synced down before checking locally again.
+export const signInWithCloud = async <T>(
+  role: 'ADMIN' | 'HOSPITAL',
+  login: string,
+  secret: string,
+  signInLocally: () => Promise<T | null>
+): Promise<T | null> => {
+  const local = await signInLocally();
+  if (local) {
+    openCloudSession(role, login, secret).then(session => {
+      if (session) runSync();
+    });
+    return local;
+  }
+
+  if (!isSyncEnabled() || !navigator.onLine) return null;
+  if (!(await openCloudSession(role, login, secret))) return null;
+  await runSync();
+  const synced = await signInLocally();
+  if (!synced) closeCloudSessions();
+  return synced;
+};
+
+// False in local mode, so a new device can be set up on its own. Null when sync is enabled but
+// the cloud cannot be reached: setting up here could create a second administrator.
+export const isCloudInitialized = async (): Promise<boolean | null> => {
+  if (!isSyncEnabled()) return false;
+  if (!navigator.onLine) return null;
+  try {
+    return await getCloudBackend().isInitialized();
+  } catch (err) {
+    console.error("Failed to check the cloud for existing accounts:", err);
+    return null;
+  }
+};
+
+// The first administrator has to exist in the cloud before anyone can open a session
+export const registerFirstAdmin = async (admin: User, password: string): Promise<void> => {
+  if (!isSyncEnabled() || !navigator.onLine) return;
+  try {
+    await getCloudBackend().registerFirstAdmin(mapUserToDb(admin));
+  } catch (err) {
+    console.error("Failed to register the administrator in the cloud:", err);
+    return;
+  }
+  if (await openCloudSession('ADMIN', admin.username || '', password)) runSync();
+};
@@ -0,0 +1,101 @@
+import { supabase } from './supabaseClient';
+import { createSupabaseBackend } from './supabaseBackend';
+import { createMemoryBackend } from './memoryBackend';
+import { createRestBackend } from './restBackend';
+import type { SchemaMigration } from './schemaMigrations';
+import type { CloudSession, CloudSessionRole } from './session';
+
+export type BackendKind = 'supabase' | 'local' | 'memory' | 'rest';
+
+export type Row = Record<string, any>;
+
+// Limits a query to rows whose `column` equals `value`
+export interface RowFilter {
+  column: string;
+  value: string;
+}
+
+// Limits a query to recent rows: `column` >= `since`, plus any row whose `orNullColumn` is empty
+export interface RowWindow {
+  column: string;
+  since: string;
+  orNullColumn?: string;
+}
+
+// Everything the sync engine needs from a cloud store. Rows use the database column names
+// (see dbMappers.ts). Every method rejects with an Error when the call fails.
+export interface CloudBackend {
+  kind: BackendKind;
+  selectByIds: (table: string, ids: string[]) => Promise<Row[]>;
+  // Reads return every matching row, over as many requests as needed, or reject; never part of
+  // them. Sync deletes local records missing from selectIds and moves its cursor past what it read.
+  selectIds: (table: string, filter?: RowFilter) => Promise<string[]>;
+  // Rows whose `column` is >= `since`; all rows when `since` is omitted
+  selectChangedSince: (table: string, column: string, since?: string, filter?: RowFilter, window?: RowWindow) => Promise<Row[]>;
+  // Newest first
+  selectLatest: (table: string, orderColumn: string, limit: number, filter?: RowFilter) => Promise<Row[]>;
+  upsert: (table: string, row: Row) => Promise<void>;
+  // Inserts rows whose id is not stored yet; existing rows are left untouched
+  insertMissing: (table: string, rows: Row[]) => Promise<void>;
+  remove: (table: string, id: string) => Promise<void>;
+  // Highest migration recorded in schema_version; 0 when the table does not exist yet
+  getSchemaVersion: () => Promise<number>;
+  // Only for backends that can change their own schema. Supabase migrations need the SQL Editor,
+  // since the anon key cannot run DDL.
+  applyMigrations?: (migrations: SchemaMigration[]) => Promise<void>;
+
+  // --- Sessions (see cloudAuth.ts) ---
+  // Hospitals log in by username, admins by username (any case), staff by user id.
+  // The password or PIN is checked against the stored hash by the backend, never by the client.
+  // Null when it does not match; rejects while the login is locked after repeated failures.
+  startSession: (role: CloudSessionRole, login: string, secret: string) => Promise<CloudSession | null>;
+  endSession: (token: string) => Promise<void>;
+  // Whether the cloud has any administrator or hospital yet; answered without a session
+  isInitialized: () => Promise<boolean>;
+  // The only write allowed without a session. False when an administrator already exists.
+  registerFirstAdmin: (admin: Row) => Promise<boolean>;
+  // Public keys trusted to sign the hospital's config links (see configLinks.ts); no session needed
+  getConfigSigningKeys: (hospitalId: string) => Promise<string[]>;
+}
+
+// No cloud at all: data stays on this device and sync is skipped
+export const createLocalBackend = (): CloudBackend => {
+  const unavailable = () => Promise.reject(new Error('No cloud backend - running in local mode'));
+  return {
+    kind: 'local',
+    selectByIds: unavailable,
+    selectIds: unavailable,
+    selectChangedSince: unavailable,
+    selectLatest: unavailable,
+    upsert: unavailable,
+    insertMissing: unavailable,
+    remove: unavailable,
+    getSchemaVersion: unavailable,
+    startSession: unavailable,
+    endSession: unavailable,
+    isInitialized: unavailable,
+    registerFirstAdmin: unavailable,
+    getConfigSigningKeys: unavailable,
+  };
+};
+
+// SYNC_BACKEND picks a stand-in for development; otherwise Supabase when configured
+const createDefaultBackend = (): CloudBackend => {
+  switch (process.env.SYNC_BACKEND) {
+    case 'local': return createLocalBackend();
+    case 'memory': return createMemoryBackend();
+    case 'rest': return createRestBackend(process.env.MOCK_API_URL || '/mock-api');
+    default: return supabase ? createSupabaseBackend(supabase) : createLocalBackend();
+  }
+};
+
+let backend = createDefaultBackend();
+
+export const getCloudBackend = (): CloudBackend => backend;
+
+// Swaps the backend at runtime, e.g. to a shared memory backend when simulating several devices
+export const setCloudBackend = (next: CloudBackend) => {
+  backend = next;
+};
+
+export const isSyncEnabled = (): boolean => backend.kind !== 'local';
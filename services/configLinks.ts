@@ -0,0 +1,271 @@
+import { Hospital, User, Device } from '../types';
+import { getHospitals, getStaffByHospital, getDevicesByHospital, updateHospital, applyHospitalConfig } from './storage';
+import { cloudSecret } from './dbMappers';
+import { getCloudBackend, isSyncEnabled } from './cloudBackend';
+
+// Config links enroll staff devices. The token is signed by the issuing device's key for the
+// hospital, expires, and carries only what a device needs to run the hospital portal. It can
+// also be encrypted with a passphrase shared separately.
+// Formats (base64url parts): v1.<payload>.<signature>  or  v1e.<salt>.<iv>.<encrypted v1 token>
+
+const SIGNED_VERSION = 'v1';
+const ENCRYPTED_VERSION = 'v1e';
+const SIGNING_KEYS_KEY = 'mediguard_config_signing_keys';
+const IMPORT_LOG_KEY = 'mediguard_config_import_log';
+export const CONFIG_LINK_PARAM = 'config';
+
+const SIGNING_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGNATURE_ALGORITHM = { name: 'ECDSA', hash: 'SHA-256' };
+const PASSPHRASE_ITERATIONS = 100000;
+const HOUR_MS = 60 * 60 * 1000;
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+const MAX_REMEMBERED_LINKS = 200;
+
+// Hospital settings a device needs. The login hash is only included without a cloud
+// backend: with one, it doubles as the cloud credential, and devices sign in online instead.
+type ConfigHospital = Pick<Hospital, 'id' | 'name' | 'username' | 'coords' | 'radius' | 'zones' | 'shifts' | 'autoClosePolicy' | 'devicePolicy' | 'configSigningKeys' | 'updatedAt'> & {
+  password?: string;
+};
+
+type ConfigStaff = Pick<User, 'id' | 'name' | 'pin' | 'boundDeviceId' | 'updatedAt'>;
+
+interface ConfigPayload {
+  id: string; // Unique per link; each device accepts a link once
+  issuedAt: number; // ms since epoch
+  expiresAt: number;
+  signingKey: string; // base64url SPKI public key
+  hospital: ConfigHospital;
+  staff: ConfigStaff[];
+  devices?: Device[]; // Enrollment decisions, for devices that do not sync with the cloud
+}
+
+export interface ConfigLinkOptions {
+  expiresInHours: number;
+  passphrase?: string;
+}
+
+export interface ConfigImportResult {
+  success: boolean;
+  message: string;
+  hospitalName?: string;
+}
+
+interface StoredSigningKey {
+  publicKey: string;
+  privateKey: JsonWebKey;
+}
+
+// Links already applied on this device, and the newest link time per hospital
+interface ImportLog {
+  linkIds: string[];
+  issuedAt: Record<string, number>;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - base64.length % 4) % 4);
+  return Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+};
+
+// --- Signing Keys ---
+// One key pair per hospital per issuing device; the private half never leaves the device
+const getSigningKey = async (hospitalId: string): Promise<{ publicKey: string; privateKey: CryptoKey }> => {
+  const data = localStorage.getItem(SIGNING_KEYS_KEY);
+  const keys: Record<string, StoredSigningKey> = data ? JSON.parse(data) : {};
+
+  if (!keys[hospitalId]) {
+    const pair = await crypto.subtle.generateKey(SIGNING_ALGORITHM, true, ['sign', 'verify']) as CryptoKeyPair;
+    keys[hospitalId] = {
+      publicKey: toBase64Url(new Uint8Array(await crypto.subtle.exportKey('spki', pair.publicKey))),
+      privateKey: await crypto.subtle.exportKey('jwk', pair.privateKey)
+    };
+    localStorage.setItem(SIGNING_KEYS_KEY, JSON.stringify(keys));
+  }
+
+  const stored = keys[hospitalId];
+  const privateKey = await crypto.subtle.importKey('jwk', stored.privateKey, SIGNING_ALGORITHM, false, ['sign']);
+  return { publicKey: stored.publicKey, privateKey };
+};
+
+// Keys listed on the local hospital record plus, when reachable, the cloud's list.
+// Null when neither source knows the hospital's keys.
+const getTrustedKeys = async (hospitalId: string): Promise<string[] | null> => {
+  const keys = [...(getHospitals().find(h => h.id === hospitalId)?.configSigningKeys || [])];
+  if (isSyncEnabled() && navigator.onLine) {
+    try {
+      keys.push(...await getCloudBackend().getConfigSigningKeys(hospitalId));
+    } catch (err) {
+      console.error("Failed to fetch config link keys:", err);
+    }
+  }
+  return keys.length > 0 ? keys : null;
+};
+
+// --- Passphrase Encryption ---
+const derivePassphraseKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: salt as BufferSource, iterations: PASSPHRASE_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encryptToken = async (token: string, passphrase: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await derivePassphraseKey(passphrase, salt);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(token));
+  return [ENCRYPTED_VERSION, toBase64Url(salt), toBase64Url(iv), toBase64Url(new Uint8Array(ciphertext))].join('.');
+};
+
+// AES-GCM authenticates the ciphertext: a wrong passphrase and an edited link both give null
+const decryptToken = async (token: string, passphrase: string): Promise<string | null> => {
+  const [, salt, iv, ciphertext] = token.split('.');
+  if (!salt || !iv || !ciphertext) return null;
+  try {
+    const key = await derivePassphraseKey(passphrase, fromBase64Url(salt));
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64Url(iv) as BufferSource }, key, fromBase64Url(ciphertext) as BufferSource
+    );
+    return decoder.decode(plaintext);
+  } catch {
+    return null;
+  }
+};
+
+// --- Import Log ---
+const getImportLog = (): ImportLog => {
+  const data = localStorage.getItem(IMPORT_LOG_KEY);
+  return data ? JSON.parse(data) : { linkIds: [], issuedAt: {} };
+};
+
+const recordImport = (payload: ConfigPayload) => {
+  const log = getImportLog();
+  log.linkIds = [...log.linkIds, payload.id].slice(-MAX_REMEMBERED_LINKS);
+  log.issuedAt[payload.hospital.id] = payload.issuedAt;
+  localStorage.setItem(IMPORT_LOG_KEY, JSON.stringify(log));
+};
+
+// --- Links ---
+export const generateHospitalConfigLink = async (hospitalId: string, options: ConfigLinkOptions): Promise<string> => {
+  let hospital = getHospitals().find(h => h.id === hospitalId);
+  if (!hospital) return '';
+
+  // Importing devices trust the keys on the hospital record, which syncs to the cloud
+  const signingKey = await getSigningKey(hospital.id);
+  if (!hospital.configSigningKeys?.includes(signingKey.publicKey)) {
+    hospital = { ...hospital, configSigningKeys: [...(hospital.configSigningKeys || []), signingKey.publicKey] };
+    await updateHospital(hospital);
+  }
+
+  const now = Date.now();
+  const payload: ConfigPayload = {
+    id: crypto.randomUUID(),
+    issuedAt: now,
+    expiresAt: now + options.expiresInHours * HOUR_MS,
+    signingKey: signingKey.publicKey,
+    hospital: {
+      id: hospital.id,
+      name: hospital.name,
+      username: hospital.username,
+      password: isSyncEnabled() ? undefined : cloudSecret(hospital.password),
+      coords: hospital.coords,
+      radius: hospital.radius,
+      zones: hospital.zones,
+      shifts: hospital.shifts,
+      autoClosePolicy: hospital.autoClosePolicy,
+      // Carries the hashed override PIN so staff devices can check it offline
+      devicePolicy: hospital.devicePolicy,
+      configSigningKeys: hospital.configSigningKeys,
+      updatedAt: hospital.updatedAt
+    },
+    staff: getStaffByHospital(hospital.id).map(u => ({
+      id: u.id,
+      name: u.name,
+      // Synced devices sign staff in against the cloud; only offline links need the hashes
+      pin: isSyncEnabled() ? '' : cloudSecret(u.pin) || '',
+      boundDeviceId: u.boundDeviceId,
+      updatedAt: u.updatedAt
+    })),
+    devices: getDevicesByHospital(hospital.id)
+  };
+
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign(SIGNATURE_ALGORITHM, signingKey.privateKey, encoder.encode(body));
+  let token = `${SIGNED_VERSION}.${body}.${toBase64Url(new Uint8Array(signature))}`;
+  if (options.passphrase) token = await encryptToken(token, options.passphrase);
+
+  // In the fragment, so the token never reaches server logs
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = `${CONFIG_LINK_PARAM}=${token}`;
+  return url.toString();
+};
+
+// Token from the current URL, if the page was opened from a config link
+export const readConfigLinkToken = (): string | null => {
+  const fragment = new URLSearchParams(window.location.hash.replace(/^#/, ''));
+  return fragment.get(CONFIG_LINK_PARAM) || new URLSearchParams(window.location.search).get(CONFIG_LINK_PARAM);
+};
+
+export const isPassphraseProtected = (token: string): boolean => token.startsWith(`${ENCRYPTED_VERSION}.`);
+
+const failed = (message: string): ConfigImportResult => ({ success: false, message });
+
+// Checks everything before writing: format, signature, signer, expiry and replay
+export const importHospitalConfig = async (token: string, passphrase?: string): Promise<ConfigImportResult> => {
+  try {
+    const encrypted = isPassphraseProtected(token);
+    if (encrypted && !passphrase) return failed('This link is protected by a passphrase.');
+    const signed = encrypted ? await decryptToken(token, passphrase!) : token;
+    if (!signed) return failed('Wrong passphrase, or the link was damaged.');
+
+    const [version, body, signature] = signed.split('.');
+    if (version !== SIGNED_VERSION || !body || !signature) {
+      return failed('This is not a valid setup link. Links from older versions must be created again.');
+    }
+
+    const payload: ConfigPayload = JSON.parse(decoder.decode(fromBase64Url(body)));
+    const publicKey = await crypto.subtle.importKey('spki', fromBase64Url(payload.signingKey) as BufferSource, SIGNING_ALGORITHM, false, ['verify']);
+    const valid = await crypto.subtle.verify(SIGNATURE_ALGORITHM, publicKey, fromBase64Url(signature) as BufferSource, encoder.encode(body));
+    if (!valid) return failed('This link has been altered and cannot be used.');
+
+    // Without a known key for the hospital, only the shared passphrase vouches for the sender
+    const trustedKeys = await getTrustedKeys(payload.hospital.id);
+    if (trustedKeys && !trustedKeys.includes(payload.signingKey)) {
+      return failed('This link was not issued by a device of this hospital. If it is new, wait for the manager\'s device to sync and try again.');
+    }
+    if (!trustedKeys && !encrypted) {
+      return failed('This link cannot be verified here. Connect to the internet, or ask for a passphrase-protected link.');
+    }
+
+    const now = Date.now();
+    if (payload.expiresAt <= now) return failed('This link has expired. Ask your manager for a new one.');
+    if (payload.issuedAt > now + CLOCK_SKEW_MS) return failed('This link is dated in the future. Check the clock on this device.');
+
+    const log = getImportLog();
+    if (log.linkIds.includes(payload.id)) return failed('This link was already used on this device.');
+    if (payload.issuedAt < (log.issuedAt[payload.hospital.id] || 0)) {
+      return failed('A newer setup link for this hospital was already applied on this device.');
+    }
+
+    applyHospitalConfig(payload.hospital, payload.staff, payload.devices || []);
+    recordImport(payload);
+    return { success: true, message: 'Configuration imported successfully.', hospitalName: payload.hospital.name };
+  } catch (e) {
+    console.error(e);
+    return failed('Failed to import configuration.');
+  }
+};
@@ -0,0 +1,54 @@
+// Salted PBKDF2 hashing for hospital passwords, log-view passwords and staff PINs.
+// Stored format: pbkdf2$<iterations>$<base64 salt>$<base64 hash>
+const HASH_PREFIX = 'pbkdf2';
+const ITERATIONS = 100000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+const encoder = new TextEncoder();
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const deriveHash = async (secret: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: salt as BufferSource, iterations, hash: 'SHA-256' },
+    key,
+    HASH_BITS
+  );
+  return new Uint8Array(bits);
+};
+
+// Avoids leaking how many leading characters matched
+const constantTimeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+export const isHashedSecret = (value?: string): boolean => {
+  return !!value && value.startsWith(`${HASH_PREFIX}$`);
+};
+
+export const hashSecret = async (secret: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await deriveHash(secret, salt, ITERATIONS);
+  return `${HASH_PREFIX}$${ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`;
+};
+
+// Accepts both hashed and legacy plaintext values; callers should re-hash
+// plaintext values after a successful match (see needsRehash).
+export const verifySecret = async (secret: string, stored?: string): Promise<boolean> => {
+  if (!stored) return false;
+  if (!isHashedSecret(stored)) return constantTimeEqual(secret, stored);
+
+  const [, iterations, salt, expected] = stored.split('$');
+  const hash = await deriveHash(secret, fromBase64(salt), parseInt(iterations, 10));
+  return constantTimeEqual(toBase64(hash), expected);
+};
+
+export const needsRehash = (stored?: string): boolean => {
+  return !!stored && !isHashedSecret(stored);
+};
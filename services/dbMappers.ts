@@ -0,0 +1,253 @@
+import { Hospital, User, AttendanceRecord, RosterAssignment, CorrectionRequest, Device, AuditEntry } from '../types';
+import { isHashedSecret } from './credentials';
+
+// Only salted hashes leave the device. Legacy plaintext secrets are dropped from the
+// payload (leaving the cloud column untouched) until they are migrated on next login.
+export const cloudSecret = (value?: string) => isHashedSecret(value) ? value : undefined;
+
+// --- Hospitals ---
+export const mapHospitalToDb = (hospital: Hospital) => ({
+  id: hospital.id,
+  name: hospital.name,
+  registration_number: hospital.registrationNumber,
+  username: hospital.username,
+  password: cloudSecret(hospital.password),
+  log_view_password: cloudSecret(hospital.logViewPassword),
+  registered_by: hospital.registeredBy,
+  coords: hospital.coords,
+  radius: hospital.radius,
+  zones: hospital.zones,
+  shifts: hospital.shifts,
+  auto_close_policy: hospital.autoClosePolicy,
+  device_policy: hospital.devicePolicy,
+  email_report_config: hospital.emailReportConfig,
+  config_signing_keys: hospital.configSigningKeys,
+  updated_at: hospital.updatedAt
+});
+
+// Secrets not yet migrated to hashes were never uploaded, so keep the local copies
+export const mapHospitalFromDb = (row: any, local?: Hospital): Hospital => ({
+  id: row.id,
+  name: row.name,
+  registrationNumber: row.registration_number,
+  username: row.username,
+  password: row.password || local?.password,
+  logViewPassword: row.log_view_password || local?.logViewPassword,
+  registeredBy: row.registered_by,
+  coords: row.coords,
+  radius: row.radius,
+  zones: row.zones,
+  shifts: row.shifts,
+  autoClosePolicy: row.auto_close_policy,
+  devicePolicy: row.device_policy,
+  emailReportConfig: row.email_report_config,
+  configSigningKeys: row.config_signing_keys || undefined,
+  updatedAt: row.updated_at
+});
+
+// --- Users ---
+export const mapUserToDb = (user: User) => ({
+  id: user.id,
+  name: user.name,
+  role: user.role,
+  hospital_id: user.hospitalId || null, // Admins belong to no hospital
+  pin: cloudSecret(user.pin),
+  username: user.username,
+  bound_device_id: user.boundDeviceId,
+  profile_picture: user.profilePicture,
+  updated_at: user.updatedAt
+});
+
+export const mapUserFromDb = (row: any, local?: User): User => ({
+  id: row.id,
+  name: row.name,
+  role: row.role,
+  hospitalId: row.hospital_id || '',
+  pin: row.pin || local?.pin,
+  username: row.username,
+  boundDeviceId: row.bound_device_id,
+  profilePicture: row.profile_picture,
+  updatedAt: row.updated_at
+});
+
+// --- Attendance ---
+export const mapAttendanceToDb = (record: AttendanceRecord) => ({
+  id: record.id,
+  user_id: record.userId,
+  user_name: record.userName,
+  hospital_id: record.hospitalId,
+  hospital_name: record.hospitalName,
+  check_in_time: record.checkInTime,
+  check_out_time: record.checkOutTime,
+  check_in_coords: record.checkInCoords,
+  check_out_coords: record.checkOutCoords,
+  flagged: record.flagged,
+  check_in_verification: record.checkInVerification,
+  check_out_verification: record.checkOutVerification,
+  distance_from_center: record.distanceFromCenter,
+  zone_name: record.zoneName,
+  check_out_zone_name: record.checkOutZoneName,
+  duration_minutes: record.durationMinutes,
+  check_in_device_id: record.checkInDeviceId,
+  check_out_device_id: record.checkOutDeviceId,
+  check_in_device_check: record.checkInDeviceCheck,
+  check_out_device_check: record.checkOutDeviceCheck,
+  anomaly: record.anomaly,
+  check_out_status: record.checkOutStatus,
+  auto_close_rule: record.autoCloseRule,
+  correction: record.correction,
+  review_status: record.reviewStatus,
+  review_note: record.reviewNote,
+  reviewed_by: record.reviewedBy,
+  reviewed_at: record.reviewedAt,
+  device_signature: record.deviceSignature,
+  updated_at: record.updatedAt
+});
+
+export const mapAttendanceFromDb = (row: any): AttendanceRecord => ({
+  id: row.id,
+  userId: row.user_id,
+  userName: row.user_name,
+  hospitalId: row.hospital_id,
+  hospitalName: row.hospital_name,
+  checkInTime: row.check_in_time,
+  checkOutTime: row.check_out_time,
+  checkInCoords: row.check_in_coords,
+  checkOutCoords: row.check_out_coords,
+  flagged: row.flagged,
+  checkInVerification: row.check_in_verification,
+  checkOutVerification: row.check_out_verification,
+  distanceFromCenter: row.distance_from_center,
+  zoneName: row.zone_name,
+  checkOutZoneName: row.check_out_zone_name,
+  durationMinutes: row.duration_minutes,
+  checkInDeviceId: row.check_in_device_id,
+  checkOutDeviceId: row.check_out_device_id,
+  checkInDeviceCheck: row.check_in_device_check,
+  checkOutDeviceCheck: row.check_out_device_check,
+  anomaly: row.anomaly,
+  checkOutStatus: row.check_out_status,
+  autoCloseRule: row.auto_close_rule,
+  correction: row.correction,
+  reviewStatus: row.review_status,
+  reviewNote: row.review_note,
+  reviewedBy: row.reviewed_by,
+  reviewedAt: row.reviewed_at,
+  deviceSignature: row.device_signature,
+  updatedAt: row.updated_at
+});
+
+// --- Roster ---
+export const mapRosterToDb = (assignment: RosterAssignment) => ({
+  id: assignment.id,
+  hospital_id: assignment.hospitalId,
+  user_id: assignment.userId,
+  shift_id: assignment.shiftId,
+  date: assignment.date,
+  updated_at: assignment.updatedAt
+});
+
+export const mapRosterFromDb = (row: any): RosterAssignment => ({
+  id: row.id,
+  hospitalId: row.hospital_id,
+  userId: row.user_id,
+  shiftId: row.shift_id,
+  date: row.date,
+  updatedAt: row.updated_at
+});
+
+// --- Correction Requests ---
+export const mapCorrectionRequestToDb = (request: CorrectionRequest) => ({
+  id: request.id,
+  record_id: request.recordId,
+  user_id: request.userId,
+  user_name: request.userName,
+  hospital_id: request.hospitalId,
+  proposed_check_in_time: request.proposedCheckInTime,
+  proposed_check_out_time: request.proposedCheckOutTime,
+  note: request.note,
+  status: request.status,
+  created_at: request.createdAt,
+  updated_at: request.updatedAt,
+  resolved_by: request.resolvedBy,
+  resolved_at: request.resolvedAt,
+  resolution_note: request.resolutionNote
+});
+
+export const mapCorrectionRequestFromDb = (row: any): CorrectionRequest => ({
+  id: row.id,
+  recordId: row.record_id,
+  userId: row.user_id,
+  userName: row.user_name,
+  hospitalId: row.hospital_id,
+  proposedCheckInTime: row.proposed_check_in_time,
+  proposedCheckOutTime: row.proposed_check_out_time,
+  note: row.note,
+  status: row.status,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  resolvedBy: row.resolved_by,
+  resolvedAt: row.resolved_at,
+  resolutionNote: row.resolution_note
+});
+
+// --- Devices ---
+export const mapDeviceToDb = (device: Device) => ({
+  id: device.id,
+  device_id: device.deviceId,
+  user_id: device.userId,
+  hospital_id: device.hospitalId,
+  name: device.name,
+  public_key: device.publicKey,
+  status: device.status,
+  enrolled_at: device.enrolledAt,
+  decided_by: device.decidedBy,
+  decided_at: device.decidedAt,
+  updated_at: device.updatedAt
+});
+
+export const mapDeviceFromDb = (row: any): Device => ({
+  id: row.id,
+  deviceId: row.device_id,
+  userId: row.user_id,
+  hospitalId: row.hospital_id,
+  name: row.name,
+  publicKey: row.public_key,
+  status: row.status,
+  enrolledAt: row.enrolled_at,
+  decidedBy: row.decided_by,
+  decidedAt: row.decided_at,
+  updatedAt: row.updated_at
+});
+
+// --- Audit Log ---
+export const mapAuditToDb = (entry: AuditEntry) => ({
+  id: entry.id,
+  timestamp: entry.timestamp,
+  actor_id: entry.actorId,
+  actor_name: entry.actorName,
+  actor_role: entry.actorRole,
+  action: entry.action,
+  entity_type: entry.entityType,
+  entity_id: entry.entityId,
+  entity_label: entry.entityLabel,
+  hospital_id: entry.hospitalId,
+  changes: entry.changes,
+  device_id: entry.deviceId
+});
+
+export const mapAuditFromDb = (row: any): AuditEntry => ({
+  id: row.id,
+  timestamp: row.timestamp,
+  actorId: row.actor_id,
+  actorName: row.actor_name,
+  actorRole: row.actor_role,
+  action: row.action,
+  entityType: row.entity_type,
+  entityId: row.entity_id,
+  entityLabel: row.entity_label,
+  hospitalId: row.hospital_id,
+  changes: row.changes || [],
+  deviceId: row.device_id,
+  synced: true
+});
@@ -0,0 +1,80 @@
+import { AttendanceRecord, Device, DeviceStatus, User } from '../types';
+import { getDevicesByUser, getOrCreateDeviceId, saveDevice } from './storage';
+import { getDevicePublicKey } from './deviceSigning';
+
+// Staff devices are enrolled the first time someone checks in on them. A staff member's first
+// device is approved automatically, as the old single-device binding did; any later device
+// waits for a manager. Revoked devices can no longer check in.
+
+export const DEVICE_STATUS_LABELS: Record<DeviceStatus, string> = {
+  PENDING: 'Awaiting approval',
+  APPROVED: 'Approved',
+  REVOKED: 'Revoked'
+};
+
+export const AUTO_APPROVED_BY = 'Automatic (first device)';
+
+// Rough platform name from the user agent; managers can rename the device
+export const describeThisDevice = (): string => {
+  const agent = navigator.userAgent;
+  const platform = /iPhone/.test(agent) ? 'iPhone'
+    : /iPad/.test(agent) ? 'iPad'
+    : /Android/.test(agent) ? (/Mobile/.test(agent) ? 'Android phone' : 'Android tablet')
+    : /Windows/.test(agent) ? 'Windows PC'
+    : /Macintosh/.test(agent) ? 'Mac'
+    : /Linux/.test(agent) ? 'Linux PC'
+    : 'Device';
+  const browser = /Edg\//.test(agent) ? 'Edge'
+    : /Firefox\//.test(agent) ? 'Firefox'
+    : /Chrome\//.test(agent) ? 'Chrome'
+    : /Safari\//.test(agent) ? 'Safari'
+    : '';
+  return browser ? `${platform} (${browser})` : platform;
+};
+
+export const getThisDeviceEnrollment = (userId: string): Device | undefined => {
+  const deviceId = getOrCreateDeviceId();
+  return getDevicesByUser(userId).find(d => d.deviceId === deviceId);
+};
+
+// A legacy binding (User.boundDeviceId) to this device counts as the first device; a binding
+// to another device means this one needs approval
+export const enrollThisDevice = async (user: User): Promise<Device> => {
+  const existing = getThisDeviceEnrollment(user.id);
+  if (existing) return existing;
+
+  const deviceId = getOrCreateDeviceId();
+  const firstDevice = getDevicesByUser(user.id).length === 0 && (!user.boundDeviceId || user.boundDeviceId === deviceId);
+  const now = new Date().toISOString();
+  const device: Device = {
+    id: crypto.randomUUID(),
+    deviceId,
+    userId: user.id,
+    hospitalId: user.hospitalId,
+    name: describeThisDevice(),
+    publicKey: await getDevicePublicKey(),
+    status: firstDevice ? 'APPROVED' : 'PENDING',
+    enrolledAt: now,
+    decidedBy: firstDevice ? AUTO_APPROVED_BY : undefined,
+    decidedAt: firstDevice ? now : undefined
+  };
+  await saveDevice(device);
+  return device;
+};
+
+export const decideDevice = (device: Device, status: 'APPROVED' | 'REVOKED', decidedBy: string): Device => ({
+  ...device,
+  status,
+  decidedBy,
+  decidedAt: new Date().toISOString()
+});
+
+// Latest check-in or check-out made on the device
+export const getDeviceLastSeen = (device: Device, records: AttendanceRecord[]): string | undefined => {
+  let lastSeen: string | undefined;
+  records.filter(r => r.userId === device.userId).forEach(r => {
+    if (r.checkInDeviceId === device.deviceId && (!lastSeen || r.checkInTime > lastSeen)) lastSeen = r.checkInTime;
+    if (r.checkOutTime && r.checkOutDeviceId === device.deviceId && (!lastSeen || r.checkOutTime > lastSeen)) lastSeen = r.checkOutTime;
+  });
+  return lastSeen;
+};
@@ -0,0 +1,72 @@
+import { AttendanceRecord, DeviceCheckOutcome, DevicePolicy, DevicePolicyMode, Hospital, User } from '../types';
+import { verifySecret } from './credentials';
+import { getThisDeviceEnrollment, DEVICE_STATUS_LABELS } from './deviceEnrollment';
+import { getOrCreateDeviceId } from './storage';
+
+export const DEFAULT_DEVICE_POLICY: DevicePolicy = {
+  mode: 'BLOCK',
+};
+
+export const DEVICE_POLICY_LABELS: Record<DevicePolicyMode, string> = {
+  OFF: 'Off: any device may be used',
+  FLAG: 'Flag the record for review',
+  BLOCK: 'Block the check-in or check-out',
+  OVERRIDE: 'Require the manager override PIN',
+};
+
+export const DEVICE_CHECK_LABELS: Record<DeviceCheckOutcome, string> = {
+  APPROVED_DEVICE: 'Approved device',
+  NOT_CHECKED: 'Device not checked',
+  FLAGGED: 'Unapproved device (flagged)',
+  OVERRIDDEN: 'Unapproved device (manager override)',
+};
+
+export const getDevicePolicy = (hospital?: Hospital): DevicePolicy => {
+  return { ...DEFAULT_DEVICE_POLICY, ...hospital?.devicePolicy };
+};
+
+export type DevicePolicyDecision =
+  | { action: 'ALLOW'; outcome: DeviceCheckOutcome }
+  | { action: 'BLOCK'; reason: string }
+  | { action: 'NEEDS_OVERRIDE'; reason: string };
+
+export interface DeviceMismatch {
+  reason: string;
+  revoked: boolean; // The manager revoked this device for the staff member
+}
+
+// Why this device does not count as the staff member's device, or null when it does.
+// A check-out must also come from the device that checked in.
+export const getDeviceMismatch = (user: User, activeShift?: AttendanceRecord): DeviceMismatch | null => {
+  const enrollment = getThisDeviceEnrollment(user.id);
+  if (!enrollment) return { reason: 'This device is not enrolled for you.', revoked: false };
+  if (enrollment.status !== 'APPROVED') {
+    return { reason: `This device is ${DEVICE_STATUS_LABELS[enrollment.status].toLowerCase()}.`, revoked: enrollment.status === 'REVOKED' };
+  }
+  if (activeShift?.checkInDeviceId && activeShift.checkInDeviceId !== getOrCreateDeviceId()) {
+    return { reason: 'You checked in on a different device.', revoked: false };
+  }
+  return null;
+};
+
+const APPROVAL_HINT = 'Ask your manager to approve this device.';
+
+// A revoked device is refused whatever the mode; the policy only decides for devices that are
+// not approved yet and for check-outs on another device than the check-in.
+// `overridden`: the manager's override PIN was already entered for this attempt
+export const applyDevicePolicy = (policy: DevicePolicy, mismatch: DeviceMismatch | null, overridden = false): DevicePolicyDecision => {
+  if (!mismatch) return { action: 'ALLOW', outcome: 'APPROVED_DEVICE' };
+  if (mismatch.revoked) return { action: 'BLOCK', reason: `${mismatch.reason} Use another device that your manager has approved.` };
+  switch (policy.mode) {
+    case 'OFF': return { action: 'ALLOW', outcome: 'NOT_CHECKED' };
+    case 'FLAG': return { action: 'ALLOW', outcome: 'FLAGGED' };
+    case 'BLOCK': return { action: 'BLOCK', reason: `${mismatch.reason} ${APPROVAL_HINT}` };
+    case 'OVERRIDE':
+      if (!policy.overridePin) return { action: 'BLOCK', reason: `${mismatch.reason} No manager override PIN is set up. ${APPROVAL_HINT}` };
+      return overridden ? { action: 'ALLOW', outcome: 'OVERRIDDEN' } : { action: 'NEEDS_OVERRIDE', reason: mismatch.reason };
+  }
+};
+
+export const verifyOverridePin = async (policy: DevicePolicy, pin: string): Promise<boolean> => {
+  return verifySecret(pin, policy.overridePin);
+};
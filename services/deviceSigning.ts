@@ -0,0 +1,133 @@
+import { AttendanceRecord, DeviceSignature } from '../types';
+import { DEVICE_STORE, openDatabase, requestResult, transactionDone } from './indexedDb';
+
+// Every device signs the attendance facts it writes (times, locations, flags, devices), so
+// records handed over in a transfer code are tamper-evident. The private key is a
+// non-extractable CryptoKey in IndexedDB: the app can sign with it, but it cannot be read
+// out and reused elsewhere.
+
+const KEY_RECORD_ID = 'signing-key';
+// Used only when IndexedDB is unavailable; such a key is extractable, so weaker
+const FALLBACK_KEY = 'mediguard_device_signing_key';
+
+const SIGNING_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGNATURE_ALGORITHM = { name: 'ECDSA', hash: 'SHA-256' };
+
+// What the device reported. Manager review fields and sync metadata are left out, so a review
+// or a cloud round trip does not invalidate the staff device's signature.
+const SIGNED_ATTENDANCE_FIELDS: (keyof AttendanceRecord)[] = [
+  'id', 'userId', 'hospitalId', 'checkInTime', 'checkOutTime', 'checkInCoords', 'checkOutCoords',
+  'flagged', 'checkInVerification', 'checkOutVerification', 'distanceFromCenter', 'zoneName',
+  'checkOutZoneName', 'durationMinutes', 'checkInDeviceId', 'checkOutDeviceId', 'anomaly',
+  'checkOutStatus', 'autoCloseRule', 'checkInDeviceCheck', 'checkOutDeviceCheck'
+];
+
+interface DeviceKey {
+  publicKey: string; // base64url SPKI
+  privateKey: CryptoKey;
+}
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - base64.length % 4) % 4);
+  return Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+};
+
+const exportPublicKey = async (key: CryptoKey): Promise<string> => {
+  return toBase64Url(new Uint8Array(await crypto.subtle.exportKey('spki', key)));
+};
+
+const loadFromIndexedDb = async (): Promise<DeviceKey> => {
+  const db = await openDatabase();
+  const stored = await requestResult(db.transaction(DEVICE_STORE).objectStore(DEVICE_STORE).get(KEY_RECORD_ID));
+  if (stored) return { publicKey: stored.publicKey, privateKey: stored.privateKey };
+
+  const pair = await crypto.subtle.generateKey(SIGNING_ALGORITHM, false, ['sign', 'verify']) as CryptoKeyPair;
+  const key: DeviceKey = { publicKey: await exportPublicKey(pair.publicKey), privateKey: pair.privateKey };
+  const transaction = db.transaction(DEVICE_STORE, 'readwrite');
+  transaction.objectStore(DEVICE_STORE).put({ id: KEY_RECORD_ID, ...key });
+  await transactionDone(transaction);
+  return key;
+};
+
+const loadFromLocalStorage = async (): Promise<DeviceKey> => {
+  const data = localStorage.getItem(FALLBACK_KEY);
+  if (data) {
+    const stored = JSON.parse(data);
+    return {
+      publicKey: stored.publicKey,
+      privateKey: await crypto.subtle.importKey('jwk', stored.privateKey, SIGNING_ALGORITHM, false, ['sign'])
+    };
+  }
+
+  const pair = await crypto.subtle.generateKey(SIGNING_ALGORITHM, true, ['sign', 'verify']) as CryptoKeyPair;
+  const publicKey = await exportPublicKey(pair.publicKey);
+  localStorage.setItem(FALLBACK_KEY, JSON.stringify({ publicKey, privateKey: await crypto.subtle.exportKey('jwk', pair.privateKey) }));
+  return { publicKey, privateKey: pair.privateKey };
+};
+
+let deviceKeyPromise: Promise<DeviceKey> | null = null;
+
+const getDeviceKey = (): Promise<DeviceKey> => {
+  if (!deviceKeyPromise) {
+    deviceKeyPromise = loadFromIndexedDb().catch(err => {
+      console.warn("IndexedDB unavailable for the device key, using localStorage:", err);
+      return loadFromLocalStorage();
+    });
+  }
+  return deviceKeyPromise;
+};
+
+export const getDevicePublicKey = async (): Promise<string> => (await getDeviceKey()).publicKey;
+
+// Stable text for the signed fields: sorted keys, and null treated like a missing value
+// (the cloud returns null where the device had nothing)
+const canonicalize = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalize).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined && v !== null)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalize(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const signedContent = (record: AttendanceRecord): string => {
+  const fields: Record<string, unknown> = {};
+  SIGNED_ATTENDANCE_FIELDS.forEach(field => { fields[field] = record[field]; });
+  return canonicalize(fields);
+};
+
+export const hasSameSignedContent = (a: AttendanceRecord, b: AttendanceRecord): boolean => {
+  return signedContent(a) === signedContent(b);
+};
+
+export const signAttendanceRecord = async (record: AttendanceRecord): Promise<DeviceSignature> => {
+  const { publicKey, privateKey } = await getDeviceKey();
+  const signature = await crypto.subtle.sign(SIGNATURE_ALGORITHM, privateKey, encoder.encode(signedContent(record)));
+  return { key: publicKey, value: toBase64Url(new Uint8Array(signature)) };
+};
+
+// Whether the record still matches its signature. Which keys to trust is up to the caller.
+export const verifyAttendanceSignature = async (record: AttendanceRecord): Promise<boolean> => {
+  if (!record.deviceSignature) return false;
+  try {
+    const key = await crypto.subtle.importKey(
+      'spki', fromBase64Url(record.deviceSignature.key) as BufferSource, SIGNING_ALGORITHM, false, ['verify']
+    );
+    return await crypto.subtle.verify(
+      SIGNATURE_ALGORITHM, key, fromBase64Url(record.deviceSignature.value) as BufferSource, encoder.encode(signedContent(record))
+    );
+  } catch {
+    return false;
+  }
+};
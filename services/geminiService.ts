@@ -1,5 +1,9 @@
 import { GoogleGenAI } from "@google/genai";
-import { AttendanceRecord, Hospital } from "../types";
+import { Anomaly, AnomalyType, AttendanceRecord, Hospital } from "../types";
+import { evaluateRecord } from "./shiftUtils";
+import { RosterEntry } from "./rosterUtils";
+import { getReviewStatus } from "./attendanceReview";
+import { ANOMALY_RULES } from "./anomalyRules";
 
 // Initialize Gemini Client
 // In a real production app, this should be proxied through a backend.
@@ -8,51 +12,91 @@ const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
 
 export const analyzeAttendance = async (
   records: AttendanceRecord[],
-  hospitals: Hospital[]
+  hospitals: Hospital[],
+  absences: RosterEntry[] = [],
+  anomalies: Map<string, Anomaly[]> = new Map() // From detectAnomalies
 ): Promise<string> => {
   if (!navigator.onLine) {
     return "Offline Mode: AI analysis is unavailable without an internet connection. Please retry when online.";
   }
 
-  if (!records.length) return "No attendance records available for this period.";
+  if (!records.length && !absences.length) return "No attendance records available for this period.";
 
   const model = "gemini-2.5-flash";
   
   // Prepare data for the prompt
   // Filter for potential anomalies to highlight
-  const anomalies = records.filter(r => r.flagged || r.anomaly);
+  const recordAnomalies = (r: AttendanceRecord) => anomalies.get(r.id) || [];
+  const flaggedRecords = records.filter(r => r.flagged || recordAnomalies(r).length > 0);
+  const pendingReview = records.filter(r => getReviewStatus(r, recordAnomalies(r)) === 'PENDING').length;
+  const rejected = records.filter(r => getReviewStatus(r, recordAnomalies(r)) === 'REJECTED').length;
+  const anomalyCounts = new Map<AnomalyType, number>();
+  records.forEach(r => recordAnomalies(r).forEach(a => anomalyCounts.set(a.type, (anomalyCounts.get(a.type) || 0) + 1)));
+  const anomalyBreakdown = [...anomalyCounts]
+    .map(([type, count]) => `${type} (${ANOMALY_RULES[type].severity} severity): ${count}`)
+    .join(', ') || 'None';
+  const corrected = records.filter(r => r.correction).length;
+  const autoClosed = records.filter(r => r.checkOutStatus === 'AUTO_CLOSED').length;
   const total = records.length;
-  const lateCount = records.filter(r => {
-    const d = new Date(r.checkInTime);
-    return d.getHours() > 8 || (d.getHours() === 8 && d.getMinutes() > 5);
-  }).length;
+  const evaluations = new Map(records.map(r => [r.id, evaluateRecord(r, hospitals.find(h => h.id === r.hospitalId))]));
+  const lateCount = records.filter(r => evaluations.get(r.id)?.isLate).length;
+  const earlyLeaveCount = records.filter(r => evaluations.get(r.id)?.isEarlyLeave).length;
 
-  const recordsSummary = records.slice(0, 40).map(r => ({ // Limit payload size
-    staff: r.userName,
-    checkIn: new Date(r.checkInTime).toLocaleString(),
-    duration: r.durationMinutes ? `${r.durationMinutes} mins` : 'Ongoing',
-    status: r.anomaly ? 'DEVICE MISMATCH' : (r.flagged ? 'LOCATION_FLAG' : 'OK')
+  const recordsSummary = records.slice(0, 40).map(r => { // Limit payload size
+    const evaluation = evaluations.get(r.id);
+    return {
+      staff: r.userName,
+      shift: evaluation?.occurrence?.shift.name || 'Unscheduled',
+      checkIn: new Date(r.checkInTime).toLocaleString(),
+      duration: r.durationMinutes ? `${r.durationMinutes} mins${r.checkOutStatus === 'AUTO_CLOSED' ? ' (AUTO_CLOSED, staff never checked out)' : ''}` : 'Ongoing',
+      late: evaluation?.isLate ? `${evaluation.lateMinutes} mins after shift start` : 'No',
+      status: r.flagged ? 'LOCATION_FLAG' : 'OK',
+      anomalies: recordAnomalies(r).map(a => `${a.type} (${a.severity}): ${a.detail}`),
+      location: [r.checkInVerification, r.checkOutVerification].filter(Boolean).join(' / ') || 'UNKNOWN',
+      review: getReviewStatus(r, recordAnomalies(r)) || 'NOT_REQUIRED',
+      correction: r.correction ? `Times corrected by manager: ${r.correction.reason}` : undefined
+    };
+  });
+
+  const absenceSummary = absences.slice(0, 40).map(a => ({
+    staff: a.userName,
+    date: a.occurrence.start.toLocaleDateString(),
+    shift: a.occurrence.shift.name,
+    status: a.status === 'NO_SHOW' ? 'NO-SHOW' : 'ABSENT'
   }));
 
   const prompt = `
     Task: Write a Weekly Attendance Report Email Body.
     
     Context:
-    - Hospital Name: ${records[0].hospitalName}
+    - Hospital Name: ${hospitals[0]?.name || records[0].hospitalName}
     - Total Shifts: ${total}
     - Late Arrivals: ${lateCount}
-    - Anomalies/Flagged: ${anomalies.length}
+    - Early Departures: ${earlyLeaveCount}
+    - Anomalies/Flagged: ${flaggedRecords.length}
+    - Anomalies by Type: ${anomalyBreakdown}
+    - Awaiting Manager Review: ${pendingReview}
+    - Rejected by Manager: ${rejected}
+    - Corrected by Manager: ${corrected}
+    - Auto-Closed (forgot to check out): ${autoClosed}
+    - Rostered Shifts Missed (Absent): ${absences.length}
     
     Data Sample:
     ${JSON.stringify(recordsSummary, null, 2)}
 
+    Absent Staff (rostered but never checked in):
+    ${JSON.stringify(absenceSummary, null, 2)}
+
     Instructions:
     1. Write the email body ONLY (no subject line).
     2. Start with "Dear Administrator,".
     3. Provide a bullet-point summary of the week's attendance performance.
-    4. Specifically name any staff members with anomalies (Device Mismatch or Location Flags).
-    5. Be concise, professional, and medical administration focused.
-    6. Do not use markdown formatting (like **bold** or # headers), use plain text as this will go into a mailto link.
+    4. Specifically name any staff members with anomalies or location flags, HIGH severity first. Anomaly types: DEVICE_MISMATCH (unapproved or different device), IMPOSSIBLE_TRAVEL (moved faster than possible between fixes), SHARED_DEVICE (one phone checked in several staff, possible buddy punching), REUSED_COORDINATES (identical GPS fixes, possible mocked location), SHORT_SHIFT/LONG_SHIFT (implausible duration), OFF_ROSTER (not rostered at that time). Mention LOW severity ones only briefly. Location values are GPS verification outcomes; treat INSIDE_UNCERTAIN as low confidence rather than a violation.
+    5. Anomalies with review APPROVED were checked and accepted by a manager; mention them only briefly. Call out records still PENDING review, and treat REJECTED shifts as not worked.
+    6. List staff whose shifts were AUTO_CLOSED; their recorded duration is a cap, not the real time worked.
+    7. Include a separate "Absences" section listing staff who missed rostered shifts, or state that there were none.
+    8. Be concise, professional, and medical administration focused.
+    9. Do not use markdown formatting (like **bold** or # headers), use plain text as this will go into a mailto link.
   `;
 
   try {
@@ -1,4 +1,9 @@
-import { Coords } from '../types';
+import { AttendanceRecord, Coords, GeofenceZone, Hospital } from '../types';
+
+// Extra allowance beyond a zone's boundary before a position is flagged
+export const GEOFENCE_TOLERANCE_METERS = 15;
+
+const EARTH_RADIUS = 6371e3; // Earth radius in meters
 
 // Haversine formula to calculate distance between two points in meters
 export const calculateDistance = (point1: Coords, point2: Coords): number => {
@@ -16,6 +21,94 @@ export const calculateDistance = (point1: Coords, point2: Coords): number => {
   return R * c; // Distance in meters
 };
 
+// Ray casting test. Treats lat/lng as planar, which is accurate at campus scale.
+export const isPointInPolygon = (point: Coords, polygon: Coords[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses = (a.latitude > point.latitude) !== (b.latitude > point.latitude) &&
+      point.longitude < ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+};
+
+// Shortest distance in meters from a point to the polygon outline
+const distanceToPolygonEdge = (point: Coords, polygon: Coords[]): number => {
+  // Project onto a local flat plane (meters) centred on the point
+  const toLocal = (c: Coords) => ({
+    x: ((c.longitude - point.longitude) * Math.PI / 180) * EARTH_RADIUS * Math.cos(point.latitude * Math.PI / 180),
+    y: ((c.latitude - point.latitude) * Math.PI / 180) * EARTH_RADIUS,
+  });
+
+  let min = Infinity;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = toLocal(polygon[j]);
+    const b = toLocal(polygon[i]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSq));
+    min = Math.min(min, Math.hypot(a.x + t * dx, a.y + t * dy));
+  }
+  return min;
+};
+
+export const getZoneCenter = (zone: GeofenceZone): Coords => {
+  if (zone.type === 'circle') return zone.center;
+  const count = zone.points.length || 1;
+  return {
+    latitude: zone.points.reduce((sum, p) => sum + p.latitude, 0) / count,
+    longitude: zone.points.reduce((sum, p) => sum + p.longitude, 0) / count,
+  };
+};
+
+// Meters outside the zone boundary, 0 when inside
+export const distanceOutsideZone = (point: Coords, zone: GeofenceZone): number => {
+  if (zone.type === 'circle') {
+    return Math.max(0, calculateDistance(point, zone.center) - zone.radius);
+  }
+  if (zone.points.length < 3) return Infinity;
+  return isPointInPolygon(point, zone.points) ? 0 : distanceToPolygonEdge(point, zone.points);
+};
+
+// Id of the zone derived from the hospital's registration coords/radius
+export const MAIN_ZONE_ID = 'main';
+
+// Hospitals registered before zones existed are treated as a single circle zone
+export const getHospitalZones = (hospital: Hospital): GeofenceZone[] => {
+  if (hospital.zones && hospital.zones.length > 0) return hospital.zones;
+  return [{ id: MAIN_ZONE_ID, name: 'Main Site', type: 'circle', center: hospital.coords, radius: hospital.radius }];
+};
+
+export interface ZoneMatch {
+  zone?: GeofenceZone; // Zone containing the point (within tolerance), if any
+  nearestZone: GeofenceZone;
+  distanceOutside: number; // Meters outside the nearest zone boundary
+  distanceFromCenter: number; // Meters from the nearest zone's center
+}
+
+export const locateInZones = (point: Coords, zones: GeofenceZone[], tolerance: number = GEOFENCE_TOLERANCE_METERS): ZoneMatch => {
+  let nearestZone = zones[0];
+  let distanceOutside = Infinity;
+
+  zones.forEach(zone => {
+    const outside = distanceOutsideZone(point, zone);
+    if (outside < distanceOutside) {
+      nearestZone = zone;
+      distanceOutside = outside;
+    }
+  });
+
+  return {
+    zone: distanceOutside <= tolerance ? nearestZone : undefined,
+    nearestZone,
+    distanceOutside,
+    distanceFromCenter: calculateDistance(point, getZoneCenter(nearestZone)),
+  };
+};
+
 export const getCurrentPosition = (): Promise<GeolocationPosition> => {
   return new Promise((resolve, reject) => {
     if (!navigator.geolocation) {
@@ -28,4 +121,63 @@ export const getCurrentPosition = (): Promise<GeolocationPosition> => {
       maximumAge: 0,
     });
   });
-};
\ No newline at end of file
+};
+
+const toCoords = (position: GeolocationPosition): Coords => ({
+  latitude: position.coords.latitude,
+  longitude: position.coords.longitude,
+  accuracy: position.coords.accuracy,
+});
+
+// Takes several consecutive fixes, reporting progress after each one
+export const collectPositionSamples = async (
+  count: number,
+  intervalMs: number = 1000,
+  onSample?: (samples: Coords[]) => void
+): Promise<Coords[]> => {
+  const samples: Coords[] = [];
+  for (let i = 0; i < count; i++) {
+    if (i > 0) await new Promise(resolve => setTimeout(resolve, intervalMs));
+    samples.push(toCoords(await getCurrentPosition()));
+    onSample?.([...samples]);
+  }
+  return samples;
+};
+
+// Inverse-variance weighted mean, so precise fixes dominate noisy ones. Fixes taken a second
+// apart share most of their error, so the accuracy is the median sample's (the worse of the two
+// middle ones), not a combined figure no single fix reached.
+export const averageCoords = (samples: Coords[]): Coords => {
+  const accuracies = samples.map(s => Math.max(s.accuracy || 50, 1));
+  const weights = accuracies.map(a => 1 / Math.pow(a, 2));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const sorted = [...accuracies].sort((a, b) => a - b);
+  return {
+    latitude: samples.reduce((sum, s, i) => sum + s.latitude * weights[i], 0) / total,
+    longitude: samples.reduce((sum, s, i) => sum + s.longitude * weights[i], 0) / total,
+    accuracy: sorted[Math.floor(sorted.length / 2)],
+  };
+};
+
+// Whether a record's check-in or check-out position falls outside all zones
+export const isRecordOutsideZones = (record: AttendanceRecord, zones: GeofenceZone[]): boolean => {
+  if (!locateInZones(record.checkInCoords, zones).zone) return true;
+  return !!record.checkOutCoords && !locateInZones(record.checkOutCoords, zones).zone;
+};
+
+export interface GeofenceChangePreview {
+  evaluated: number;
+  toFlagged: number; // Currently unflagged, outside under the new zones
+  toUnflagged: number; // Currently flagged, inside under the new zones
+}
+
+export const previewGeofenceChange = (records: AttendanceRecord[], zones: GeofenceZone[]): GeofenceChangePreview => {
+  let toFlagged = 0;
+  let toUnflagged = 0;
+  records.forEach(record => {
+    const outside = isRecordOutsideZones(record, zones);
+    if (outside && !record.flagged) toFlagged++;
+    if (!outside && record.flagged) toUnflagged++;
+  });
+  return { evaluated: records.length, toFlagged, toUnflagged };
+};
@@ -0,0 +1,62 @@
+import { SyncTableName } from './syncState';
+
+// IndexedDB schema for local data. To add a store or index, extend STORES and bump DB_VERSION.
+const DB_NAME = 'mediguard';
+const DB_VERSION = 3;
+
+export type StoreName = SyncTableName | 'audit_log';
+
+// Indexed fields per object store (every store is keyed by `id`)
+export const STORES: Record<StoreName, string[]> = {
+  hospitals: [],
+  users: ['hospitalId'],
+  attendance_records: ['hospitalId', 'userId', 'checkInTime'],
+  roster_assignments: ['hospitalId', 'userId'],
+  correction_requests: ['hospitalId', 'userId'],
+  devices: ['hospitalId', 'userId'],
+  audit_log: ['hospitalId', 'timestamp'],
+};
+
+// Device-local secrets that never sync, such as the signing key (see deviceSigning.ts)
+export const DEVICE_STORE = 'device';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (!('indexedDB' in window)) {
+        reject(new Error('IndexedDB is not supported'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const transaction = request.transaction!;
+        (Object.keys(STORES) as StoreName[]).forEach(name => {
+          const store = db.objectStoreNames.contains(name)
+            ? transaction.objectStore(name)
+            : db.createObjectStore(name, { keyPath: 'id' });
+          STORES[name]
+            .filter(index => !store.indexNames.contains(index))
+            .forEach(index => store.createIndex(index, index));
+        });
+        if (!db.objectStoreNames.contains(DEVICE_STORE)) db.createObjectStore(DEVICE_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+export const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error);
+});
@@ -0,0 +1,110 @@
+import { Coords, GeofenceZone, LocationVerification } from '../types';
+import { averageCoords, getCurrentPosition, locateInZones, ZoneMatch } from './geoUtils';
+
+export interface VerificationPolicy {
+  sampleCount: number; // Acceptable fixes to combine
+  maxAttempts: number; // Readings to try, including re-samples of rejected fixes
+  maxAcceptableAccuracy: number; // Fixes less accurate than this (m) are rejected
+  verifiedAccuracy: number; // Inside a zone with accuracy at or below this (m) counts as verified
+}
+
+export const DEFAULT_VERIFICATION_POLICY: VerificationPolicy = {
+  sampleCount: 3,
+  maxAttempts: 5,
+  maxAcceptableAccuracy: 100,
+  verifiedAccuracy: 30,
+};
+
+const SAMPLE_INTERVAL_MS = 1000;
+const PERMISSION_DENIED = 1; // GeolocationPositionError.PERMISSION_DENIED
+
+export interface LocationFix {
+  coords: Coords; // Combined accepted fixes, or the best rejected one when none were accepted
+  acceptedCount: number;
+  rejectedCount: number;
+}
+
+export interface LocationVerificationResult {
+  outcome: LocationVerification;
+  coords: Coords;
+  match: ZoneMatch;
+}
+
+// Reads the position several times, re-sampling fixes that are too inaccurate.
+// Throws only if no reading could be taken at all (e.g. permission denied).
+export const acquireLocationFix = async (
+  policy: VerificationPolicy = DEFAULT_VERIFICATION_POLICY
+): Promise<LocationFix> => {
+  const accepted: Coords[] = [];
+  const rejected: Coords[] = [];
+  let lastError: any = null;
+
+  for (let attempt = 0; attempt < policy.maxAttempts && accepted.length < policy.sampleCount; attempt++) {
+    if (attempt > 0) await new Promise(resolve => setTimeout(resolve, SAMPLE_INTERVAL_MS));
+    try {
+      const position = await getCurrentPosition();
+      const coords: Coords = {
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: position.coords.accuracy
+      };
+      if (coords.accuracy !== undefined && coords.accuracy > policy.maxAcceptableAccuracy) {
+        rejected.push(coords);
+      } else {
+        accepted.push(coords);
+      }
+    } catch (err: any) {
+      if (err?.code === PERMISSION_DENIED || !navigator.geolocation) throw err;
+      lastError = err;
+    }
+  }
+
+  if (accepted.length > 0) {
+    return { coords: averageCoords(accepted), acceptedCount: accepted.length, rejectedCount: rejected.length };
+  }
+  if (rejected.length > 0) {
+    const best = rejected.reduce((a, b) => (a.accuracy ?? Infinity) <= (b.accuracy ?? Infinity) ? a : b);
+    return { coords: best, acceptedCount: 0, rejectedCount: rejected.length };
+  }
+  throw lastError || new Error("Could not retrieve location.");
+};
+
+export const classifyFix = (
+  fix: LocationFix,
+  zones: GeofenceZone[],
+  policy: VerificationPolicy = DEFAULT_VERIFICATION_POLICY
+): LocationVerificationResult => {
+  const match = locateInZones(fix.coords, zones);
+  if (fix.acceptedCount === 0) {
+    return { outcome: 'NO_FIX', coords: fix.coords, match };
+  }
+
+  const accuracy = fix.coords.accuracy ?? policy.maxAcceptableAccuracy;
+  let outcome: LocationVerification;
+  // Accuracy only lowers confidence in a fix inside a zone; it never moves an outside fix in,
+  // or a spoofed fix with a large error radius would pass
+  if (match.zone) {
+    outcome = accuracy <= policy.verifiedAccuracy ? 'VERIFIED' : 'INSIDE_UNCERTAIN';
+  } else {
+    outcome = 'OUTSIDE';
+  }
+  return { outcome, coords: fix.coords, match };
+};
+
+export const verifyLocation = async (
+  zones: GeofenceZone[],
+  policy: VerificationPolicy = DEFAULT_VERIFICATION_POLICY
+): Promise<LocationVerificationResult> => {
+  return classifyFix(await acquireLocationFix(policy), zones, policy);
+};
+
+export const isFlaggedVerification = (outcome?: LocationVerification): boolean => {
+  return outcome === 'OUTSIDE' || outcome === 'NO_FIX';
+};
+
+export const VERIFICATION_LABELS: Record<LocationVerification, string> = {
+  VERIFIED: 'Verified',
+  INSIDE_UNCERTAIN: 'Inside (Uncertain)',
+  OUTSIDE: 'Outside',
+  NO_FIX: 'No GPS Fix',
+};
@@ -0,0 +1,137 @@
+import { getOrCreateDeviceId } from './storage';
+
+const ATTEMPTS_KEY = 'mediguard_login_attempts';
+const FAILED_LOG_KEY = 'mediguard_failed_logins';
+const MAX_FAILED_LOG_ENTRIES = 200;
+
+// Wait imposed after the Nth consecutive failure (index = failures - 1)
+const DELAY_SECONDS = [0, 0, 5, 15, 30];
+// Once past the delay table, the subject is locked out for escalating periods
+const LOCKOUT_MINUTES = [5, 15, 60];
+const FAILURES_PER_LOCKOUT_STEP = 3;
+
+// OVERRIDE: the hospital's device override PIN (see devicePolicy.ts)
+export type LoginSubjectType = 'STAFF' | 'HOSPITAL' | 'ADMIN' | 'OVERRIDE';
+
+export interface LoginSubject {
+  type: LoginSubjectType;
+  id: string; // User id for staff, username for hospital/admin logins, hospital id for overrides
+  label: string; // Display name for the manager view
+  hospitalId?: string;
+}
+
+export interface AttemptState {
+  subject: LoginSubject;
+  failures: number;
+  retryAt?: string; // ISO string; attempts before this time are refused
+  locked: boolean; // True when retryAt comes from a lockout rather than a short delay
+}
+
+export interface FailedLoginAttempt {
+  id: string;
+  subjectKey: string;
+  subjectLabel: string;
+  hospitalId?: string;
+  deviceId: string;
+  timestamp: string; // ISO string
+}
+
+export interface AttemptStatus {
+  blocked: boolean;
+  locked: boolean;
+  retryInSeconds: number;
+  failures: number;
+}
+
+const subjectKey = (subject: LoginSubject) => `${subject.type}:${subject.id.toLowerCase()}`;
+
+const getAttemptStates = (): Record<string, AttemptState> => {
+  const data = localStorage.getItem(ATTEMPTS_KEY);
+  return data ? JSON.parse(data) : {};
+};
+
+const saveAttemptStates = (states: Record<string, AttemptState>) => {
+  localStorage.setItem(ATTEMPTS_KEY, JSON.stringify(states));
+};
+
+export const getFailedLoginLog = (): FailedLoginAttempt[] => {
+  const data = localStorage.getItem(FAILED_LOG_KEY);
+  return data ? JSON.parse(data) : [];
+};
+
+const backoffSeconds = (failures: number): { seconds: number, locked: boolean } => {
+  if (failures <= DELAY_SECONDS.length) {
+    return { seconds: DELAY_SECONDS[failures - 1] || 0, locked: false };
+  }
+  const step = Math.floor((failures - DELAY_SECONDS.length - 1) / FAILURES_PER_LOCKOUT_STEP);
+  return { seconds: LOCKOUT_MINUTES[Math.min(step, LOCKOUT_MINUTES.length - 1)] * 60, locked: true };
+};
+
+export const getAttemptStatus = (subject: LoginSubject): AttemptStatus => {
+  const state = getAttemptStates()[subjectKey(subject)];
+  if (!state) return { blocked: false, locked: false, retryInSeconds: 0, failures: 0 };
+
+  const remainingMs = state.retryAt ? new Date(state.retryAt).getTime() - Date.now() : 0;
+  return {
+    blocked: remainingMs > 0,
+    locked: remainingMs > 0 && state.locked,
+    retryInSeconds: Math.max(0, Math.ceil(remainingMs / 1000)),
+    failures: state.failures,
+  };
+};
+
+export const recordFailedAttempt = (subject: LoginSubject): AttemptStatus => {
+  const key = subjectKey(subject);
+  const states = getAttemptStates();
+  const failures = (states[key]?.failures || 0) + 1;
+  const backoff = backoffSeconds(failures);
+
+  states[key] = {
+    subject,
+    failures,
+    retryAt: backoff.seconds > 0 ? new Date(Date.now() + backoff.seconds * 1000).toISOString() : undefined,
+    locked: backoff.locked,
+  };
+  saveAttemptStates(states);
+
+  const log = getFailedLoginLog();
+  log.push({
+    id: crypto.randomUUID(),
+    subjectKey: key,
+    subjectLabel: subject.label,
+    hospitalId: subject.hospitalId,
+    deviceId: getOrCreateDeviceId(),
+    timestamp: new Date().toISOString(),
+  });
+  localStorage.setItem(FAILED_LOG_KEY, JSON.stringify(log.slice(-MAX_FAILED_LOG_ENTRIES)));
+
+  return getAttemptStatus(subject);
+};
+
+export const recordSuccessfulAttempt = (subject: LoginSubject) => {
+  const states = getAttemptStates();
+  delete states[subjectKey(subject)];
+  saveAttemptStates(states);
+};
+
+export const clearLockout = (subject: LoginSubject) => {
+  recordSuccessfulAttempt(subject);
+};
+
+// Subjects with outstanding failures for a hospital, for the manager view
+export const getHospitalAttemptStates = (hospitalId: string): AttemptState[] => {
+  return Object.values(getAttemptStates()).filter(s => s.subject.hospitalId === hospitalId);
+};
+
+export const getHospitalFailedLogins = (hospitalId: string): FailedLoginAttempt[] => {
+  return getFailedLoginLog().filter(a => a.hospitalId === hospitalId).reverse();
+};
+
+export const describeBlock = (status: AttemptStatus): string => {
+  const wait = status.retryInSeconds >= 60
+    ? `${Math.ceil(status.retryInSeconds / 60)} minute(s)`
+    : `${status.retryInSeconds} second(s)`;
+  return status.locked
+    ? `Too many failed attempts. Locked for ${wait}.`
+    : `Please wait ${wait} before trying again.`;
+};
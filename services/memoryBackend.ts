@@ -0,0 +1,161 @@
+import type { CloudBackend, Row, RowFilter, RowWindow } from './cloudBackend';
+import type { CloudSession, CloudSessionRole } from './session';
+import { LATEST_SCHEMA_VERSION, SESSION_FAILURES_PER_LOCKOUT, SESSION_LOCKOUT_MINUTES } from './schemaMigrations';
+import { isHashedSecret, verifySecret } from './credentials';
+
+// In-memory stand-in for the cloud database. Several sync engines (devices) can share one
+// instance, and failures can be switched on to exercise the outbox retry path.
+// Kept free of browser APIs so the dev server can host it too (see mockApi.ts).
+// Sign-ins are checked like start_session() does, but row-level security is not enforced:
+// queries only see what the sync engine's filters ask for.
+
+export interface MemoryBackend extends CloudBackend {
+  // Every call rejects with this message until cleared with `undefined`
+  setFailure: (message?: string) => Promise<void>;
+  reset: () => Promise<void>;
+  // Simulates a database that is behind (or ahead of) the app's migrations
+  setSchemaVersion: (version: number) => Promise<void>;
+}
+
+// Rows are copied in and out, like a real round trip through the network
+const copy = <T>(value: T): T => value === undefined ? value : JSON.parse(JSON.stringify(value));
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const matches = (row: Row, filter?: RowFilter) => !filter || String(row[filter.column] ?? '') === filter.value;
+
+const inWindow = (row: Row, window?: RowWindow) =>
+  !window || (row[window.column] ?? '') >= window.since || (!!window.orNullColumn && !row[window.orNullColumn]);
+
+export const createMemoryBackend = (): MemoryBackend => {
+  const tables = new Map<string, Map<string, Row>>();
+  let failure: string | undefined;
+  // Starts current; the SQL itself is not interpreted, only the version is tracked
+  let schemaVersion = LATEST_SCHEMA_VERSION;
+
+  const table = (name: string) => {
+    if (!tables.has(name)) tables.set(name, new Map());
+    return tables.get(name)!;
+  };
+
+  const sessions = new Set<string>();
+
+  // Like the server_updated_at trigger in migration 12
+  const stamp = (name: string, row: Row): Row => name === 'audit_log'
+    ? copy(row)
+    : { ...copy(row), server_updated_at: new Date().toISOString() };
+
+  // Same lookups as stored_secret() in migration 5
+  const findAccount = (role: CloudSessionRole, login: string): Row | undefined => {
+    switch (role) {
+      case 'HOSPITAL':
+        return Array.from(table('hospitals').values()).find(row => row.username === login);
+      case 'ADMIN':
+        return Array.from(table('users').values())
+          .find(row => row.role === 'ADMIN' && String(row.username || '').toLowerCase() === login.trim().toLowerCase());
+      case 'STAFF': {
+        const row = table('users').get(login);
+        return row?.role === 'STAFF' ? row : undefined;
+      }
+    }
+  };
+
+  // Failed sign-ins per login, throttled like start_session() in migration 10
+  const attempts = new Map<string, { failures: number; lockedUntil: number }>();
+
+  const checkSecret = async (role: CloudSessionRole, login: string, secret: string): Promise<boolean> => {
+    const account = findAccount(role, login);
+    const stored: string | undefined = account && (role === 'HOSPITAL' ? account.password : account.pin);
+    return !!secret && isHashedSecret(stored) && verifySecret(secret, stored);
+  };
+
+  const isInitialized = () =>
+    table('hospitals').size > 0 || Array.from(table('users').values()).some(row => row.role === 'ADMIN');
+
+  const run = async <T>(operation: () => T): Promise<T> => {
+    if (failure) throw new Error(failure);
+    return copy(operation());
+  };
+
+  return {
+    kind: 'memory',
+    selectByIds: (name, ids) => run(() => ids.map(id => table(name).get(id)).filter((row): row is Row => !!row)),
+    selectIds: (name, filter) => run(() =>
+      Array.from(table(name).values()).filter(row => matches(row, filter)).map(row => row.id as string)
+    ),
+    selectChangedSince: (name, column, since, filter, window) => run(() =>
+      Array.from(table(name).values())
+        .filter(row => matches(row, filter) && inWindow(row, window) && (!since || (row[column] ?? '') >= since))
+    ),
+    selectLatest: (name, orderColumn, limit, filter) => run(() =>
+      Array.from(table(name).values())
+        .filter(row => matches(row, filter))
+        .sort((a, b) => String(b[orderColumn] ?? '').localeCompare(String(a[orderColumn] ?? '')))
+        .slice(0, limit)
+    ),
+    upsert: (name, row) => run(() => {
+      table(name).set(row.id, stamp(name, row));
+    }),
+    insertMissing: (name, rows) => run(() => {
+      rows.filter(row => !table(name).has(row.id)).forEach(row => table(name).set(row.id, stamp(name, row)));
+    }),
+    remove: (name, id) => run(() => {
+      table(name).delete(id);
+    }),
+    getSchemaVersion: () => run(() => schemaVersion),
+    applyMigrations: (migrations) => run(() => {
+      schemaVersion = Math.max(schemaVersion, ...migrations.map(m => m.version));
+    }),
+    startSession: async (role, login, secret) => {
+      const key = `${role}:${login.trim().toLowerCase()}`;
+      const state = attempts.get(key) || { failures: 0, lockedUntil: 0 };
+      if (failure) throw new Error(failure);
+      if (state.lockedUntil > Date.now()) throw new Error('Too many failed sign-ins. Try again later.');
+
+      if (!(await checkSecret(role, login, secret))) {
+        state.failures++;
+        if (state.failures % SESSION_FAILURES_PER_LOCKOUT === 0) {
+          const step = Math.min(state.failures / SESSION_FAILURES_PER_LOCKOUT, SESSION_LOCKOUT_MINUTES.length) - 1;
+          state.lockedUntil = Date.now() + SESSION_LOCKOUT_MINUTES[step] * 60000;
+        }
+        attempts.set(key, state);
+        return null;
+      }
+      attempts.delete(key);
+      return run((): CloudSession => {
+        const account = findAccount(role, login)!;
+        const session: CloudSession = {
+          token: crypto.randomUUID(),
+          role,
+          hospitalId: role === 'HOSPITAL' ? account.id : role === 'STAFF' ? account.hospital_id || undefined : undefined,
+          userId: role === 'HOSPITAL' ? undefined : account.id,
+          expiresAt: new Date(Date.now() + SESSION_TTL_MS).toISOString(),
+        };
+        sessions.add(session.token);
+        return session;
+      });
+    },
+    endSession: (token) => run(() => {
+      sessions.delete(token);
+    }),
+    isInitialized: () => run(isInitialized),
+    registerFirstAdmin: (admin) => run(() => {
+      if (isInitialized()) return false;
+      table('users').set(admin.id, { ...copy(admin), role: 'ADMIN', hospital_id: null });
+      return true;
+    }),
+    getConfigSigningKeys: (hospitalId) => run(() => (table('hospitals').get(hospitalId)?.config_signing_keys as string[]) || []),
+    setFailure: async (message) => {
+      failure = message;
+    },
+    reset: async () => {
+      tables.clear();
+      sessions.clear();
+      attempts.clear();
+      failure = undefined;
+    },
+    setSchemaVersion: async (version) => {
+      schemaVersion = version;
+    },
+  };
+};
@@ -0,0 +1,47 @@
+import type { Plugin } from 'vite';
+import { createMemoryBackend, MemoryBackend } from './memoryBackend';
+
+// Dev-server plugin exposing one shared memory backend at /mock-api, so every browser tab
+// started with SYNC_BACKEND=rest syncs against the same stand-in database.
+// Protocol: POST /mock-api/<method> with a JSON array of arguments -> { data } or { error }.
+
+const METHODS: (keyof MemoryBackend)[] = [
+  'selectByIds', 'selectIds', 'selectChangedSince', 'selectLatest',
+  'upsert', 'insertMissing', 'remove', 'getSchemaVersion', 'applyMigrations',
+  'startSession', 'endSession', 'isInitialized', 'registerFirstAdmin', 'getConfigSigningKeys',
+  'setFailure', 'reset', 'setSchemaVersion'
+];
+
+export const mockApiPlugin = (): Plugin => ({
+  name: 'mediguard-mock-api',
+  apply: 'serve',
+  configureServer(server) {
+    const backend = createMemoryBackend();
+
+    server.middlewares.use('/mock-api', (req, res) => {
+      const send = (status: number, body: object) => {
+        res.statusCode = status;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(body));
+      };
+
+      const method = (req.url || '').replace(/^\//, '').split('?')[0] as keyof MemoryBackend;
+      if (req.method !== 'POST' || !METHODS.includes(method)) {
+        send(404, { error: `Unknown mock API call: ${req.method} ${req.url}` });
+        return;
+      }
+
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', async () => {
+        try {
+          const args = body ? JSON.parse(body) : [];
+          const handler = backend[method] as (...args: unknown[]) => Promise<unknown>;
+          send(200, { data: (await handler(...args)) ?? null });
+        } catch (err: any) {
+          send(500, { error: err?.message || 'Mock API call failed' });
+        }
+      });
+    });
+  },
+});
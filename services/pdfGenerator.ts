@@ -1,26 +1,28 @@
-import { AttendanceRecord } from '../types';
+import { Anomaly, AttendanceRecord, Hospital } from '../types';
+import { evaluateRecord, ShiftEvaluation, formatShiftWindow } from './shiftUtils';
+import { RosterEntry } from './rosterUtils';
+import { VERIFICATION_LABELS } from './locationVerification';
+import { getReviewStatus, REVIEW_LABELS } from './attendanceReview';
+import { AUTO_CLOSE_RULE_LABELS } from './autoClose';
+import { describeAnomaly, SEVERITY_LABELS } from './anomalyRules';
 
 // This file assumes jsPDF and jsPDF-AutoTable are loaded from CDN in index.html
 declare const jspdf: any;
 
-const CHECK_IN_DEADLINE_HOUR = 8;
-const CHECK_IN_DEADLINE_MINUTE = 5; // 5 minute grace period
-const CHECK_OUT_DEADLINE_HOUR = 17;
+type TimeStatus = { status: string, style: { textColor: number[] } };
 
-const getTimeStatus = (date: Date, type: 'in' | 'out'): { status: string, style: { textColor: number[] } } => {
-  const hours = date.getHours();
-  const minutes = date.getMinutes();
+const getTimeStatus = (evaluation: ShiftEvaluation, type: 'in' | 'out'): TimeStatus => {
+  if (!evaluation.occurrence) {
+    return { status: 'Unscheduled', style: { textColor: [100, 100, 100] } }; // Grey
+  }
 
   if (type === 'in') {
-    if (hours < CHECK_IN_DEADLINE_HOUR || (hours === CHECK_IN_DEADLINE_HOUR && minutes <= CHECK_IN_DEADLINE_MINUTE)) {
-      return { status: 'On Time', style: { textColor: [0, 100, 0] } }; // Green
-    }
-    if (hours === CHECK_IN_DEADLINE_HOUR && minutes > CHECK_IN_DEADLINE_MINUTE) {
+    if (evaluation.isLate) {
       return { status: 'Late', style: { textColor: [255, 0, 0] } }; // Red
     }
-    return { status: 'Late', style: { textColor: [255, 0, 0] } }; // Red for hours > 8
+    return { status: 'On Time', style: { textColor: [0, 100, 0] } }; // Green
   } else { // type === 'out'
-    if (hours < CHECK_OUT_DEADLINE_HOUR) {
+    if (evaluation.isEarlyLeave) {
       return { status: 'Early', style: { textColor: [239, 68, 68] } }; // Orange/Red
     }
     return { status: 'On Time', style: { textColor: [0, 0, 0] } }; // Black
@@ -28,7 +30,13 @@ const getTimeStatus = (date: Date, type: 'in' | 'out'): { status: string, style:
 };
 
 
-export const generateAttendancePDF = (records: AttendanceRecord[], hospitalName: string) => {
+export const generateAttendancePDF = (
+  records: AttendanceRecord[],
+  hospital: Hospital,
+  absences: RosterEntry[] = [],
+  anomalies: Map<string, Anomaly[]> = new Map() // From detectAnomalies
+) => {
+  const hospitalName = hospital.name;
   const doc = new jspdf.jsPDF();
   const tableColumn = [
     "Staff Name", 
@@ -48,15 +56,51 @@ export const generateAttendancePDF = (records: AttendanceRecord[], hospitalName:
     const checkInTime = checkInDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
     const checkOutTime = checkOutDate ? checkOutDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : 'N/A';
     
-    const checkInStatus = getTimeStatus(checkInDate, 'in');
-    const checkOutStatus = checkOutDate ? getTimeStatus(checkOutDate, 'out') : { status: 'N/A', style: { textColor: [0,0,0]}};
+    const evaluation = evaluateRecord(record, hospital);
+    const checkInStatus = getTimeStatus(evaluation, 'in');
+    const checkOutStatus = !checkOutDate
+      ? { status: 'N/A', style: { textColor: [0,0,0]}}
+      : record.checkOutStatus === 'AUTO_CLOSED'
+        ? { status: 'Auto-closed', style: { textColor: [234, 88, 12] } } // Orange
+        : getTimeStatus(evaluation, 'out');
     
     let notes = [];
+    if (evaluation.occurrence) {
+      notes.push(`Shift: ${evaluation.occurrence.shift.name}`);
+    }
+    if (record.zoneName) {
+      notes.push(`Zone: ${record.zoneName}`);
+    }
     if (record.flagged) {
       notes.push(`Location Flagged (${Math.round(record.distanceFromCenter)}m)`);
     }
-    if (record.anomaly === 'DEVICE_MISMATCH') {
-      notes.push('DEVICE MISMATCH!');
+    if (record.checkInVerification && record.checkInVerification !== 'VERIFIED') {
+      notes.push(`In: ${VERIFICATION_LABELS[record.checkInVerification]} (±${Math.round(record.checkInCoords.accuracy || 0)}m)`);
+    }
+    if (record.checkOutVerification && record.checkOutVerification !== 'VERIFIED') {
+      notes.push(`Out: ${VERIFICATION_LABELS[record.checkOutVerification]}`);
+    }
+    const recordAnomalies = anomalies.get(record.id) || [];
+    recordAnomalies.forEach(anomaly => {
+      const note = `${SEVERITY_LABELS[anomaly.severity]}: ${describeAnomaly(anomaly)}`;
+      notes.push(anomaly.severity === 'HIGH' ? `${note.toUpperCase()}!` : note);
+    });
+    if (record.checkInDeviceCheck === 'OVERRIDDEN' || record.checkOutDeviceCheck === 'OVERRIDDEN') {
+      notes.push('Device: manager override');
+    }
+    if (record.checkOutStatus === 'AUTO_CLOSED') {
+      notes.push(`AUTO-CLOSED: ${AUTO_CLOSE_RULE_LABELS[record.autoCloseRule || 'MAX_LENGTH']} (duration capped)`);
+    }
+    if (record.correction) {
+      const originalIn = new Date(record.correction.originalCheckInTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+      const originalOut = record.correction.originalCheckOutTime
+        ? new Date(record.correction.originalCheckOutTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+        : 'N/A';
+      notes.push(`Corrected by ${record.correction.correctedBy} (was ${originalIn}-${originalOut}): ${record.correction.reason}`);
+    }
+    const reviewStatus = getReviewStatus(record, recordAnomalies);
+    if (reviewStatus) {
+      notes.push(`Review: ${REVIEW_LABELS[reviewStatus]}${record.reviewedBy ? ` by ${record.reviewedBy}` : ''}${record.reviewNote ? ` - ${record.reviewNote}` : ''}`);
     }
     notes.push(`Device: ...${(record.checkInDeviceId || '').slice(-6)}`);
 
@@ -67,7 +111,7 @@ export const generateAttendancePDF = (records: AttendanceRecord[], hospitalName:
       { content: `${checkInTime} (${checkInStatus.status})`, styles: checkInStatus.style },
       { content: `${checkOutTime} (${checkOutStatus.status})`, styles: checkOutStatus.style },
       record.durationMinutes || 'N/A',
-      { content: notes.join('\n'), styles: { textColor: record.anomaly ? [255,0,0] : [0,0,0], fontSize: 8 } },
+      { content: notes.join('\n'), styles: { textColor: (recordAnomalies.some(a => a.severity === 'HIGH') && reviewStatus !== 'APPROVED') || reviewStatus === 'REJECTED' ? [255,0,0] : [0,0,0], fontSize: 8 } },
     ];
     tableRows.push(recordData);
   });
@@ -99,6 +143,35 @@ export const generateAttendancePDF = (records: AttendanceRecord[], hospitalName:
       fontStyle: 'bold',
     },
   });
+
+  // Rostered shifts nobody checked in for
+  if (absences.length > 0) {
+    const startY = doc.lastAutoTable.finalY + 12;
+    doc.setFontSize(12);
+    doc.setTextColor(40);
+    doc.text(`Absences (${absences.length})`, 14, startY - 3);
+
+    doc.autoTable({
+      head: [["Staff Name", "Date", "Shift", "Scheduled", "Status"]],
+      body: absences.map(entry => [
+        entry.userName,
+        entry.occurrence.start.toLocaleDateString(),
+        entry.occurrence.shift.name,
+        formatShiftWindow(entry.occurrence.shift),
+        { content: entry.status === 'NO_SHOW' ? 'No-Show' : 'Absent', styles: { textColor: [255, 0, 0] } },
+      ]),
+      startY,
+      styles: {
+        fontSize: 9,
+        cellPadding: 2,
+      },
+      headStyles: {
+        fillColor: [220, 38, 38], // Red
+        fontSize: 10,
+        fontStyle: 'bold',
+      },
+    });
+  }
   
   // Format filename
   const safeHospitalName = hospitalName.replace(/[^a-z0-9]/gi, '_').toLowerCase();
@@ -0,0 +1,90 @@
+// QR codes for offline hand-over between devices. A transfer code is too long for one QR code,
+// so it is split into numbered frames that the sender cycles through and the scanner collects
+// in any order. Frame text: MGQR:<set id>:<part>:<total>:<chunk>
+// This file assumes qrcode-generator and jsQR are loaded from CDN in index.html
+declare const qrcode: any;
+declare const jsQR: any;
+
+const FRAME_PREFIX = 'MGQR';
+// Keeps each frame at a QR version phone cameras read reliably at arm's length
+const FRAME_CHUNK_SIZE = 500;
+export const FRAME_INTERVAL_MS = 600;
+
+export interface FrameProgress {
+  received: number;
+  total: number;
+  data?: string; // Set once every frame of the set has been seen
+}
+
+export const splitIntoFrames = (data: string): string[] => {
+  const setId = crypto.randomUUID().slice(0, 8);
+  const total = Math.max(1, Math.ceil(data.length / FRAME_CHUNK_SIZE));
+  return Array.from({ length: total }, (_, i) =>
+    `${FRAME_PREFIX}:${setId}:${i + 1}:${total}:${data.slice(i * FRAME_CHUNK_SIZE, (i + 1) * FRAME_CHUNK_SIZE)}`
+  );
+};
+
+// Collects the frames of one set; a frame from a different set starts over
+export const createFrameCollector = () => {
+  let setId = '';
+  let parts: (string | null)[] = [];
+
+  return {
+    add: (text: string): FrameProgress | null => {
+      const [prefix, id, part, count] = text.split(':', 4);
+      const index = Number(part) - 1;
+      const total = Number(count);
+      if (prefix !== FRAME_PREFIX || !id || !Number.isInteger(total) || total < 1 || !(index >= 0 && index < total)) return null;
+
+      if (id !== setId || parts.length !== total) {
+        setId = id;
+        parts = new Array(total).fill(null);
+      }
+      parts[index] = text.slice([prefix, id, part, count].join(':').length + 1);
+
+      const received = parts.filter(p => p !== null).length;
+      return received === total ? { received, total, data: parts.join('') } : { received, total };
+    }
+  };
+};
+
+// GIF data URL for an <img>, or null when the text does not fit in a QR code
+export const renderQrDataUrl = (text: string, cellSize = 4): string | null => {
+  try {
+    const qr = qrcode(0, 'L');
+    qr.addData(text);
+    qr.make();
+    return qr.createDataURL(cellSize, cellSize * 4);
+  } catch (err) {
+    console.error("Failed to render QR code:", err);
+    return null;
+  }
+};
+
+// Uses the browser's BarcodeDetector where available, and jsQR on a canvas snapshot otherwise
+let detector: any = null;
+let detectorFailed = false;
+
+export const scanVideoFrame = async (video: HTMLVideoElement, canvas: HTMLCanvasElement): Promise<string | null> => {
+  if (video.readyState < video.HAVE_ENOUGH_DATA) return null;
+
+  const BarcodeDetector = (window as any).BarcodeDetector;
+  if (BarcodeDetector && !detectorFailed) {
+    try {
+      detector = detector || new BarcodeDetector({ formats: ['qr_code'] });
+      const codes = await detector.detect(video);
+      return codes[0]?.rawValue || null;
+    } catch {
+      // QR codes unsupported on this platform: use jsQR from now on
+      detectorFailed = true;
+    }
+  }
+
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+  const image = context.getImageData(0, 0, canvas.width, canvas.height);
+  return jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' })?.data || null;
+};
@@ -0,0 +1,141 @@
+import { openDatabase, requestResult, transactionDone, StoreName } from './indexedDb';
+
+export interface Entity {
+  id: string;
+}
+
+// Persistence for one collection. Writes touch only the given records, never the whole collection.
+export interface Repository<T extends Entity> {
+  getAll: () => Promise<T[]>;
+  putMany: (items: T[]) => Promise<void>;
+  removeMany: (ids: string[]) => Promise<void>;
+}
+
+// `orderBy` loads records sorted by an indexed field instead of by id
+export const createIndexedDbRepository = <T extends Entity>(store: StoreName, orderBy?: string): Repository<T> => {
+  const write = async (apply: (objectStore: IDBObjectStore) => void) => {
+    const db = await openDatabase();
+    const transaction = db.transaction(store, 'readwrite');
+    apply(transaction.objectStore(store));
+    await transactionDone(transaction);
+  };
+
+  return {
+    getAll: async () => {
+      const db = await openDatabase();
+      const objectStore = db.transaction(store).objectStore(store);
+      return requestResult<T[]>(orderBy ? objectStore.index(orderBy).getAll() : objectStore.getAll());
+    },
+    putMany: items => write(objectStore => items.forEach(item => objectStore.put(item))),
+    removeMany: ids => write(objectStore => ids.forEach(id => objectStore.delete(id))),
+  };
+};
+
+// Fallback for browsers without IndexedDB: the original single JSON blob per collection
+export const createLocalStorageRepository = <T extends Entity>(key: string): Repository<T> => {
+  const read = (): T[] => {
+    const data = localStorage.getItem(key);
+    return data ? JSON.parse(data) : [];
+  };
+  const save = (items: T[]) => localStorage.setItem(key, JSON.stringify(items));
+
+  return {
+    getAll: async () => read(),
+    putMany: async items => {
+      const byId = new Map(read().map(item => [item.id, item]));
+      items.forEach(item => byId.set(item.id, item));
+      save(Array.from(byId.values()));
+    },
+    removeMany: async ids => {
+      const removed = new Set(ids);
+      save(read().filter(item => !removed.has(item.id)));
+    },
+  };
+};
+
+// --- In-Memory Cache ---
+// Keeps storage.ts synchronous: reads come from memory, writes update memory immediately
+// and are persisted to the repository in order in the background.
+
+let pendingWrites: Promise<void> = Promise.resolve();
+
+const enqueueWrite = (write: () => Promise<void>) => {
+  pendingWrites = pendingWrites.then(write).catch(err => console.error("Storage write failed:", err));
+};
+
+export interface CachedCollection<T extends Entity> {
+  load: (repository: Repository<T>) => Promise<void>;
+  all: () => T[];
+  get: (id: string) => T | undefined;
+  where: (field: string, value: string) => T[];
+  put: (item: T) => void;
+  remove: (ids: string[]) => void;
+  replaceAll: (items: T[]) => void;
+}
+
+// `lookupFields` are kept in memory lookups so `where` does not scan the collection
+export const createCachedCollection = <T extends Entity>(lookupFields: string[] = []): CachedCollection<T> => {
+  let repository: Repository<T> | null = null;
+  const items = new Map<string, T>();
+  const lookups = new Map(lookupFields.map(field => [field, new Map<string, Set<string>>()]));
+
+  const fieldValue = (item: T, field: string) => (item as unknown as Record<string, string | undefined>)[field];
+
+  const setItem = (item: T) => {
+    const previous = items.get(item.id);
+    lookups.forEach((lookup, field) => {
+      if (previous) lookup.get(fieldValue(previous, field) ?? '')?.delete(item.id);
+      const value = fieldValue(item, field) ?? '';
+      if (!lookup.has(value)) lookup.set(value, new Set());
+      lookup.get(value)!.add(item.id);
+    });
+    items.set(item.id, item);
+  };
+
+  const deleteItem = (id: string): boolean => {
+    const previous = items.get(id);
+    if (!previous) return false;
+    lookups.forEach((lookup, field) => lookup.get(fieldValue(previous, field) ?? '')?.delete(id));
+    items.delete(id);
+    return true;
+  };
+
+  const persist = (changed: T[], removedIds: string[]) => {
+    const target = repository;
+    if (!target) return;
+    if (changed.length > 0) enqueueWrite(() => target.putMany(changed));
+    if (removedIds.length > 0) enqueueWrite(() => target.removeMany(removedIds));
+  };
+
+  return {
+    load: async (source) => {
+      repository = source;
+      items.clear();
+      lookups.forEach(lookup => lookup.clear());
+      (await source.getAll()).forEach(setItem);
+    },
+    all: () => Array.from(items.values()),
+    get: id => items.get(id),
+    where: (field, value) => {
+      const lookup = lookups.get(field);
+      if (!lookup) return Array.from(items.values()).filter(item => fieldValue(item, field) === value);
+      return Array.from(lookup.get(value) || [], id => items.get(id)!);
+    },
+    put: item => {
+      setItem(item);
+      persist([item], []);
+    },
+    remove: ids => {
+      persist([], ids.filter(deleteItem));
+    },
+    // Unchanged items (same object) are not rewritten
+    replaceAll: next => {
+      const nextIds = new Set(next.map(item => item.id));
+      const removedIds = Array.from(items.keys()).filter(id => !nextIds.has(id));
+      removedIds.forEach(deleteItem);
+      const changed = next.filter(item => items.get(item.id) !== item);
+      changed.forEach(setItem);
+      persist(changed, removedIds);
+    },
+  };
+};
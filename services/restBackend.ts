@@ -0,0 +1,37 @@
+import { MemoryBackend } from './memoryBackend';
+
+// Client for the mock API served by the dev server (mockApi.ts). Each backend method is one
+// POST to `<baseUrl>/<method>` with the arguments as a JSON array.
+export const createRestBackend = (baseUrl: string): MemoryBackend => {
+  const call = async <T>(method: keyof MemoryBackend, ...args: unknown[]): Promise<T> => {
+    const response = await fetch(`${baseUrl}/${method}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(args),
+    });
+    const payload = await response.json().catch(() => ({ error: `Mock API returned ${response.status}` }));
+    if (!response.ok || payload.error) throw new Error(payload.error || `Mock API returned ${response.status}`);
+    return payload.data;
+  };
+
+  return {
+    kind: 'rest',
+    selectByIds: (table, ids) => call('selectByIds', table, ids),
+    selectIds: (table, filter) => call('selectIds', table, filter),
+    selectChangedSince: (table, column, since, filter, window) => call('selectChangedSince', table, column, since, filter, window),
+    selectLatest: (table, orderColumn, limit, filter) => call('selectLatest', table, orderColumn, limit, filter),
+    upsert: (table, row) => call('upsert', table, row),
+    insertMissing: (table, rows) => call('insertMissing', table, rows),
+    remove: (table, id) => call('remove', table, id),
+    getSchemaVersion: () => call('getSchemaVersion'),
+    applyMigrations: (migrations) => call('applyMigrations', migrations),
+    startSession: (role, login, secret) => call('startSession', role, login, secret),
+    endSession: (token) => call('endSession', token),
+    isInitialized: () => call('isInitialized'),
+    registerFirstAdmin: (admin) => call('registerFirstAdmin', admin),
+    getConfigSigningKeys: (hospitalId) => call('getConfigSigningKeys', hospitalId),
+    setFailure: (message) => call('setFailure', message),
+    reset: () => call('reset'),
+    setSchemaVersion: (version) => call('setSchemaVersion', version),
+  };
+};
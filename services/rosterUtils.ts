@@ -0,0 +1,93 @@
+import { AttendanceRecord, Hospital, RosterAssignment, User } from '../types';
+import { getHospitalShifts, getShiftOccurrence, isWithinShiftWindow, ShiftOccurrence } from './shiftUtils';
+
+export type RosterStatus = 'ATTENDED' | 'NO_SHOW' | 'ABSENT' | 'UPCOMING';
+
+export interface RosterEntry {
+  assignment: RosterAssignment;
+  userName: string;
+  occurrence: ShiftOccurrence;
+  status: RosterStatus;
+  record?: AttendanceRecord;
+}
+
+export interface RosterComparison {
+  entries: RosterEntry[];
+  noShows: RosterEntry[]; // Shift in progress, past grace, no check-in yet
+  absences: RosterEntry[]; // Shift ended without a check-in
+  unscheduled: AttendanceRecord[]; // Check-ins that match no roster assignment
+}
+
+// Roster dates are local calendar days, so avoid Date's UTC parsing of "YYYY-MM-DD"
+export const parseRosterDate = (date: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const toRosterDate = (date: Date): string => {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const compareRosterToAttendance = (
+  hospital: Hospital,
+  assignments: RosterAssignment[],
+  records: AttendanceRecord[],
+  staff: User[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  now: Date = new Date()
+): RosterComparison => {
+  const shifts = getHospitalShifts(hospital);
+  const inRange = (time: Date) => time >= rangeStart && time <= rangeEnd;
+
+  const hospitalRecords = records.filter(r => r.hospitalId === hospital.id && inRange(new Date(r.checkInTime)));
+  const matchedRecordIds = new Set<string>();
+  const entries: RosterEntry[] = [];
+
+  assignments
+    .filter(a => a.hospitalId === hospital.id)
+    .forEach(assignment => {
+      const shift = shifts.find(s => s.id === assignment.shiftId);
+      if (!shift) return; // Shift was removed from the schedule
+
+      const occurrence = getShiftOccurrence(shift, parseRosterDate(assignment.date));
+      if (!inRange(occurrence.start)) return;
+
+      const record = hospitalRecords.find(r =>
+        r.userId === assignment.userId &&
+        !matchedRecordIds.has(r.id) &&
+        isWithinShiftWindow(new Date(r.checkInTime), occurrence)
+      );
+
+      let status: RosterStatus;
+      if (record) {
+        matchedRecordIds.add(record.id);
+        status = 'ATTENDED';
+      } else if (now >= occurrence.end) {
+        status = 'ABSENT';
+      } else if (now.getTime() > occurrence.start.getTime() + shift.graceMinutes * 60000) {
+        status = 'NO_SHOW';
+      } else {
+        status = 'UPCOMING';
+      }
+
+      entries.push({
+        assignment,
+        userName: staff.find(u => u.id === assignment.userId)?.name || 'Unknown Staff',
+        occurrence,
+        status,
+        record,
+      });
+    });
+
+  entries.sort((a, b) => a.occurrence.start.getTime() - b.occurrence.start.getTime());
+
+  return {
+    entries,
+    noShows: entries.filter(e => e.status === 'NO_SHOW'),
+    absences: entries.filter(e => e.status === 'ABSENT'),
+    unscheduled: hospitalRecords.filter(r => !matchedRecordIds.has(r.id)),
+  };
+};
@@ -0,0 +1,627 @@
+// Cloud database schema, as numbered migrations. Each one is applied once, in order, and
+// records itself in `schema_version`. Never edit a released migration: add a new one.
+// Kept free of browser APIs so the dev server's mock backend can import it.
+
+export interface SchemaMigration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+const SYNCED_TABLES = ['hospitals', 'users', 'attendance_records', 'roster_assignments', 'correction_requests'];
+
+const enableRls = (table: string) => `alter table public.${table} enable row level security;`;
+
+// Demo setup: the anon key can read and write everything
+const allowAllForAnon = (table: string) => `drop policy if exists "Allow all for anon" on public.${table};
+create policy "Allow all for anon" on public.${table} for all using (true) with check (true);`;
+
+// Renames are skipped when the column was already renamed
+const renameColumn = (table: string, from: string, to: string) => `  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = '${table}' and column_name = '${from}'
+  ) then
+    alter table public.${table} rename column "${from}" to ${to};
+  end if;`;
+
+const createIndex = (table: string, column: string) =>
+  `create index if not exists ${table}_${column}_idx on public.${table} (${column});`;
+
+const addForeignKey = (table: string, column: string, references: string) => `alter table public.${table} drop constraint if exists ${table}_${column}_fkey;
+alter table public.${table} add constraint ${table}_${column}_fkey foreign key (${column}) references public.${references} (id) on delete cascade;`;
+
+// Cloud sign-in throttling (migration 10): each run of failures locks the login for the next step
+export const SESSION_FAILURES_PER_LOCKOUT = 5;
+export const SESSION_LOCKOUT_MINUTES = [5, 15, 60, 240, 1440];
+
+// What a staff session may change on its own attendance rows (migration 11). Flags and
+// anomalies can only be raised, not cleared.
+const STAFF_CHECK_OUT_COLUMNS = [
+  'check_out_time', 'check_out_coords', 'check_out_verification', 'check_out_zone_name', 'check_out_device_id',
+  'check_out_device_check', 'check_out_status', 'auto_close_rule', 'duration_minutes', 'flagged', 'anomaly',
+  'device_signature', 'updated_at',
+];
+
+// --- Tenancy (migration 5) ---
+// Every request carries a session token (see supabaseClient.ts) that start_session() issued
+// after checking the caller's password or PIN. Policies scope rows by the session's role.
+const isAdmin = `public.session_role() = 'ADMIN'`;
+// Columns still stored as text compare against the text form of the session ids
+const sessionId = (kind: 'hospital' | 'user', asText: boolean) => `public.session_${kind}_id()${asText ? '::text' : ''}`;
+const ownHospital = (column: string, asText = false) =>
+  `public.session_role() = 'HOSPITAL' and ${column} = ${sessionId('hospital', asText)}`;
+const ownStaffRow = (column: string, asText = false) =>
+  `public.session_role() = 'STAFF' and ${column} = ${sessionId('user', asText)}`;
+// Staff rows must also stay inside the staff member's hospital
+const ownStaffRowInHospital = (userColumn: string, asText = false) =>
+  `${ownStaffRow(userColumn, asText)} and hospital_id = ${sessionId('hospital', asText)}`;
+
+const LEGACY_POLICIES = ['Allow all for anon', 'Allow read for anon', 'Allow insert for anon', 'Anon All', 'Anon Read', 'Anon Insert'];
+
+const dropLegacyPolicies = (table: string) =>
+  LEGACY_POLICIES.map(name => `drop policy if exists "${name}" on public.${table};`).join('\n');
+
+type PolicyCommand = 'all' | 'select' | 'insert' | 'update';
+
+const policy = (table: string, name: string, command: PolicyCommand, using?: string, check?: string) => {
+  const clauses = [
+    command !== 'insert' && using ? `using (${using})` : '',
+    command !== 'select' && (check || using) ? `with check (${check || using})` : '',
+  ].filter(Boolean).join(' ');
+  return `drop policy if exists "${name}" on public.${table};
+create policy "${name}" on public.${table} for ${command} ${clauses};`;
+};
+
+// Text columns that hold record ids become uuid so they can carry foreign keys ('' means none)
+const toUuid = (table: string, column: string) =>
+  `alter table public.${table} alter column ${column} type uuid using nullif(${column}::text, '')::uuid;`;
+
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    sql: `create table if not exists public.schema_version (
+  version integer not null primary key,
+  name text not null,
+  applied_at timestamptz not null default now()
+);
+
+create table if not exists public.hospitals (
+  id uuid not null primary key,
+  name text not null,
+  "registrationNumber" text,
+  username text,
+  password text,
+  "logViewPassword" text,
+  coords jsonb,
+  radius numeric,
+  "emailReportConfig" jsonb
+);
+
+create table if not exists public.users (
+  id uuid not null primary key,
+  name text not null,
+  role text,
+  hospital_id text,
+  pin text,
+  bound_device_id text,
+  profile_picture text
+);
+
+create table if not exists public.attendance_records (
+  id uuid not null primary key,
+  user_id text,
+  user_name text,
+  hospital_id text,
+  hospital_name text,
+  check_in_time text,
+  check_out_time text,
+  check_in_coords jsonb,
+  check_out_coords jsonb,
+  flagged boolean,
+  distance_from_center numeric,
+  duration_minutes numeric,
+  check_in_device_id text,
+  check_out_device_id text,
+  anomaly text
+);
+
+${['schema_version', 'hospitals', 'users', 'attendance_records'].map(enableRls).join('\n')}
+
+drop policy if exists "Allow read for anon" on public.schema_version;
+create policy "Allow read for anon" on public.schema_version for select using (true);
+${['hospitals', 'users', 'attendance_records'].map(allowAllForAnon).join('\n')}`
+  },
+  {
+    version: 2,
+    name: 'rosters_reviews_and_audit',
+    sql: `alter table public.hospitals
+  add column if not exists "registeredBy" text,
+  add column if not exists zones jsonb,
+  add column if not exists shifts jsonb,
+  add column if not exists "autoClosePolicy" jsonb,
+  add column if not exists "updatedAt" text;
+
+alter table public.users
+  add column if not exists username text,
+  add column if not exists updated_at text;
+
+alter table public.attendance_records
+  add column if not exists check_in_verification text,
+  add column if not exists check_out_verification text,
+  add column if not exists zone_name text,
+  add column if not exists check_out_zone_name text,
+  add column if not exists check_out_status text,
+  add column if not exists auto_close_rule text,
+  add column if not exists correction jsonb,
+  add column if not exists review_status text,
+  add column if not exists review_note text,
+  add column if not exists reviewed_by text,
+  add column if not exists reviewed_at text,
+  add column if not exists updated_at text;
+
+create table if not exists public.roster_assignments (
+  id uuid not null primary key,
+  hospital_id text,
+  user_id text,
+  shift_id text,
+  date text,
+  updated_at text
+);
+
+create table if not exists public.correction_requests (
+  id uuid not null primary key,
+  record_id text,
+  user_id text,
+  user_name text,
+  hospital_id text,
+  proposed_check_in_time text,
+  proposed_check_out_time text,
+  note text,
+  status text,
+  created_at text,
+  updated_at text,
+  resolved_by text,
+  resolved_at text,
+  resolution_note text
+);
+
+-- Append-only: anon may read and insert, never update or delete
+create table if not exists public.audit_log (
+  id uuid not null primary key,
+  timestamp text,
+  actor_id text,
+  actor_name text,
+  actor_role text,
+  action text,
+  entity_type text,
+  entity_id text,
+  entity_label text,
+  hospital_id text,
+  changes jsonb,
+  device_id text
+);
+
+${['roster_assignments', 'correction_requests', 'audit_log'].map(enableRls).join('\n')}
+
+${['roster_assignments', 'correction_requests'].map(allowAllForAnon).join('\n')}
+drop policy if exists "Allow read for anon" on public.audit_log;
+create policy "Allow read for anon" on public.audit_log for select using (true);
+drop policy if exists "Allow insert for anon" on public.audit_log;
+create policy "Allow insert for anon" on public.audit_log for insert with check (true);`
+  },
+  {
+    version: 3,
+    name: 'snake_case_hospital_columns',
+    sql: `do $$
+begin
+${[
+  ['registrationNumber', 'registration_number'],
+  ['logViewPassword', 'log_view_password'],
+  ['registeredBy', 'registered_by'],
+  ['autoClosePolicy', 'auto_close_policy'],
+  ['emailReportConfig', 'email_report_config'],
+  ['updatedAt', 'updated_at'],
+].map(([from, to]) => renameColumn('hospitals', from, to)).join('\n')}
+end $$;`
+  },
+  {
+    version: 4,
+    name: 'timestamps_indexes_and_foreign_keys',
+    sql: `-- Server-side insert time. The app's own versions stay in the text updated_at columns,
+-- which hold ISO strings that sync compares as text.
+${[...SYNCED_TABLES, 'audit_log'].map(table =>
+  `alter table public.${table} add column if not exists inserted_at timestamptz not null default now();`
+).join('\n')}
+
+-- Rows left behind by deletes made before cascades existed would block the new keys
+delete from public.users where coalesce(hospital_id::text, '') <> '' and hospital_id::text not in (select id::text from public.hospitals);
+delete from public.roster_assignments where hospital_id::text not in (select id::text from public.hospitals);
+delete from public.roster_assignments where user_id::text not in (select id::text from public.users);
+delete from public.correction_requests where record_id::text not in (select id::text from public.attendance_records);
+
+${toUuid('users', 'hospital_id')}
+${toUuid('roster_assignments', 'hospital_id')}
+${toUuid('roster_assignments', 'user_id')}
+${toUuid('correction_requests', 'record_id')}
+
+-- Same cascades as local deletes. Attendance keeps no keys: records outlive deleted staff and hospitals.
+${addForeignKey('users', 'hospital_id', 'hospitals')}
+${addForeignKey('roster_assignments', 'hospital_id', 'hospitals')}
+${addForeignKey('roster_assignments', 'user_id', 'users')}
+${addForeignKey('correction_requests', 'record_id', 'attendance_records')}
+
+${[
+  ['users', 'hospital_id'],
+  ['attendance_records', 'hospital_id'],
+  ['attendance_records', 'user_id'],
+  ['attendance_records', 'check_in_time'],
+  ['roster_assignments', 'hospital_id'],
+  ['roster_assignments', 'user_id'],
+  ['correction_requests', 'hospital_id'],
+  ['correction_requests', 'user_id'],
+  ['audit_log', 'hospital_id'],
+  ['audit_log', 'timestamp'],
+  ...SYNCED_TABLES.map(table => [table, 'updated_at']),
+].map(([table, column]) => createIndex(table, column)).join('\n')}`
+  },
+  {
+    version: 5,
+    name: 'tenancy_and_row_level_security',
+    sql: `-- Issued by start_session(); readable only through the security definer functions below
+create table if not exists public.sync_sessions (
+  token uuid not null primary key default gen_random_uuid(),
+  role text not null check (role in ('ADMIN', 'HOSPITAL', 'STAFF')),
+  hospital_id uuid,
+  user_id uuid,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+${enableRls('sync_sessions')}
+
+-- The session named by the x-mediguard-session request header, if it is still valid
+create or replace function public.request_session() returns public.sync_sessions
+language sql stable security definer set search_path = public as $$
+  select s.* from public.sync_sessions s
+  where s.token::text = coalesce(current_setting('request.headers', true)::json ->> 'x-mediguard-session', '')
+    and s.expires_at > now();
+$$;
+
+create or replace function public.session_role() returns text
+language sql stable as $$ select (public.request_session()).role; $$;
+
+create or replace function public.session_hospital_id() returns uuid
+language sql stable as $$ select (public.request_session()).hospital_id; $$;
+
+create or replace function public.session_user_id() returns uuid
+language sql stable as $$ select (public.request_session()).user_id; $$;
+
+-- Stored secret for a login, or null. Admin usernames are case-insensitive; staff log in by id.
+create or replace function public.stored_secret(p_role text, p_login text) returns text
+language sql stable security definer set search_path = public as $$
+  select case p_role
+    when 'HOSPITAL' then (select password from public.hospitals where username = p_login limit 1)
+    when 'ADMIN' then (select pin from public.users where role = 'ADMIN' and lower(username) = lower(trim(p_login)) limit 1)
+    when 'STAFF' then (select pin from public.users where role = 'STAFF' and id::text = p_login limit 1)
+  end;
+$$;
+
+-- "pbkdf2$<iterations>$<salt>" so the client can derive the proof for start_session()
+create or replace function public.login_salt(p_role text, p_login text) returns text
+language sql stable security definer set search_path = public as $$
+  select left(s, length(s) - length(split_part(s, '$', 4)) - 1)
+  from (select public.stored_secret(p_role, p_login) as s) stored
+  where s like 'pbkdf2$%';
+$$;
+
+-- p_proof is the base64 PBKDF2 hash of the secret, as stored after the last '$'
+create or replace function public.start_session(p_role text, p_login text, p_proof text) returns json
+language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_secret text := public.stored_secret(p_role, p_login);
+  v_session public.sync_sessions;
+begin
+  if coalesce(p_proof, '') = '' or v_secret is null or v_secret not like 'pbkdf2$%' or split_part(v_secret, '$', 4) <> p_proof then
+    return null;
+  end if;
+
+  delete from public.sync_sessions where expires_at <= now();
+
+  insert into public.sync_sessions (role, hospital_id, user_id, expires_at)
+  select p_role,
+    case p_role
+      when 'HOSPITAL' then (select id from public.hospitals where username = p_login limit 1)
+      when 'STAFF' then (select hospital_id from public.users where id::text = p_login)
+    end,
+    case p_role
+      when 'ADMIN' then (select id from public.users where role = 'ADMIN' and lower(username) = lower(trim(p_login)) limit 1)
+      when 'STAFF' then p_login::uuid
+    end,
+    now() + interval '7 days'
+  returning * into v_session;
+
+  return json_build_object(
+    'token', v_session.token,
+    'role', v_session.role,
+    'hospitalId', v_session.hospital_id,
+    'userId', v_session.user_id,
+    'expiresAt', v_session.expires_at
+  );
+end $$;
+
+create or replace function public.end_session(p_token uuid) returns void
+language sql volatile security definer set search_path = public as $$
+  delete from public.sync_sessions where token = p_token;
+$$;
+
+-- Lets new devices tell a fresh project from one they have not signed in to yet
+create or replace function public.is_initialized() returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (select 1 from public.users where role = 'ADMIN') or exists (select 1 from public.hospitals);
+$$;
+
+-- The only write allowed without a session: the very first administrator
+create or replace function public.register_first_admin(p_admin json) returns boolean
+language plpgsql volatile security definer set search_path = public as $$
+begin
+  if public.is_initialized() then return false; end if;
+  insert into public.users (id, name, role, hospital_id, pin, username, updated_at)
+  values ((p_admin ->> 'id')::uuid, p_admin ->> 'name', 'ADMIN', null, p_admin ->> 'pin', p_admin ->> 'username', p_admin ->> 'updated_at');
+  return true;
+end $$;
+
+revoke execute on function public.stored_secret(text, text) from public, anon, authenticated;
+
+${[...SYNCED_TABLES, 'audit_log'].map(dropLegacyPolicies).join('\n')}
+
+${SYNCED_TABLES.map(table => policy(table, 'Admins manage everything', 'all', isAdmin)).join('\n')}
+
+-- Hospitals: their own row only. Staff never read it (it holds the manager's password hash);
+-- hospital settings reach staff phones through config links.
+${policy('hospitals', 'Hospitals read their own row', 'select', ownHospital('id'))}
+${policy('hospitals', 'Hospitals insert their own row', 'insert', undefined, ownHospital('id'))}
+${policy('hospitals', 'Hospitals update their own row', 'update', ownHospital('id'))}
+
+${policy('users', 'Hospitals manage their staff', 'all', ownHospital('hospital_id'), `${ownHospital('hospital_id')} and role = 'STAFF'`)}
+${policy('users', 'Staff read their own row', 'select', ownStaffRow('id'))}
+${policy('users', 'Staff update their own row', 'update', ownStaffRow('id'), `${ownStaffRowInHospital('id')} and role = 'STAFF'`)}
+
+${policy('attendance_records', 'Hospitals manage their attendance', 'all', ownHospital('hospital_id', true))}
+${policy('attendance_records', 'Staff read their own attendance', 'select', ownStaffRow('user_id', true))}
+${policy('attendance_records', 'Staff insert their own attendance', 'insert', undefined, ownStaffRowInHospital('user_id', true))}
+${policy('attendance_records', 'Staff update their own attendance', 'update', ownStaffRow('user_id', true), ownStaffRowInHospital('user_id', true))}
+
+${policy('roster_assignments', 'Hospitals manage their roster', 'all', ownHospital('hospital_id'))}
+${policy('roster_assignments', 'Staff read their own shifts', 'select', ownStaffRow('user_id'))}
+
+${policy('correction_requests', 'Hospitals manage their correction requests', 'all', ownHospital('hospital_id', true))}
+${policy('correction_requests', 'Staff read their own correction requests', 'select', ownStaffRow('user_id', true))}
+${policy('correction_requests', 'Staff submit correction requests', 'insert', undefined, `${ownStaffRowInHospital('user_id', true)} and status = 'PENDING'`)}
+${policy('correction_requests', 'Staff edit pending correction requests', 'update', `${ownStaffRow('user_id', true)} and status = 'PENDING'`, `${ownStaffRowInHospital('user_id', true)} and status = 'PENDING'`)}
+
+-- Still append-only, admins included; other sessions write entries for their own hospital
+${policy('audit_log', 'Admins read the audit log', 'select', isAdmin)}
+${policy('audit_log', 'Hospitals read their audit log', 'select', ownHospital('hospital_id', true))}
+${policy('audit_log', 'Sessions append to their audit log', 'insert', undefined, `${isAdmin} or (public.session_role() in ('HOSPITAL', 'STAFF') and hospital_id = ${sessionId('hospital', true)})`)}`
+  },
+  {
+    version: 6,
+    name: 'config_link_signing_keys',
+    sql: `alter table public.hospitals add column if not exists config_signing_keys jsonb;
+
+-- Public keys only, so a new device can verify a config link before anyone has signed in
+create or replace function public.hospital_config_keys(p_hospital_id uuid) returns jsonb
+language sql stable security definer set search_path = public as $$
+  select coalesce((select config_signing_keys from public.hospitals where id = p_hospital_id), '[]'::jsonb);
+$$;`
+  },
+  {
+    version: 7,
+    name: 'device_signatures',
+    sql: `alter table public.attendance_records add column if not exists device_signature jsonb;
+alter table public.users add column if not exists device_key text;`
+  },
+  {
+    version: 8,
+    name: 'device_enrollment',
+    sql: `-- Superseded by device enrollments
+alter table public.users drop column if exists device_key;
+
+create table if not exists public.devices (
+  id uuid not null primary key,
+  device_id text not null,
+  user_id uuid not null,
+  hospital_id uuid not null,
+  name text,
+  public_key text,
+  status text not null check (status in ('PENDING', 'APPROVED', 'REVOKED')),
+  enrolled_at text,
+  decided_by text,
+  decided_at text,
+  updated_at text,
+  inserted_at timestamptz not null default now()
+);
+${addForeignKey('devices', 'user_id', 'users')}
+${addForeignKey('devices', 'hospital_id', 'hospitals')}
+${['hospital_id', 'user_id', 'updated_at'].map(column => createIndex('devices', column)).join('\n')}
+${enableRls('devices')}
+
+${policy('devices', 'Admins manage everything', 'all', isAdmin)}
+${policy('devices', 'Hospitals manage their devices', 'all', ownHospital('hospital_id'))}
+${policy('devices', 'Staff read their own devices', 'select', ownStaffRow('user_id'))}
+-- Staff enroll devices but never decide on them, except that a first device is approved on enrollment
+${policy('devices', 'Staff enroll their devices', 'insert', undefined, `${ownStaffRowInHospital('user_id')} and (status = 'PENDING' or (status = 'APPROVED' and not exists (select 1 from public.devices d where d.user_id = devices.user_id)))`)}`
+  },
+  {
+    version: 9,
+    name: 'device_policy',
+    sql: `alter table public.hospitals add column if not exists device_policy jsonb;
+alter table public.attendance_records add column if not exists check_in_device_check text;
+alter table public.attendance_records add column if not exists check_out_device_check text;`
+  },
+  {
+    version: 10,
+    name: 'server_checked_sign_ins',
+    sql: `-- start_session() used to accept the stored hash itself as proof, so the hash that syncs to
+-- hospital devices doubled as the credential. The secret is now sent and hashed here.
+create extension if not exists pgcrypto with schema extensions;
+
+drop function if exists public.login_salt(text, text);
+drop function if exists public.start_session(text, text, text);
+
+-- PBKDF2-HMAC-SHA256 with one 32-byte block, as credentials.ts derives it
+create or replace function public.pbkdf2_sha256(p_secret text, p_salt bytea, p_iterations integer) returns bit(256)
+language plpgsql immutable strict set search_path = public, extensions as $$
+declare
+  v_key bytea := convert_to(p_secret, 'UTF8');
+  v_block bytea := extensions.hmac(p_salt || '\\x00000001'::bytea, v_key, 'sha256');
+  v_result bit(256) := ('x' || encode(v_block, 'hex'))::bit(256);
+begin
+  for i in 2..p_iterations loop
+    v_block := extensions.hmac(v_block, v_key, 'sha256');
+    v_result := v_result # ('x' || encode(v_block, 'hex'))::bit(256);
+  end loop;
+  return v_result;
+end $$;
+
+-- Stored values are "pbkdf2$<iterations>$<base64 salt>$<base64 hash>"; legacy plaintext never matches
+create or replace function public.secret_matches(p_secret text, p_stored text) returns boolean
+language plpgsql immutable set search_path = public as $$
+declare
+  v_iterations integer;
+begin
+  if coalesce(p_secret, '') = '' or coalesce(p_stored, '') !~ '^pbkdf2\\$[0-9]{1,7}\\$[^$]+\\$[^$]+$' then return false; end if;
+  v_iterations := split_part(p_stored, '$', 2)::integer;
+  -- Bounds the work an attacker-supplied row could cause
+  if v_iterations < 1 or v_iterations > 1000000 then return false; end if;
+  return public.pbkdf2_sha256(p_secret, decode(split_part(p_stored, '$', 3), 'base64'), v_iterations)
+    = ('x' || encode(decode(split_part(p_stored, '$', 4), 'base64'), 'hex'))::bit(256);
+end $$;
+
+-- Failed sign-ins per login. After every ${SESSION_FAILURES_PER_LOCKOUT} failures the login is locked, for longer each time.
+create table if not exists public.sign_in_attempts (
+  login_key text not null primary key,
+  failures integer not null default 0,
+  locked_until timestamptz
+);
+${enableRls('sign_in_attempts')}
+
+create or replace function public.start_session(p_role text, p_login text, p_secret text) returns json
+language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_key text := p_role || ':' || lower(trim(coalesce(p_login, '')));
+  v_attempts public.sign_in_attempts;
+  v_session public.sync_sessions;
+begin
+  select * into v_attempts from public.sign_in_attempts where login_key = v_key for update;
+  if v_attempts.locked_until > now() then
+    raise exception 'Too many failed sign-ins. Try again later.' using errcode = 'P0001';
+  end if;
+
+  if not public.secret_matches(p_secret, public.stored_secret(p_role, p_login)) then
+    insert into public.sign_in_attempts as a (login_key, failures) values (v_key, 1)
+    on conflict (login_key) do update set failures = a.failures + 1;
+    update public.sign_in_attempts
+    set locked_until = now() + make_interval(mins => (array[${SESSION_LOCKOUT_MINUTES.join(', ')}])[least(failures / ${SESSION_FAILURES_PER_LOCKOUT}, ${SESSION_LOCKOUT_MINUTES.length})])
+    where login_key = v_key and failures % ${SESSION_FAILURES_PER_LOCKOUT} = 0;
+    return null;
+  end if;
+  delete from public.sign_in_attempts where login_key = v_key;
+
+  delete from public.sync_sessions where expires_at <= now();
+
+  insert into public.sync_sessions (role, hospital_id, user_id, expires_at)
+  select p_role,
+    case p_role
+      when 'HOSPITAL' then (select id from public.hospitals where username = p_login limit 1)
+      when 'STAFF' then (select hospital_id from public.users where id::text = p_login)
+    end,
+    case p_role
+      when 'ADMIN' then (select id from public.users where role = 'ADMIN' and lower(username) = lower(trim(p_login)) limit 1)
+      when 'STAFF' then p_login::uuid
+    end,
+    now() + interval '7 days'
+  returning * into v_session;
+
+  return json_build_object(
+    'token', v_session.token,
+    'role', v_session.role,
+    'hospitalId', v_session.hospital_id,
+    'userId', v_session.user_id,
+    'expiresAt', v_session.expires_at
+  );
+end $$;
+
+revoke execute on function public.pbkdf2_sha256(text, bytea, integer) from public, anon, authenticated;
+revoke execute on function public.secret_matches(text, text) from public, anon, authenticated;`
+  },
+  {
+    version: 11,
+    name: 'staff_attendance_guard',
+    sql: `-- Row-level security only scopes staff to their own rows. This also keeps them to recording
+-- check-ins and check-outs: reviews and corrections stay with managers.
+create or replace function public.guard_staff_attendance() returns trigger
+language plpgsql set search_path = public as $$
+begin
+  if public.session_role() is distinct from 'STAFF' then return new; end if;
+
+  if tg_op = 'INSERT' then
+    if new.review_status is not null or new.review_note is not null or new.reviewed_by is not null
+      or new.reviewed_at is not null or new.correction is not null then
+      raise exception 'Staff cannot review or correct attendance' using errcode = '42501';
+    end if;
+    return new;
+  end if;
+
+  if (to_jsonb(new) - array[${STAFF_CHECK_OUT_COLUMNS.map(column => `'${column}'`).join(', ')}])
+      is distinct from (to_jsonb(old) - array[${STAFF_CHECK_OUT_COLUMNS.map(column => `'${column}'`).join(', ')}])
+    or (old.flagged and not coalesce(new.flagged, false))
+    or (old.anomaly is not null and new.anomaly is distinct from old.anomaly) then
+    raise exception 'Staff can only record their check-out' using errcode = '42501';
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists attendance_records_staff_guard on public.attendance_records;
+create trigger attendance_records_staff_guard before insert or update on public.attendance_records
+for each row execute function public.guard_staff_attendance();`
+  },
+  {
+    version: 12,
+    name: 'server_change_stamps',
+    sql: `-- updated_at is the app's version, written by whichever device made the edit. Pulls page
+-- through server_updated_at instead, so rows uploaded late or from a device with a slow clock
+-- are still seen by every other device.
+create or replace function public.stamp_server_updated_at() returns trigger
+language plpgsql as $$
+begin
+  new.server_updated_at := clock_timestamp();
+  return new;
+end $$;
+
+${[...SYNCED_TABLES, 'devices'].map(table => `alter table public.${table} add column if not exists server_updated_at timestamptz not null default clock_timestamp();
+-- Named to fire after attendance_records_staff_guard (same-event triggers run in name order)
+drop trigger if exists ${table}_stamp_server_updated_at on public.${table};
+create trigger ${table}_stamp_server_updated_at before insert or update on public.${table}
+for each row execute function public.stamp_server_updated_at();
+${createIndex(table, 'server_updated_at')}`).join('\n\n')}`
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+export const getPendingMigrations = (currentVersion: number): SchemaMigration[] => {
+  return SCHEMA_MIGRATIONS.filter(m => m.version > currentVersion);
+};
+
+// SQL for the Supabase SQL Editor: each migration runs in its own transaction and records its version
+export const buildMigrationScript = (migrations: SchemaMigration[]): string => {
+  return migrations.map(m => `-- Migration ${m.version}: ${m.name}
+begin;
+
+${m.sql}
+
+insert into public.schema_version (version, name) values (${m.version}, '${m.name}') on conflict (version) do nothing;
+
+commit;`).join('\n\n');
+};
@@ -0,0 +1,39 @@
+import { UserRole } from '../types';
+
+// Who is performing actions in this tab, so changes can be attributed
+export interface SessionActor {
+  id: string;
+  name: string;
+  role: UserRole;
+}
+
+let currentActor: SessionActor | null = null;
+
+export const setCurrentActor = (actor: SessionActor | null) => {
+  currentActor = actor;
+};
+
+export const getCurrentActor = (): SessionActor | null => currentActor;
+
+// Cloud access for this tab, issued by the backend after a password or PIN check.
+// Row-level security scopes every query to its role (see migration 5).
+export type CloudSessionRole = 'ADMIN' | 'HOSPITAL' | 'STAFF';
+
+export interface CloudSession {
+  token: string;
+  role: CloudSessionRole;
+  hospitalId?: string; // HOSPITAL and STAFF sessions
+  userId?: string; // ADMIN and STAFF sessions
+  expiresAt: string; // ISO string
+}
+
+let cloudSession: CloudSession | null = null;
+
+export const setCloudSession = (session: CloudSession | null) => {
+  cloudSession = session;
+};
+
+// Expired sessions are dropped here: the cloud would answer them with empty results
+export const getCloudSession = (): CloudSession | null => {
+  return cloudSession && new Date(cloudSession.expiresAt).getTime() > Date.now() ? cloudSession : null;
+};
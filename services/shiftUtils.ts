@@ -0,0 +1,119 @@
+import { AttendanceRecord, Hospital, ShiftTemplate } from '../types';
+
+// Used for hospitals without configured shifts. Mirrors the original fixed 08:00-17:00 schedule.
+export const DEFAULT_SHIFT: ShiftTemplate = {
+  id: 'default-day',
+  name: 'Day Shift',
+  startTime: '08:00',
+  endTime: '17:00',
+  graceMinutes: 5,
+  daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+};
+
+// How early before a shift starts a check-in is still attributed to that shift
+const EARLY_ARRIVAL_WINDOW_MINUTES = 240;
+
+export interface ShiftOccurrence {
+  shift: ShiftTemplate;
+  start: Date;
+  end: Date;
+}
+
+export interface ShiftEvaluation {
+  occurrence?: ShiftOccurrence; // Undefined when the check-in matches no scheduled shift
+  isLate: boolean;
+  lateMinutes: number;
+  isEarlyLeave: boolean;
+  earlyMinutes: number;
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+export const getHospitalShifts = (hospital?: Hospital): ShiftTemplate[] => {
+  return hospital?.shifts && hospital.shifts.length > 0 ? hospital.shifts : [DEFAULT_SHIFT];
+};
+
+export const isOvernightShift = (shift: ShiftTemplate): boolean => {
+  return toMinutes(shift.endTime) <= toMinutes(shift.startTime);
+};
+
+// Concrete start/end of a shift that begins on the given calendar day
+export const getShiftOccurrence = (shift: ShiftTemplate, day: Date): ShiftOccurrence => {
+  const start = new Date(day);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  start.setMinutes(toMinutes(shift.startTime));
+  end.setMinutes(toMinutes(shift.endTime));
+  if (isOvernightShift(shift)) end.setDate(end.getDate() + 1);
+  return { shift, start, end };
+};
+
+// True if a check-in at this time can be attributed to the occurrence
+export const isWithinShiftWindow = (time: Date, occurrence: ShiftOccurrence): boolean => {
+  const windowStart = occurrence.start.getTime() - EARLY_ARRIVAL_WINDOW_MINUTES * 60000;
+  return time.getTime() >= windowStart && time.getTime() < occurrence.end.getTime();
+};
+
+// Finds the shift occurrence a check-in belongs to: the one whose window (opening a few
+// hours before start) contains the time, preferring the closest start.
+export const matchShift = (time: Date, shifts: ShiftTemplate[]): ShiftOccurrence | undefined => {
+  let best: ShiftOccurrence | undefined;
+  let bestDiff = Infinity;
+
+  for (const offset of [-1, 0, 1]) {
+    const day = new Date(time);
+    day.setDate(day.getDate() + offset);
+
+    shifts.forEach(shift => {
+      if (!shift.daysOfWeek.includes(day.getDay())) return;
+      const occurrence = getShiftOccurrence(shift, day);
+      if (!isWithinShiftWindow(time, occurrence)) return;
+
+      const diff = Math.abs(time.getTime() - occurrence.start.getTime());
+      if (diff < bestDiff) {
+        best = occurrence;
+        bestDiff = diff;
+      }
+    });
+  }
+
+  return best;
+};
+
+export const evaluateShiftTimes = (checkIn: Date, checkOut: Date | null, hospital?: Hospital): ShiftEvaluation => {
+  const occurrence = matchShift(checkIn, getHospitalShifts(hospital));
+  if (!occurrence) {
+    return { isLate: false, lateMinutes: 0, isEarlyLeave: false, earlyMinutes: 0 };
+  }
+
+  // Whole minutes, so 08:05:59 is still within a 5 minute grace period
+  const minutesAfterStart = Math.floor((checkIn.getTime() - occurrence.start.getTime()) / 60000);
+  const isLate = minutesAfterStart > occurrence.shift.graceMinutes;
+
+  const msBeforeEnd = checkOut ? occurrence.end.getTime() - checkOut.getTime() : 0;
+  const isEarlyLeave = msBeforeEnd > 0;
+
+  return {
+    occurrence,
+    isLate,
+    lateMinutes: isLate ? minutesAfterStart : 0,
+    isEarlyLeave,
+    earlyMinutes: isEarlyLeave ? Math.ceil(msBeforeEnd / 60000) : 0,
+  };
+};
+
+// Shared lateness / early-leave evaluator for the PDF, AI summary and staff stats
+export const evaluateRecord = (record: AttendanceRecord, hospital?: Hospital): ShiftEvaluation => {
+  return evaluateShiftTimes(
+    new Date(record.checkInTime),
+    record.checkOutTime ? new Date(record.checkOutTime) : null,
+    hospital
+  );
+};
+
+export const formatShiftWindow = (shift: ShiftTemplate): string => {
+  return `${shift.startTime} - ${shift.endTime}${isOvernightShift(shift) ? ' (+1)' : ''}`;
+};
@@ -1,135 +1,128 @@
-import { Hospital, User, AttendanceRecord, UserRole } from '../types';
-import { supabase, isCloudConfigured } from './supabaseClient';
+import { Hospital, User, AttendanceRecord, UserRole, RosterAssignment, CorrectionRequest, Device, AuditEntry, AuditAction, AuditEntityType } from '../types';
+import { hashSecret, isHashedSecret, needsRehash, verifySecret } from './credentials';
+import { diffEntities } from './auditUtils';
+import { getAutoCloseDecision, applyAutoClose } from './autoClose';
+import { getCurrentActor } from './session';
+import { markDirty, isDirty, SyncTableName } from './syncState';
+import { resolveDeviceConflict } from './syncConflicts';
+import { openDatabase, StoreName } from './indexedDb';
+import { signAttendanceRecord, verifyAttendanceSignature } from './deviceSigning';
+import { createCachedCollection, createIndexedDbRepository, createLocalStorageRepository, CachedCollection, Repository, Entity } from './repository';
 
 const HOSPITALS_KEY = 'mediguard_hospitals';
 const USERS_KEY = 'mediguard_users';
 const ATTENDANCE_KEY = 'mediguard_attendance';
 const DEVICE_ID_KEY = 'mediguard_device_id';
+const ROSTER_KEY = 'mediguard_roster';
+const CORRECTION_REQUESTS_KEY = 'mediguard_correction_requests';
+const DEVICES_KEY = 'mediguard_devices';
+const AUDIT_KEY = 'mediguard_audit_log';
+// Entries already pushed to the cloud are trimmed locally beyond this count
+const MAX_LOCAL_SYNCED_AUDIT_ENTRIES = 2000;
+
+// --- Local Database ---
+// Collections live in IndexedDB and are cached in memory, so the functions below stay synchronous.
+// The mediguard_* keys are the pre-IndexedDB JSON blobs, kept for migration and as a fallback.
+const LEGACY_KEYS: Record<StoreName, string> = {
+  hospitals: HOSPITALS_KEY,
+  users: USERS_KEY,
+  attendance_records: ATTENDANCE_KEY,
+  roster_assignments: ROSTER_KEY,
+  correction_requests: CORRECTION_REQUESTS_KEY,
+  devices: DEVICES_KEY,
+  audit_log: AUDIT_KEY
+};
+
+// Records are loaded in chronological order where lists depend on it
+const LOAD_ORDER: Partial<Record<StoreName, string>> = {
+  attendance_records: 'checkInTime',
+  audit_log: 'timestamp'
+};
 
-// --- Synchronization Logic ---
+const collections = {
+  hospitals: createCachedCollection<Hospital>(),
+  users: createCachedCollection<User>(['hospitalId']),
+  attendance_records: createCachedCollection<AttendanceRecord>(['hospitalId', 'userId']),
+  roster_assignments: createCachedCollection<RosterAssignment>(['hospitalId', 'userId']),
+  correction_requests: createCachedCollection<CorrectionRequest>(['hospitalId', 'userId']),
+  devices: createCachedCollection<Device>(['hospitalId', 'userId']),
+  audit_log: createCachedCollection<AuditEntry>(['hospitalId'])
+};
 
-export const syncFromSupabase = async (): Promise<{success: boolean, message: string}> => {
-  if (!navigator.onLine) return { success: false, message: 'Offline' };
-  if (!isCloudConfigured) return { success: true, message: 'Local Mode Only' };
+// Untyped access for code that handles every store alike
+const collectionFor = (store: StoreName) => collections[store] as unknown as CachedCollection<Entity>;
 
+// One-time move of a legacy blob into IndexedDB; the key is only removed once the copy is committed
+const migrateLegacyKey = async <T extends Entity>(key: string, repository: Repository<T>) => {
+  const data = localStorage.getItem(key);
+  if (!data) return;
+  await repository.putMany(JSON.parse(data));
+  localStorage.removeItem(key);
+};
+
+// Must finish before any other function in this module is used
+export const initStorage = async () => {
+  let useIndexedDb = true;
   try {
-    // 1. Sync Hospitals
-    const { data: cloudHospitals, error: hError } = await supabase.from('hospitals').select('*');
-    
-    if (hError) {
-      console.warn("Sync Error (Hospitals):", hError.message);
-      // If error is due to missing table, do not overwrite local
-      return { success: false, message: 'Sync failed: Database error' };
-    }
+    await openDatabase();
+  } catch (err) {
+    console.warn("IndexedDB unavailable, using localStorage:", err);
+    useIndexedDb = false;
+  }
 
-    if (cloudHospitals) {
-      const localHospitals = getHospitals();
-      // INTELLIGENT SYNC: If cloud is empty but local has data, assume initialization and PUSH local to cloud
-      if (cloudHospitals.length === 0 && localHospitals.length > 0) {
-        console.log("Cloud empty. Pushing local hospitals...");
-        for (const h of localHospitals) {
-          const { error } = await supabase.from('hospitals').upsert(h);
-          if (error) console.error("Failed to push hospital:", error.message);
-        }
-      } else {
-        // Normal Sync: Cloud is truth
-        localStorage.setItem(HOSPITALS_KEY, JSON.stringify(cloudHospitals));
-      }
+  for (const store of Object.keys(collections) as StoreName[]) {
+    const collection = collectionFor(store);
+    if (!useIndexedDb) {
+      await collection.load(createLocalStorageRepository(LEGACY_KEYS[store]));
+      continue;
     }
+    const repository = createIndexedDbRepository<Entity>(store, LOAD_ORDER[store]);
+    await migrateLegacyKey(LEGACY_KEYS[store], repository);
+    await collection.load(repository);
+  }
+};
 
-    // 2. Sync Users
-    const { data: cloudUsers, error: uError } = await supabase.from('users').select('*');
-    
-    if (cloudUsers && !uError) {
-       const localUsers = getUsers();
-       if (cloudUsers.length === 0 && localUsers.length > 0) {
-         console.log("Cloud empty. Pushing local users...");
-         for (const u of localUsers) {
-           const dbUser = mapUserToDb(u);
-           await supabase.from('users').upsert(dbUser);
-         }
-       } else {
-         const mappedUsers = cloudUsers.map((u: any) => ({
-            id: u.id,
-            name: u.name,
-            role: u.role,
-            hospitalId: u.hospital_id,
-            pin: u.pin,
-            boundDeviceId: u.bound_device_id,
-            profilePicture: u.profile_picture
-          }));
-          localStorage.setItem(USERS_KEY, JSON.stringify(mappedUsers));
-       }
-    }
+// --- Raw Collection Access ---
+// Used by the sync engine to apply cloud data: no audit entries and no dirty tracking
+export const readCollection = <T extends Entity>(table: SyncTableName): T[] => {
+  return collectionFor(table).all() as T[];
+};
 
-    // 3. Sync Attendance
-    const { data: cloudAttendance, error: aError } = await supabase.from('attendance_records').select('*');
-    if (cloudAttendance && !aError) {
-       const localAttendance = getAttendanceRecords();
-       if (cloudAttendance.length === 0 && localAttendance.length > 0) {
-         console.log("Cloud empty. Pushing local attendance...");
-         for (const r of localAttendance) {
-            const dbRecord = mapAttendanceToDb(r);
-            await supabase.from('attendance_records').upsert(dbRecord);
-         }
-       } else {
-         const mappedAttendance = cloudAttendance.map((r: any) => ({
-           id: r.id,
-           userId: r.user_id,
-           userName: r.user_name,
-           hospitalId: r.hospital_id,
-           hospitalName: r.hospital_name,
-           checkInTime: r.check_in_time,
-           checkOutTime: r.check_out_time,
-           checkInCoords: r.check_in_coords,
-           checkOutCoords: r.check_out_coords,
-           flagged: r.flagged,
-           distanceFromCenter: r.distance_from_center,
-           durationMinutes: r.duration_minutes,
-           checkInDeviceId: r.check_in_device_id,
-           checkOutDeviceId: r.check_out_device_id,
-           anomaly: r.anomaly
-         }));
-         localStorage.setItem(ATTENDANCE_KEY, JSON.stringify(mappedAttendance));
-       }
-    }
+export const writeCollection = <T extends Entity>(table: SyncTableName, items: T[]) => {
+  collectionFor(table).replaceAll(items);
+};
 
-    return { success: true, message: 'Data synced' };
-  } catch (err) {
-    console.error("Sync Critical Error:", err);
-    return { success: false, message: 'Sync failed' };
-  }
+// --- Tenant Data ---
+// Property naming the hospital each record belongs to
+const TENANT_FIELDS: Record<SyncTableName, string> = {
+  hospitals: 'id',
+  users: 'hospitalId',
+  attendance_records: 'hospitalId',
+  roster_assignments: 'hospitalId',
+  correction_requests: 'hospitalId',
+  devices: 'hospitalId'
 };
 
-// --- Helpers for Mapping ---
-const mapUserToDb = (user: User) => ({
-  id: user.id,
-  name: user.name,
-  role: user.role,
-  hospital_id: user.hospitalId,
-  pin: user.pin,
-  bound_device_id: user.boundDeviceId,
-  profile_picture: user.profilePicture
-});
-
-const mapAttendanceToDb = (record: AttendanceRecord) => ({
-  id: record.id,
-  user_id: record.userId,
-  user_name: record.userName,
-  hospital_id: record.hospitalId,
-  hospital_name: record.hospitalName,
-  check_in_time: record.checkInTime,
-  check_out_time: record.checkOutTime,
-  check_in_coords: record.checkInCoords,
-  check_out_coords: record.checkOutCoords,
-  flagged: record.flagged,
-  distance_from_center: record.distanceFromCenter,
-  duration_minutes: record.durationMinutes,
-  check_in_device_id: record.checkInDeviceId,
-  check_out_device_id: record.checkOutDeviceId,
-  anomaly: record.anomaly
-});
+// Removes every other hospital's records from this device. Changes not yet pushed stay
+// so they still reach the cloud, and administrator accounts belong to no hospital.
+export const purgeOtherHospitals = (hospitalId: string): number => {
+  let removed = 0;
+  (Object.keys(TENANT_FIELDS) as SyncTableName[]).forEach(table => {
+    const field = TENANT_FIELDS[table];
+    const ids = readCollection<Entity & Record<string, any>>(table)
+      .filter(item => item[field] !== hospitalId && item.role !== UserRole.ADMIN && !isDirty(table, item.id))
+      .map(item => item.id);
+    if (ids.length > 0) collectionFor(table).remove(ids);
+    removed += ids.length;
+  });
+
+  const auditIds = collections.audit_log.all().filter(e => e.synced && e.hospitalId !== hospitalId).map(e => e.id);
+  if (auditIds.length > 0) collections.audit_log.remove(auditIds);
+  return removed + auditIds.length;
+};
 
+// Every local write gets a fresh version so the sync engine can detect conflicts
+const stamp = <T>(entity: T): T => ({ ...entity, updatedAt: new Date().toISOString() });
 
 // --- Device Security ---
 export const getOrCreateDeviceId = (): string => {
@@ -141,99 +134,62 @@ export const getOrCreateDeviceId = (): string => {
   return id;
 };
 
-// --- Config Sync (Legacy Link Generation) ---
-export const generateHospitalConfigLink = (hospitalId: string): string => {
-  const hospital = getHospitals().find(h => h.id === hospitalId);
-  const staff = getUsers().filter(u => u.hospitalId === hospitalId);
-  
-  if (!hospital) return '';
-
-  const payload = {
-    hospital,
-    staff,
-    timestamp: Date.now()
-  };
-
-  const encoded = btoa(JSON.stringify(payload));
-  const url = new URL(window.location.href);
-  url.searchParams.set('config', encoded);
-  return url.toString();
+// --- Config Links ---
+// Records from a verified config link (see configLinks.ts) are copies of the issuing device's data:
+// applied like pulled cloud data, without dirty flags or audit entries, and never over a newer or
+// unpushed local version. Fields the link leaves out keep their local values.
+const acceptsImport = (table: SyncTableName, incoming: { updatedAt?: string }, existing?: { id: string; updatedAt?: string }) => {
+  if (!existing) return true;
+  return !isDirty(table, existing.id) && (incoming.updatedAt || '') >= (existing.updatedAt || '');
 };
 
-export const importHospitalConfig = (encoded: string): { success: boolean, message: string, hospitalName?: string } => {
-  try {
-    const json = atob(encoded);
-    const payload = JSON.parse(json);
-    
-    if (!payload.hospital || !payload.staff) throw new Error("Invalid Config");
-
-    const hospitals = getHospitals();
-    const hIndex = hospitals.findIndex(h => h.id === payload.hospital.id);
-    if (hIndex >= 0) {
-      hospitals[hIndex] = payload.hospital;
-    } else {
-      hospitals.push(payload.hospital);
-    }
-    localStorage.setItem(HOSPITALS_KEY, JSON.stringify(hospitals));
-    saveHospital(payload.hospital); // Sync to cloud
-
-    const users = getUsers();
-    payload.staff.forEach((newStaff: User) => {
-      saveUser(newStaff); 
-    });
-
-    return { success: true, message: 'Configuration imported successfully.', hospitalName: payload.hospital.name };
-  } catch (e) {
-    console.error(e);
-    return { success: false, message: 'Failed to import configuration.' };
+export const applyHospitalConfig = (
+  hospital: Partial<Hospital> & { id: string },
+  staff: (Partial<User> & { id: string })[],
+  devices: Device[]
+) => {
+  const existingHospital = collections.hospitals.get(hospital.id);
+  if (acceptsImport('hospitals', hospital, existingHospital)) {
+    collections.hospitals.put({
+      registrationNumber: '',
+      ...existingHospital,
+      ...hospital,
+      password: hospital.password || existingHospital?.password || ''
+    } as Hospital);
   }
-};
-
-// --- Attendance Sync (Manual) ---
-export const exportAttendanceData = (hospitalId: string, userId?: string): string => {
-  const records = getAttendanceRecords().filter(r => 
-    r.hospitalId === hospitalId && (!userId || r.userId === userId)
-  );
-  return btoa(JSON.stringify(records));
-};
 
-export const importAttendanceData = (encodedData: string): { success: boolean, count: number } => {
-  try {
-    const incomingRecords: AttendanceRecord[] = JSON.parse(atob(encodedData));
-    if (!Array.isArray(incomingRecords)) return { success: false, count: 0 };
-
-    let updatedCount = 0;
-    incomingRecords.forEach(incoming => {
-       saveAttendanceRecord(incoming); 
-       updatedCount++;
-    });
-
-    return { success: true, count: updatedCount };
-  } catch (e) {
-    console.error("Import failed", e);
-    return { success: false, count: 0 };
-  }
+  staff.forEach(member => {
+    const existing = collections.users.get(member.id);
+    if (!acceptsImport('users', member, existing)) return;
+    collections.users.put({
+      ...existing,
+      ...member,
+      role: UserRole.STAFF,
+      hospitalId: hospital.id,
+      pin: member.pin || existing?.pin || ''
+    } as User);
+  });
+
+  // The manager's approvals and revocations also replace a pending local copy
+  devices.filter(d => d.hospitalId === hospital.id).forEach(device => {
+    const existing = collections.devices.get(device.id);
+    const resolved = existing ? resolveDeviceConflict(existing, device) : device;
+    if (resolved !== existing) collections.devices.put(resolved);
+  });
 };
 
 // --- Hospitals ---
 export const getHospitals = (): Hospital[] => {
-  const data = localStorage.getItem(HOSPITALS_KEY);
-  return data ? JSON.parse(data) : [];
+  return collections.hospitals.all();
 };
 
+// Writes are local-first; the sync engine pushes dirty records to the cloud
 export const saveHospital = async (hospital: Hospital) => {
-  // 1. Local
-  const hospitals = getHospitals();
-  const index = hospitals.findIndex(h => h.id === hospital.id);
-  if (index !== -1) hospitals[index] = hospital;
-  else hospitals.push(hospital);
-  localStorage.setItem(HOSPITALS_KEY, JSON.stringify(hospitals));
-
-  // 2. Cloud
-  if (navigator.onLine && isCloudConfigured) {
-    const { error } = await supabase.from('hospitals').upsert(hospital);
-    if (error) console.error("Supabase Save Error (Hospital):", error.message);
-  }
+  const previous = collections.hospitals.get(hospital.id);
+  const stamped = stamp(hospital);
+  collections.hospitals.put(stamped);
+  appendAudit('HOSPITAL', hospital.id, hospital.name, hospital.id, previous, stamped);
+  markDirty('hospitals', hospital.id, 'UPSERT', previous?.updatedAt);
 };
 
 export const updateHospital = async (updatedHospital: Hospital) => {
@@ -241,44 +197,44 @@ export const updateHospital = async (updatedHospital: Hospital) => {
 };
 
 export const deleteHospital = async (hospitalId: string) => {
-  // 1. Local
-  const hospitals = getHospitals().filter(h => h.id !== hospitalId);
-  localStorage.setItem(HOSPITALS_KEY, JSON.stringify(hospitals));
+  const hospital = collections.hospitals.get(hospitalId);
+  collections.hospitals.remove([hospitalId]);
   
-  const users = getUsers().filter(u => u.hospitalId !== hospitalId);
-  localStorage.setItem(USERS_KEY, JSON.stringify(users));
+  const removedUsers = collections.users.where('hospitalId', hospitalId);
+  collections.users.remove(removedUsers.map(u => u.id));
 
-  // 2. Cloud
-  if (navigator.onLine && isCloudConfigured) {
-    await supabase.from('hospitals').delete().eq('id', hospitalId);
-    await supabase.from('users').delete().eq('hospital_id', hospitalId); 
-  }
+  const removedRoster = getRosterByHospital(hospitalId);
+  collections.roster_assignments.remove(removedRoster.map(a => a.id));
+
+  const removedDevices = getDevicesByHospital(hospitalId);
+  collections.devices.remove(removedDevices.map(d => d.id));
+
+  if (hospital) appendAudit('HOSPITAL', hospital.id, hospital.name, hospital.id, hospital, undefined);
+  removedUsers.forEach(u => appendAudit('USER', u.id, u.name, hospitalId, u, undefined));
+  removedRoster.forEach(a => appendAudit('ROSTER', a.id, rosterLabel(a, removedUsers), hospitalId, a, undefined));
+  removedDevices.forEach(d => appendAudit('DEVICE', d.id, d.name, hospitalId, d, undefined));
+
+  if (hospital) markDirty('hospitals', hospitalId, 'DELETE');
+  removedUsers.forEach(u => markDirty('users', u.id, 'DELETE'));
+  removedRoster.forEach(a => markDirty('roster_assignments', a.id, 'DELETE'));
+  removedDevices.forEach(d => markDirty('devices', d.id, 'DELETE'));
 };
 
 // --- Users ---
 export const getUsers = (): User[] => {
-  const data = localStorage.getItem(USERS_KEY);
-  return data ? JSON.parse(data) : [];
+  return collections.users.all();
 };
 
 export const getStaffByHospital = (hospitalId: string): User[] => {
-  return getUsers().filter(u => u.hospitalId === hospitalId && u.role === UserRole.STAFF);
+  return collections.users.where('hospitalId', hospitalId).filter(u => u.role === UserRole.STAFF);
 };
 
 export const saveUser = async (user: User) => {
-  // 1. Local
-  const users = getUsers();
-  const index = users.findIndex(u => u.id === user.id);
-  if (index !== -1) users[index] = user;
-  else users.push(user);
-  localStorage.setItem(USERS_KEY, JSON.stringify(users));
-
-  // 2. Cloud
-  if (navigator.onLine && isCloudConfigured) {
-    const dbUser = mapUserToDb(user);
-    const { error } = await supabase.from('users').upsert(dbUser);
-    if (error) console.error("Supabase Save Error (User):", error.message);
-  }
+  const previous = collections.users.get(user.id);
+  const stamped = stamp(user);
+  collections.users.put(stamped);
+  appendAudit('USER', user.id, user.name, user.hospitalId, previous, stamped);
+  markDirty('users', user.id, 'UPSERT', previous?.updatedAt);
 };
 
 export const updateUser = async (updatedUser: User) => {
@@ -286,41 +242,77 @@ export const updateUser = async (updatedUser: User) => {
 };
 
 export const deleteUser = async (userId: string) => {
-    // 1. Local
-    const users = getUsers().filter(u => u.id !== userId);
-    localStorage.setItem(USERS_KEY, JSON.stringify(users));
+    const user = collections.users.get(userId);
+    collections.users.remove([userId]);
+
+    const removedRoster = collections.roster_assignments.where('userId', userId);
+    collections.roster_assignments.remove(removedRoster.map(a => a.id));
+
+    const removedDevices = getDevicesByUser(userId);
+    collections.devices.remove(removedDevices.map(d => d.id));
 
-    // 2. Cloud
-    if (navigator.onLine && isCloudConfigured) {
-      await supabase.from('users').delete().eq('id', userId);
+    if (user) {
+      appendAudit('USER', user.id, user.name, user.hospitalId, user, undefined);
+      removedRoster.forEach(a => appendAudit('ROSTER', a.id, rosterLabel(a, [user]), a.hospitalId, a, undefined));
+      removedDevices.forEach(d => appendAudit('DEVICE', d.id, d.name, d.hospitalId, d, undefined));
+      markDirty('users', userId, 'DELETE');
     }
+    removedRoster.forEach(a => markDirty('roster_assignments', a.id, 'DELETE'));
+    removedDevices.forEach(d => markDirty('devices', d.id, 'DELETE'));
 };
 
-export const loginHospital = (username: string, password: string): Hospital | null => {
-  const hospitals = getHospitals();
-  return hospitals.find(h => h.username === username && h.password === password) || null;
+export const loginHospital = async (username: string, password: string): Promise<Hospital | null> => {
+  const candidates = getHospitals().filter(h => h.username === username);
+  for (const hospital of candidates) {
+    if (!(await verifySecret(password, hospital.password))) continue;
+
+    // Migrate legacy plaintext password on first successful login
+    if (needsRehash(hospital.password)) {
+      const migrated = { ...hospital, password: await hashSecret(password) };
+      await saveHospital(migrated);
+      return migrated;
+    }
+    return hospital;
+  }
+  return null;
+};
+
+export const verifyLogViewPassword = async (hospitalId: string, password: string): Promise<boolean> => {
+  const hospital = collections.hospitals.get(hospitalId);
+  if (!hospital || !(await verifySecret(password, hospital.logViewPassword))) return false;
+
+  if (needsRehash(hospital.logViewPassword)) {
+    await saveHospital({ ...hospital, logViewPassword: await hashSecret(password) });
+  }
+  return true;
+};
+
+export const verifyStaffPin = async (userId: string, pin: string): Promise<boolean> => {
+  const user = collections.users.get(userId);
+  if (!user || !(await verifySecret(pin, user.pin))) return false;
+
+  if (needsRehash(user.pin)) {
+    await saveUser({ ...user, pin: await hashSecret(pin) });
+  }
+  return true;
 };
 
 // --- Attendance ---
 export const getAttendanceRecords = (): AttendanceRecord[] => {
-  const data = localStorage.getItem(ATTENDANCE_KEY);
-  return data ? JSON.parse(data) : [];
+  return collections.attendance_records.all();
 };
 
+// A signature that still matches is kept, so a manager's review leaves the staff device's
+// signature in place; any change to the attendance facts is signed by this device
 export const saveAttendanceRecord = async (record: AttendanceRecord) => {
-  // 1. Local
-  const records = getAttendanceRecords();
-  const index = records.findIndex(r => r.id === record.id);
-  if (index !== -1) records[index] = record;
-  else records.push(record);
-  localStorage.setItem(ATTENDANCE_KEY, JSON.stringify(records));
-
-  // 2. Cloud
-  if (navigator.onLine && isCloudConfigured) {
-    const dbRecord = mapAttendanceToDb(record);
-    const { error } = await supabase.from('attendance_records').upsert(dbRecord);
-    if (error) console.error("Supabase Save Error (Attendance):", error.message);
-  }
+  const signed = record.deviceSignature && await verifyAttendanceSignature(record)
+    ? record
+    : { ...record, deviceSignature: await signAttendanceRecord(record) };
+  const previous = collections.attendance_records.get(record.id);
+  const stamped = stamp(signed);
+  collections.attendance_records.put(stamped);
+  appendAudit('ATTENDANCE', record.id, record.userName, record.hospitalId, previous, stamped);
+  markDirty('attendance_records', record.id, 'UPSERT', previous?.updatedAt);
 };
 
 export const updateAttendanceRecord = async (updatedRecord: AttendanceRecord) => {
@@ -328,21 +320,197 @@ export const updateAttendanceRecord = async (updatedRecord: AttendanceRecord) =>
 };
 
 export const getActiveRecord = (userId: string): AttendanceRecord | undefined => {
-  const records = getAttendanceRecords();
-  return records.find(r => r.userId === userId && !r.checkOutTime);
-};
-
-// Initialize Mock Data
-export const initMockData = () => {
-  // Check for Super Admin
-  const users = getUsers();
-  if (!users.some(u => u.role === UserRole.ADMIN)) {
-    saveUser({
-      id: 'admin-super',
-      name: 'System Owner',
-      role: UserRole.ADMIN,
-      hospitalId: '',
-      pin: '0000'
-    });
+  return collections.attendance_records.where('userId', userId).find(r => !r.checkOutTime);
+};
+
+// Applies each hospital's auto-close policy to open shifts; returns how many were closed
+export const closeStaleShifts = async (now: Date = new Date()): Promise<number> => {
+  const hospitals = getHospitals();
+  const stale = getAttendanceRecords()
+    .filter(r => !r.checkOutTime)
+    .map(r => ({ record: r, decision: getAutoCloseDecision(r, hospitals.find(h => h.id === r.hospitalId), now) }));
+
+  let closed = 0;
+  for (const { record, decision } of stale) {
+    if (!decision) continue;
+    await saveAttendanceRecord(applyAutoClose(record, decision));
+    closed++;
   }
-};
\ No newline at end of file
+  return closed;
+};
+
+// --- Roster ---
+export const getRosterAssignments = (): RosterAssignment[] => {
+  return collections.roster_assignments.all();
+};
+
+export const getRosterByHospital = (hospitalId: string): RosterAssignment[] => {
+  return collections.roster_assignments.where('hospitalId', hospitalId);
+};
+
+export const saveRosterAssignment = async (assignment: RosterAssignment) => {
+  const previous = collections.roster_assignments.get(assignment.id);
+  const stamped = stamp(assignment);
+  collections.roster_assignments.put(stamped);
+  appendAudit('ROSTER', assignment.id, rosterLabel(assignment, getUsers()), assignment.hospitalId, previous, stamped);
+  markDirty('roster_assignments', assignment.id, 'UPSERT', previous?.updatedAt);
+};
+
+export const deleteRosterAssignment = async (assignmentId: string) => {
+  const assignment = collections.roster_assignments.get(assignmentId);
+  collections.roster_assignments.remove([assignmentId]);
+  if (assignment) {
+    appendAudit('ROSTER', assignment.id, rosterLabel(assignment, getUsers()), assignment.hospitalId, assignment, undefined);
+    markDirty('roster_assignments', assignmentId, 'DELETE');
+  }
+};
+
+// --- Audit Trail ---
+// Append-only: entries are never edited or deleted, only trimmed locally once the cloud holds them.
+const byTimestamp = (a: AuditEntry, b: AuditEntry) => a.timestamp.localeCompare(b.timestamp);
+
+// Oldest first
+export const getAuditLog = (): AuditEntry[] => {
+  return collections.audit_log.all().sort(byTimestamp);
+};
+
+export const getAuditLogByHospital = (hospitalId: string): AuditEntry[] => {
+  return collections.audit_log.where('hospitalId', hospitalId).sort(byTimestamp);
+};
+
+const saveAuditEntries = (entries: AuditEntry[]) => {
+  entries.forEach(e => collections.audit_log.put(e));
+
+  const synced = collections.audit_log.all().filter(e => e.synced);
+  const excess = synced.length - MAX_LOCAL_SYNCED_AUDIT_ENTRIES;
+  if (excess > 0) collections.audit_log.remove(synced.sort(byTimestamp).slice(0, excess).map(e => e.id));
+};
+
+const rosterLabel = (assignment: RosterAssignment, users: User[]) => {
+  const user = users.find(u => u.id === assignment.userId);
+  return `${user?.name || 'Unknown'} · ${assignment.date}`;
+};
+
+const appendAudit = (
+  entityType: AuditEntityType,
+  entityId: string,
+  entityLabel: string,
+  hospitalId: string | undefined,
+  before: object | undefined,
+  after: object | undefined
+) => {
+  const action: AuditAction = !before ? 'CREATE' : !after ? 'DELETE' : 'UPDATE';
+  const changes = diffEntities(before, after);
+  if (action === 'UPDATE' && changes.length === 0) return;
+
+  const actor = getCurrentActor();
+  const entry: AuditEntry = {
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    actorId: actor?.id,
+    actorName: actor?.name || 'System',
+    actorRole: actor?.role,
+    action,
+    entityType,
+    entityId,
+    entityLabel,
+    hospitalId: hospitalId || undefined,
+    changes,
+    deviceId: getOrCreateDeviceId()
+  };
+  saveAuditEntries([entry]);
+};
+
+// Entries not yet in the cloud audit_log table
+export const getPendingAuditEntries = (): AuditEntry[] => {
+  return collections.audit_log.all().filter(e => !e.synced);
+};
+
+export const markAuditEntriesSynced = (ids: string[]) => {
+  const pushed = ids
+    .map(id => collections.audit_log.get(id))
+    .filter((e): e is AuditEntry => !!e);
+  saveAuditEntries(pushed.map(e => ({ ...e, synced: true })));
+};
+
+// Adds entries pulled from the cloud; returns how many were new to this device
+export const mergeAuditEntries = (entries: AuditEntry[]): number => {
+  const added = entries.filter(e => !collections.audit_log.get(e.id));
+  if (added.length > 0) saveAuditEntries(added);
+  return added.length;
+};
+
+// --- Correction Requests ---
+export const getCorrectionRequests = (): CorrectionRequest[] => {
+  return collections.correction_requests.all();
+};
+
+export const getCorrectionRequestsByHospital = (hospitalId: string): CorrectionRequest[] => {
+  return collections.correction_requests.where('hospitalId', hospitalId);
+};
+
+export const getCorrectionRequestsByUser = (userId: string): CorrectionRequest[] => {
+  return collections.correction_requests.where('userId', userId);
+};
+
+export const saveCorrectionRequest = async (request: CorrectionRequest) => {
+  const previous = collections.correction_requests.get(request.id);
+  const stamped = stamp(request);
+  collections.correction_requests.put(stamped);
+  appendAudit('CORRECTION_REQUEST', request.id, request.userName, request.hospitalId, previous, stamped);
+  markDirty('correction_requests', request.id, 'UPSERT', previous?.updatedAt);
+};
+
+// --- Devices ---
+export const getDevicesByHospital = (hospitalId: string): Device[] => {
+  return collections.devices.where('hospitalId', hospitalId);
+};
+
+export const getDevicesByUser = (userId: string): Device[] => {
+  return collections.devices.where('userId', userId);
+};
+
+export const saveDevice = async (device: Device) => {
+  const previous = collections.devices.get(device.id);
+  const stamped = stamp(device);
+  collections.devices.put(stamped);
+  appendAudit('DEVICE', device.id, device.name, device.hospitalId, previous, stamped);
+  markDirty('devices', device.id, 'UPSERT', previous?.updatedAt);
+};
+
+// --- Super Admins ---
+export const getAdmins = (): User[] => {
+  return getUsers().filter(u => u.role === UserRole.ADMIN);
+};
+
+export const createAdmin = async (name: string, username: string, password: string): Promise<User> => {
+  const admin: User = {
+    id: crypto.randomUUID(),
+    name,
+    username,
+    role: UserRole.ADMIN,
+    hospitalId: '',
+    pin: await hashSecret(password)
+  };
+  await saveUser(admin);
+  return admin;
+};
+
+export const loginAdmin = async (username: string, password: string): Promise<User | null> => {
+  const admin = getAdmins().find(u => u.username?.toLowerCase() === username.trim().toLowerCase());
+  if (!admin || !isHashedSecret(admin.pin)) return null;
+  return (await verifySecret(password, admin.pin)) ? admin : null;
+};
+
+// A brand new install (no admins and no hospitals, even after sync) must create the first admin.
+// Devices enrolled via a config link already have a hospital and skip this.
+export const needsInitialSetup = (): boolean => {
+  return getAdmins().length === 0 && getHospitals().length === 0;
+};
+
+// Initialize Local Data
+export const initLocalData = () => {
+  // Earlier versions seeded an unused 'admin-super' with PIN 0000; remove it
+  const placeholder = getUsers().find(u => u.id === 'admin-super' && !isHashedSecret(u.pin));
+  if (placeholder) deleteUser(placeholder.id);
+};
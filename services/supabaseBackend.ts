@@ -0,0 +1,107 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { CloudBackend, Row } from './cloudBackend';
+import { CloudSession } from './session';
+
+interface QueryResult<T> {
+  data: T | null;
+  error: { message: string; code?: string } | null;
+}
+
+// PostgREST's default max-rows. Larger reads are paged, since PostgREST cuts a response at
+// max-rows without an error.
+const PAGE_SIZE = 1000;
+
+// "relation does not exist" from Postgres, "table not in schema cache" from PostgREST
+const MISSING_TABLE_CODES = ['42P01', 'PGRST205'];
+
+const unwrap = <T>({ data, error }: QueryResult<T>): T | null => {
+  if (error) throw new Error(error.message);
+  return data;
+};
+
+// start_session() returns null ids for the roles they do not apply to
+const toSession = (data: Row | null): CloudSession | null => data && {
+  token: data.token,
+  role: data.role,
+  hospitalId: data.hospitalId || undefined,
+  userId: data.userId || undefined,
+  expiresAt: data.expiresAt,
+};
+
+export const createSupabaseBackend = (client: SupabaseClient): CloudBackend => ({
+  kind: 'supabase',
+  selectByIds: async (table, ids) => {
+    return unwrap<Row[]>(await client.from(table).select('*').in('id', ids)) || [];
+  },
+  // Row-level security already limits what a session sees; filters narrow it further
+  // Paged by id, so rows inserted or deleted meanwhile cannot shift one out of the result
+  selectIds: async (table, filter) => {
+    const ids: string[] = [];
+    for (;;) {
+      let query = client.from(table).select('id');
+      if (filter) query = query.eq(filter.column, filter.value);
+      if (ids.length > 0) query = query.gt('id', ids[ids.length - 1]);
+      const page = unwrap<Row[]>(await query.order('id').limit(PAGE_SIZE)) || [];
+      page.forEach(row => ids.push(row.id));
+      if (page.length < PAGE_SIZE) return ids;
+    }
+  },
+  // Paged by `column`: each page starts at the last value of the one before. Rows on that
+  // boundary are read twice and kept once.
+  selectChangedSince: async (table, column, since, filter, window) => {
+    const rows = new Map<string, Row>();
+    let from = since;
+    for (;;) {
+      let query = client.from(table).select('*');
+      if (filter) query = query.eq(filter.column, filter.value);
+      if (from) query = query.gte(column, from);
+      if (window) {
+        // Quoted: ISO timestamps contain characters PostgREST treats as syntax
+        const recent = `${window.column}.gte."${window.since}"`;
+        query = window.orNullColumn ? query.or(`${recent},${window.orNullColumn}.is.null`) : query.gte(window.column, window.since);
+      }
+      const page = unwrap<Row[]>(await query.order(column).order('id').limit(PAGE_SIZE)) || [];
+      page.forEach(row => rows.set(row.id, row));
+      if (page.length < PAGE_SIZE) return Array.from(rows.values());
+
+      const last = page[page.length - 1][column];
+      if (last === from) throw new Error(`More than ${PAGE_SIZE} rows of ${table} share the same ${column}.`);
+      from = last;
+    }
+  },
+  selectLatest: async (table, orderColumn, limit, filter) => {
+    let query = client.from(table).select('*');
+    if (filter) query = query.eq(filter.column, filter.value);
+    return unwrap<Row[]>(await query.order(orderColumn, { ascending: false }).limit(limit)) || [];
+  },
+  upsert: async (table, row) => {
+    unwrap(await client.from(table).upsert(row));
+  },
+  insertMissing: async (table, rows) => {
+    unwrap(await client.from(table).upsert(rows, { onConflict: 'id', ignoreDuplicates: true }));
+  },
+  remove: async (table, id) => {
+    unwrap(await client.from(table).delete().eq('id', id));
+  },
+  getSchemaVersion: async () => {
+    const result = await client.from('schema_version').select('version').order('version', { ascending: false }).limit(1);
+    if (result.error && MISSING_TABLE_CODES.includes(result.error.code)) return 0;
+    const rows = unwrap<Row[]>(result) || [];
+    return rows[0]?.version ?? 0;
+  },
+  startSession: async (role, login, secret) => {
+    return toSession(unwrap<Row>(await client.rpc('start_session', { p_role: role, p_login: login, p_secret: secret })));
+  },
+  endSession: async (token) => {
+    unwrap(await client.rpc('end_session', { p_token: token }));
+  },
+  isInitialized: async () => {
+    return !!unwrap<boolean>(await client.rpc('is_initialized'));
+  },
+  registerFirstAdmin: async (admin) => {
+    return !!unwrap<boolean>(await client.rpc('register_first_admin', { p_admin: admin }));
+  },
+  getConfigSigningKeys: async (hospitalId) => {
+    return unwrap<string[]>(await client.rpc('hospital_config_keys', { p_hospital_id: hospitalId })) || [];
+  },
+});
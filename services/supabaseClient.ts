@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import { getCloudSession } from './session';
 
 const STORAGE_URL_KEY = 'mediguard_sb_url';
 const STORAGE_KEY_KEY = 'mediguard_sb_key';
@@ -15,28 +16,22 @@ if (!supabaseUrl || !supabaseKey) {
 
 export const isCloudConfigured = !!(supabaseUrl && supabaseKey);
 
-// Helper to create a safe mock client if credentials are missing
-const createMockClient = () => {
-  const mockResponse = Promise.resolve({ 
-    data: null, 
-    error: { message: 'Supabase credentials missing - running in local mode' } 
-  });
-
-  return {
-    from: (table: string) => ({
-      select: () => mockResponse,
-      upsert: () => mockResponse,
-      delete: () => ({
-        eq: () => mockResponse
-      })
-    })
-  } as any;
+// Must match the header request_session() reads in migration 5
+const SESSION_HEADER = 'x-mediguard-session';
+
+// Every request carries the active cloud session, which row-level security scopes rows by
+const fetchWithSession: typeof fetch = (input, init) => {
+  const session = getCloudSession();
+  if (!session) return fetch(input, init);
+  const headers = new Headers(init?.headers);
+  headers.set(SESSION_HEADER, session.token);
+  return fetch(input, { ...init, headers });
 };
 
-// Only initialize the real client if keys are present
+// Only initialize the client if keys are present; cloudBackend.ts falls back to local mode
 export const supabase = isCloudConfigured
-  ? createClient(supabaseUrl, supabaseKey)
-  : createMockClient();
+  ? createClient(supabaseUrl, supabaseKey, { global: { fetch: fetchWithSession } })
+  : null;
 
 export const updateSupabaseConfig = (url: string, key: string) => {
   localStorage.setItem(STORAGE_URL_KEY, url);
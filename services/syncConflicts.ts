@@ -0,0 +1,60 @@
+import { AttendanceRecord, CorrectionRequest, Device } from '../types';
+
+// Deterministic conflict rules used when the same record changed both locally and in the cloud
+// (and when merging manual transfer codes). Every rule falls back to the newest updatedAt;
+// exact ties go to the cloud copy so that all devices converge on the same result.
+
+interface Versioned {
+  updatedAt?: string;
+}
+
+export const resolveByUpdatedAt = <T extends Versioned>(local: T, cloud: T): T => {
+  return (local.updatedAt || '') > (cloud.updatedAt || '') ? local : cloud;
+};
+
+// Manager corrections beat device data; a real check-out beats an open or auto-closed record.
+// A review decision on the losing copy is carried over so approvals are never dropped.
+export const resolveAttendanceConflict = (local: AttendanceRecord, cloud: AttendanceRecord): AttendanceRecord => {
+  let preferLocal: boolean;
+  if (!!local.correction !== !!cloud.correction) {
+    preferLocal = !!local.correction;
+  } else if (!!local.checkOutTime !== !!cloud.checkOutTime) {
+    preferLocal = !!local.checkOutTime;
+  } else if (local.checkOutTime && (local.checkOutStatus === 'AUTO_CLOSED') !== (cloud.checkOutStatus === 'AUTO_CLOSED')) {
+    preferLocal = local.checkOutStatus !== 'AUTO_CLOSED';
+  } else {
+    preferLocal = resolveByUpdatedAt(local, cloud) === local;
+  }
+
+  const winner = preferLocal ? local : cloud;
+  const loser = preferLocal ? cloud : local;
+  if (!winner.reviewStatus && loser.reviewStatus) {
+    return {
+      ...winner,
+      reviewStatus: loser.reviewStatus,
+      reviewNote: loser.reviewNote,
+      reviewedBy: loser.reviewedBy,
+      reviewedAt: loser.reviewedAt
+    };
+  }
+  return winner;
+};
+
+// A manager's decision always beats a still-pending copy of the request
+export const resolveCorrectionRequestConflict = (local: CorrectionRequest, cloud: CorrectionRequest): CorrectionRequest => {
+  if ((local.status === 'PENDING') !== (cloud.status === 'PENDING')) {
+    return local.status === 'PENDING' ? cloud : local;
+  }
+  return resolveByUpdatedAt(local, cloud);
+};
+
+// A revocation is final, and a manager's approval beats a copy still waiting for one
+export const resolveDeviceConflict = (local: Device, cloud: Device): Device => {
+  if ((local.status === 'REVOKED') !== (cloud.status === 'REVOKED')) {
+    return local.status === 'REVOKED' ? local : cloud;
+  }
+  if ((local.status === 'PENDING') !== (cloud.status === 'PENDING')) {
+    return local.status === 'PENDING' ? cloud : local;
+  }
+  return resolveByUpdatedAt(local, cloud);
+};
@@ -0,0 +1,141 @@
+// @vitest-environment jsdom
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AttendanceRecord, RosterAssignment } from '../types';
+import { createMemoryBackend } from './memoryBackend';
+import { setCloudBackend } from './cloudBackend';
+import { setCloudSession, CloudSession } from './session';
+import { runSync } from './syncEngine';
+import { countDirty, getOutboxRetryState, SyncTableName } from './syncState';
+import { mapAttendanceToDb, mapRosterToDb } from './dbMappers';
+import {
+  initStorage, writeCollection, getAttendanceRecords, getRosterAssignments,
+  saveAttendanceRecord, saveRosterAssignment
+} from './storage';
+
+// One device syncing against the memory backend; the test writes to the backend directly
+// where another device would. Debounced pushes are held back so only runSync() talks to it.
+
+const TABLES: SyncTableName[] = ['hospitals', 'users', 'attendance_records', 'roster_assignments', 'correction_requests', 'devices'];
+
+const backend = createMemoryBackend();
+
+const adminSession: CloudSession = {
+  token: 'test-session',
+  role: 'ADMIN',
+  userId: 'admin-1',
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+};
+
+const assignment = (id: string, overrides: Partial<RosterAssignment> = {}): RosterAssignment => ({
+  id,
+  hospitalId: 'hospital-1',
+  userId: 'staff-1',
+  shiftId: 'day',
+  date: '2026-10-19',
+  ...overrides,
+});
+
+const openShift = (id: string): AttendanceRecord => ({
+  id,
+  userId: 'staff-1',
+  userName: 'Ada',
+  hospitalId: 'hospital-1',
+  hospitalName: 'General',
+  checkInTime: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+  checkInCoords: { latitude: 1, longitude: 2, accuracy: 10 },
+  flagged: false,
+  distanceFromCenter: 5,
+});
+
+beforeAll(async () => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+  await initStorage();
+  setCloudBackend(backend);
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+beforeEach(async () => {
+  await backend.reset();
+  localStorage.clear();
+  TABLES.forEach(table => writeCollection(table, []));
+  setCloudSession(adminSession);
+});
+
+describe('runSync', () => {
+  it('pushes local changes and empties the outbox', async () => {
+    await saveRosterAssignment(assignment('roster-1'));
+    expect(countDirty()).toBe(1);
+
+    const report = await runSync();
+
+    expect(report.success).toBe(true);
+    expect(report.tables.roster_assignments?.pushed).toBe(1);
+    expect(countDirty()).toBe(0);
+    expect(await backend.selectIds('roster_assignments')).toEqual(['roster-1']);
+  });
+
+  it('pulls rows uploaded late with an older updatedAt than the cursor', async () => {
+    await backend.upsert('roster_assignments', mapRosterToDb(assignment('roster-1', { updatedAt: '2026-10-19T12:00:00.000Z' })));
+    await runSync();
+
+    // Written offline long ago and only uploaded now
+    await backend.upsert('roster_assignments', mapRosterToDb(assignment('roster-2', { updatedAt: '2026-01-01T00:00:00.000Z' })));
+    const report = await runSync();
+
+    expect(report.tables.roster_assignments?.pulled).toBe(1);
+    expect(getRosterAssignments().map(a => a.id).sort()).toEqual(['roster-1', 'roster-2']);
+  });
+
+  it('removes local copies of rows deleted in the cloud', async () => {
+    await saveRosterAssignment(assignment('roster-1'));
+    await saveRosterAssignment(assignment('roster-2'));
+    await runSync();
+
+    await backend.remove('roster_assignments', 'roster-1');
+    const report = await runSync();
+
+    expect(report.tables.roster_assignments?.deleted).toBe(1);
+    expect(getRosterAssignments().map(a => a.id)).toEqual(['roster-2']);
+  });
+
+  it('keeps a check-out made on another device over a local edit of the open shift', async () => {
+    await saveAttendanceRecord(openShift('shift-1'));
+    await runSync();
+
+    const pushed = getAttendanceRecords()[0];
+    const checkOutTime = new Date().toISOString();
+    await backend.upsert('attendance_records', mapAttendanceToDb({
+      ...pushed, checkOutTime, durationMinutes: 60, updatedAt: new Date(Date.now() + 1000).toISOString()
+    }));
+    await saveAttendanceRecord({ ...pushed, flagged: true });
+
+    const report = await runSync();
+
+    expect(report.tables.attendance_records?.conflicts).toBe(1);
+    expect(getAttendanceRecords()[0].checkOutTime).toBe(checkOutTime);
+    expect(countDirty()).toBe(0);
+  });
+
+  it('keeps failed pushes queued and backs off until the cloud is reachable again', async () => {
+    await saveRosterAssignment(assignment('roster-1'));
+    await backend.setFailure('Network down');
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const failed = await runSync();
+
+    expect(failed.success).toBe(false);
+    expect(countDirty()).toBe(1);
+    expect(getOutboxRetryState()).toMatchObject({ attempts: 1, lastError: 'Network down' });
+
+    logged.mockRestore();
+    await backend.setFailure(undefined);
+    const retried = await runSync();
+
+    expect(retried.success).toBe(true);
+    expect(countDirty()).toBe(0);
+    expect(getOutboxRetryState().attempts).toBe(0);
+  });
+});
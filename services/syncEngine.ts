@@ -0,0 +1,495 @@
+import { CloudBackend, RowFilter, RowWindow, getCloudBackend, isSyncEnabled } from './cloudBackend';
+import { CloudSession, getCloudSession } from './session';
+import { LATEST_SCHEMA_VERSION, SchemaMigration, getPendingMigrations } from './schemaMigrations';
+import {
+  readCollection, writeCollection, closeStaleShifts, purgeOtherHospitals,
+  getPendingAuditEntries, markAuditEntriesSynced, mergeAuditEntries
+} from './storage';
+import {
+  mapHospitalToDb, mapHospitalFromDb, mapUserToDb, mapUserFromDb, mapAttendanceToDb, mapAttendanceFromDb,
+  mapRosterToDb, mapRosterFromDb, mapCorrectionRequestToDb, mapCorrectionRequestFromDb, mapDeviceToDb, mapDeviceFromDb,
+  mapAuditToDb, mapAuditFromDb
+} from './dbMappers';
+import { resolveByUpdatedAt, resolveAttendanceConflict, resolveCorrectionRequestConflict, resolveDeviceConflict } from './syncConflicts';
+import {
+  SyncTableName, SyncReport, SyncReportTable, TableSyncCounts,
+  getDirtyEntries, isDirty, clearDirty, markDirty, countDirty, getSyncCursor, setSyncCursor, retainSyncCursors,
+  subscribeLocalChanges, emptyCounts, saveSyncReport,
+  getOutboxRetryState, saveOutboxRetryState, resetOutboxRetryState
+} from './syncState';
+
+// Sync order per table: push local changes, pull cloud deltas since the cursor,
+// then drop local copies of records deleted in the cloud.
+// Everything is limited to the rows the signed-in session may see (see migration 5).
+
+interface SyncEntity {
+  id: string;
+  updatedAt?: string;
+}
+
+// The rows of a table a session works with; `field` is the local property behind `column`
+interface Scope extends RowFilter {
+  field: string;
+}
+
+// null: every row (admins); false: the session has no access to the table
+type ScopeFor = (session: CloudSession) => Scope | null | false;
+
+// Hospital and staff devices only pull the last `days` of rows by `column`, plus rows whose
+// `orNullColumn` is still empty. Admins pull everything.
+interface PullWindow {
+  column: string;
+  days: number;
+  orNullColumn?: string;
+}
+
+interface SyncTable<T extends SyncEntity> {
+  name: SyncTableName;
+  scope: ScopeFor;
+  pullWindow?: PullWindow;
+  toDb: (item: T) => object;
+  fromDb: (row: any, local?: T) => T;
+  resolve: (local: T, cloud: T) => T;
+}
+
+// Hospitals see their own rows, staff the rows that are about them
+const byHospitalOrUser = (userColumn: string, userField: string): ScopeFor => session => {
+  switch (session.role) {
+    case 'ADMIN': return null;
+    case 'HOSPITAL': return { column: 'hospital_id', field: 'hospitalId', value: session.hospitalId! };
+    case 'STAFF': return { column: userColumn, field: userField, value: session.userId! };
+  }
+};
+
+const ownHospitalRow: ScopeFor = session => {
+  switch (session.role) {
+    case 'ADMIN': return null;
+    case 'HOSPITAL': return { column: 'id', field: 'id', value: session.hospitalId! };
+    case 'STAFF': return false;
+  }
+};
+
+// Attendance history a kiosk keeps current; open shifts are pulled whatever their age
+const ATTENDANCE_WINDOW_DAYS = 90;
+
+// Set by the database on every write (migration 12); pull cursors follow it rather than the
+// app's updatedAt, which is stamped on the device that made the edit
+const SERVER_STAMP_COLUMN = 'server_updated_at';
+// Rows are stamped when written but only visible once committed, so a little before the cursor is read again
+const PULL_OVERLAP_MS = 60 * 1000;
+
+const TABLES: SyncTable<any>[] = [
+  { name: 'hospitals', scope: ownHospitalRow, toDb: mapHospitalToDb, fromDb: mapHospitalFromDb, resolve: resolveByUpdatedAt },
+  { name: 'users', scope: byHospitalOrUser('id', 'id'), toDb: mapUserToDb, fromDb: mapUserFromDb, resolve: resolveByUpdatedAt },
+  { name: 'attendance_records', scope: byHospitalOrUser('user_id', 'userId'), pullWindow: { column: 'check_in_time', days: ATTENDANCE_WINDOW_DAYS, orNullColumn: 'check_out_time' }, toDb: mapAttendanceToDb, fromDb: mapAttendanceFromDb, resolve: resolveAttendanceConflict },
+  { name: 'roster_assignments', scope: byHospitalOrUser('user_id', 'userId'), toDb: mapRosterToDb, fromDb: mapRosterFromDb, resolve: resolveByUpdatedAt },
+  { name: 'correction_requests', scope: byHospitalOrUser('user_id', 'userId'), toDb: mapCorrectionRequestToDb, fromDb: mapCorrectionRequestFromDb, resolve: resolveCorrectionRequestConflict },
+  { name: 'devices', scope: byHospitalOrUser('user_id', 'userId'), toDb: mapDeviceToDb, fromDb: mapDeviceFromDb, resolve: resolveDeviceConflict },
+];
+
+const inScope = (item: any, scope: Scope | null) => !scope || item[scope.field] === scope.value;
+
+const scopeKey = (scope: Scope | null) => scope ? `${scope.column}=${scope.value}` : undefined;
+
+const ID_BATCH_SIZE = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AUDIT_PULL_LIMIT = 500;
+const PUSH_DEBOUNCE_MS = 1000;
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+// Must match OUTBOX_SYNC_TAG in sw.js
+const BACKGROUND_SYNC_TAG = 'mediguard-outbox';
+// Cursor for tables whose cloud rows predate updatedAt tracking
+const SYNC_EPOCH = new Date(0).toISOString();
+
+const canReachCloud = () => navigator.onLine && isSyncEnabled() && !!getCloudSession();
+
+// Requests carry whichever session is active when they are sent. A switch mid-sync (e.g. a staff
+// member signing in) would make a partial view look like deletions, so the step is abandoned.
+const readAs = async <T>(session: CloudSession, read: () => Promise<T>): Promise<T> => {
+  const result = await read();
+  if (getCloudSession() !== session) throw new Error('Cloud session changed during sync');
+  return result;
+};
+
+const replaceLocal = <T extends SyncEntity>(table: SyncTableName, item: T) => {
+  const items = readCollection<T>(table);
+  const index = items.findIndex(i => i.id === item.id);
+  if (index !== -1) items[index] = item;
+  else items.push(item);
+  writeCollection(table, items);
+};
+
+const fetchRowsById = async (table: SyncTableName, ids: string[]): Promise<Map<string, any>> => {
+  const rows = new Map<string, any>();
+  for (let i = 0; i < ids.length; i += ID_BATCH_SIZE) {
+    const batch = await getCloudBackend().selectByIds(table, ids.slice(i, i + ID_BATCH_SIZE));
+    batch.forEach(row => rows.set(row.id, row));
+  }
+  return rows;
+};
+
+const fetchCloudIds = async (session: CloudSession, table: SyncTableName, scope: Scope | null): Promise<Set<string>> => {
+  return new Set(await readAs(session, () => getCloudBackend().selectIds(table, scope || undefined)));
+};
+
+// First sync of a table on this device: anything the cloud has never seen is queued for upload
+const bootstrapTable = async <T extends SyncEntity>(session: CloudSession, table: SyncTable<T>, scope: Scope | null) => {
+  const cloudIds = await fetchCloudIds(session, table.name, scope);
+  readCollection<T>(table.name)
+    .filter(item => inScope(item, scope) && !cloudIds.has(item.id) && !isDirty(table.name, item.id))
+    .forEach(item => markDirty(table.name, item.id, 'UPSERT'));
+};
+
+// Changes outside the session's scope stay queued for a session that may write them
+const pushTable = async <T extends SyncEntity>(session: CloudSession, table: SyncTable<T>, scope: Scope | null, counts: TableSyncCounts) => {
+  const dirty = getDirtyEntries(table.name);
+  const ids = Object.keys(dirty);
+  if (ids.length === 0) return;
+
+  const cloudRows = await fetchRowsById(table.name, ids);
+  const localItems = readCollection<T>(table.name);
+
+  for (const id of ids) {
+    const entry = dirty[id];
+    const row = cloudRows.get(id);
+    const local = localItems.find(i => i.id === id);
+
+    // Staff never delete; without the local copy there is no telling whose row it was
+    if (entry.op === 'DELETE' && session.role === 'STAFF') continue;
+    if (entry.op === 'UPSERT' && local && !inScope(local, scope)) continue;
+
+    // Deletes win over concurrent cloud edits
+    if (entry.op === 'DELETE') {
+      if (row) {
+        try {
+          await getCloudBackend().remove(table.name, id);
+        } catch (err: any) {
+          counts.error = err.message;
+          continue;
+        }
+        counts.pushed++;
+      }
+      clearDirty(table.name, id, entry.revision);
+      continue;
+    }
+
+    // Nothing left to upload (e.g. local storage was cleared)
+    if (!local) {
+      clearDirty(table.name, id, entry.revision);
+      continue;
+    }
+
+    let outgoing = local;
+    if (row) {
+      const cloud = table.fromDb(row, local);
+      // The cloud moved on since the version this edit was based on
+      if ((cloud.updatedAt || '') !== (entry.baseUpdatedAt || '')) {
+        counts.conflicts++;
+        const resolved = table.resolve(local, cloud);
+        if (resolved === cloud) {
+          replaceLocal(table.name, cloud);
+          clearDirty(table.name, id, entry.revision);
+          continue;
+        }
+        // A new version so devices that already pulled the cloud copy pick up the merge
+        outgoing = { ...resolved, updatedAt: new Date().toISOString() };
+        replaceLocal(table.name, outgoing);
+      }
+    }
+
+    try {
+      await getCloudBackend().upsert(table.name, table.toDb(outgoing));
+    } catch (err: any) {
+      counts.error = err.message;
+      continue;
+    }
+    counts.pushed++;
+    clearDirty(table.name, id, entry.revision);
+  }
+};
+
+const toRowWindow = (session: CloudSession, window?: PullWindow): RowWindow | undefined => {
+  if (!window || session.role === 'ADMIN') return undefined;
+  const since = new Date(Date.now() - window.days * DAY_MS).toISOString();
+  return { column: window.column, since, orNullColumn: window.orNullColumn };
+};
+
+// Older rows already on the device are kept; removeDeletedRecords still checks them by id
+const pullTable = async <T extends SyncEntity>(session: CloudSession, table: SyncTable<T>, scope: Scope | null, counts: TableSyncCounts) => {
+  const cursor = getSyncCursor(table.name, scopeKey(scope));
+  const since = cursor && new Date(new Date(cursor).getTime() - PULL_OVERLAP_MS).toISOString();
+  const rows = await readAs(session, () => getCloudBackend().selectChangedSince(
+    table.name, SERVER_STAMP_COLUMN, since, scope || undefined, toRowWindow(session, table.pullWindow)
+  ));
+
+  const items = new Map(readCollection<T>(table.name).map(i => [i.id, i]));
+  let nextCursor = cursor;
+  let changed = false;
+
+  rows.forEach(row => {
+    const existing = items.get(row.id);
+    const cloud = table.fromDb(row, existing);
+    const stamp = row[SERVER_STAMP_COLUMN] && new Date(row[SERVER_STAMP_COLUMN]).toISOString();
+    if (stamp && (!nextCursor || stamp > nextCursor)) nextCursor = stamp;
+
+    // Local edits still waiting to be pushed are reconciled on the next push
+    if (isDirty(table.name, row.id)) return;
+    if (existing && cloud.updatedAt && existing.updatedAt === cloud.updatedAt) return;
+
+    items.set(row.id, cloud);
+    counts.pulled++;
+    changed = true;
+  });
+
+  if (changed) writeCollection(table.name, Array.from(items.values()));
+  setSyncCursor(table.name, nextCursor || SYNC_EPOCH, scopeKey(scope));
+};
+
+// Only records inside the scope can be judged; the session cannot see the rest
+const removeDeletedRecords = async <T extends SyncEntity>(session: CloudSession, table: SyncTable<T>, scope: Scope | null, counts: TableSyncCounts) => {
+  const cloudIds = await fetchCloudIds(session, table.name, scope);
+  const items = readCollection<T>(table.name);
+  const kept = items.filter(item => !inScope(item, scope) || cloudIds.has(item.id) || isDirty(table.name, item.id));
+  if (kept.length === items.length) return;
+  counts.deleted += items.length - kept.length;
+  writeCollection(table.name, kept);
+};
+
+// Append-only: inserts pending entries; existing ids are ignored so retries never rewrite history.
+// Sessions other than admins may only write entries for their own hospital.
+const pushAuditLog = async (session: CloudSession, counts: TableSyncCounts) => {
+  const pending = getPendingAuditEntries()
+    .filter(e => session.role === 'ADMIN' || e.hospitalId === session.hospitalId);
+  if (pending.length === 0) return;
+
+  await getCloudBackend().insertMissing('audit_log', pending.map(mapAuditToDb));
+
+  markAuditEntriesSynced(pending.map(e => e.id));
+  counts.pushed += pending.length;
+};
+
+// Staff sessions cannot read the audit log
+const pullAuditLog = async (session: CloudSession, counts: TableSyncCounts) => {
+  if (session.role === 'STAFF') return;
+  const filter = session.role === 'HOSPITAL' ? { column: 'hospital_id', value: session.hospitalId! } : undefined;
+  const rows = await getCloudBackend().selectLatest('audit_log', 'timestamp', AUDIT_PULL_LIMIT, filter);
+  counts.pulled += mergeAuditEntries(rows.map(mapAuditFromDb));
+};
+
+// --- Schema Check ---
+export interface SchemaStatus {
+  currentVersion: number;
+  latestVersion: number;
+  pending: SchemaMigration[];
+}
+
+// Backend whose schema was last confirmed current; nothing is written to an outdated schema
+let verifiedBackend: CloudBackend | null = null;
+
+export const getSchemaStatus = async (): Promise<SchemaStatus> => {
+  const backend = getCloudBackend();
+  const currentVersion = await backend.getSchemaVersion();
+  if (currentVersion >= LATEST_SCHEMA_VERSION) verifiedBackend = backend;
+  return { currentVersion, latestVersion: LATEST_SCHEMA_VERSION, pending: getPendingMigrations(currentVersion) };
+};
+
+// Only for backends that support it (see CloudBackend.applyMigrations)
+export const applyPendingMigrations = async (): Promise<SchemaStatus> => {
+  const backend = getCloudBackend();
+  if (!backend.applyMigrations) throw new Error('This backend must be migrated from the Supabase SQL Editor');
+  const { pending } = await getSchemaStatus();
+  if (pending.length > 0) await backend.applyMigrations(pending);
+  return getSchemaStatus();
+};
+
+// Returns why sync has to wait, or null when the cloud schema is current
+const checkSchema = async (): Promise<string | null> => {
+  if (verifiedBackend === getCloudBackend()) return null;
+  try {
+    const { currentVersion, pending } = await getSchemaStatus();
+    if (pending.length === 0) return null;
+    return `Cloud database schema is out of date (version ${currentVersion} of ${LATEST_SCHEMA_VERSION}). Apply the pending migrations in Cloud Settings.`;
+  } catch (err: any) {
+    return err?.message || 'Could not check the cloud database schema';
+  }
+};
+
+const failedReport = (message: string): SyncReport => ({
+  success: false,
+  message,
+  finishedAt: new Date().toISOString(),
+  tables: {},
+});
+
+const runStep = async (counts: TableSyncCounts, step: () => Promise<void>) => {
+  try {
+    await step();
+  } catch (err: any) {
+    console.error("Sync Error:", err);
+    counts.error = err?.message || 'Sync failed';
+  }
+};
+
+const pushAll = async (session: CloudSession, tables: Partial<Record<SyncReportTable, TableSyncCounts>>) => {
+  for (const table of TABLES) {
+    const scope = table.scope(session);
+    if (scope === false) continue;
+    const counts = tables[table.name] || (tables[table.name] = emptyCounts());
+    await runStep(counts, () => pushTable(session, table, scope, counts));
+  }
+  const auditCounts = tables.audit_log || (tables.audit_log = emptyCounts());
+  await runStep(auditCounts, () => pushAuditLog(session, auditCounts));
+};
+
+const fullSync = async (session: CloudSession): Promise<SyncReport> => {
+  const schemaError = await checkSchema();
+  if (schemaError) return failedReport(schemaError);
+
+  const tables: Partial<Record<SyncReportTable, TableSyncCounts>> = {};
+
+  for (const table of TABLES) {
+    const scope = table.scope(session);
+    if (scope === false) continue;
+    const counts = tables[table.name] = emptyCounts();
+    const previouslySynced = !!getSyncCursor(table.name, scopeKey(scope));
+    await runStep(counts, async () => {
+      if (!previouslySynced) await bootstrapTable(session, table, scope);
+      await pushTable(session, table, scope, counts);
+      await pullTable(session, table, scope, counts);
+      if (previouslySynced) await removeDeletedRecords(session, table, scope, counts);
+    });
+  }
+
+  const auditCounts = tables.audit_log = emptyCounts();
+  await runStep(auditCounts, async () => {
+    await pushAuditLog(session, auditCounts);
+    await pullAuditLog(session, auditCounts);
+  });
+
+  // Records pulled from other devices may include shifts that were never closed
+  if (await closeStaleShifts() > 0) await pushAll(session, tables);
+
+  return buildReport(tables, 'Data synced');
+};
+
+const buildReport = (tables: Partial<Record<SyncReportTable, TableSyncCounts>>, successMessage: string): SyncReport => {
+  const failed = Object.values(tables).some(c => c?.error);
+  return {
+    success: !failed,
+    message: failed ? 'Sync finished with errors' : successMessage,
+    finishedAt: new Date().toISOString(),
+    tables,
+  };
+};
+
+// Lets the service worker retry the outbox even if the page missed the `online` event
+const requestBackgroundSync = async () => {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    const registration: any = await navigator.serviceWorker.ready;
+    await registration.sync?.register(BACKGROUND_SYNC_TAG);
+  } catch (err) {
+    console.warn("Background sync unavailable:", err);
+  }
+};
+
+// Failed pushes are retried with exponential backoff; the queue itself is already persisted
+const handlePushOutcome = (report: SyncReport) => {
+  if (report.success || countDirty() === 0) {
+    resetOutboxRetryState();
+    return;
+  }
+  const attempts = getOutboxRetryState().attempts + 1;
+  const delay = Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+  const lastError = Object.values(report.tables).find(c => c?.error)?.error || report.message;
+  saveOutboxRetryState({ attempts, nextAttemptAt: new Date(Date.now() + delay).toISOString(), lastError });
+  window.clearTimeout(pushTimer);
+  pushTimer = window.setTimeout(pushPending, delay);
+  requestBackgroundSync();
+};
+
+let activeRun: Promise<SyncReport> | null = null;
+let pushQueued = false;
+let pushTimer: number | undefined;
+
+const finishRun = () => {
+  activeRun = null;
+  if (pushQueued) {
+    pushQueued = false;
+    schedulePush();
+  }
+};
+
+export const runSync = async (): Promise<SyncReport> => {
+  if (!navigator.onLine) return { success: false, message: 'Offline', finishedAt: new Date().toISOString(), tables: {} };
+  if (!isSyncEnabled()) return { success: true, message: 'Local Mode Only', finishedAt: new Date().toISOString(), tables: {} };
+  if (activeRun) return activeRun;
+  // Not an error worth reporting or retrying: sync resumes once someone signs in
+  const session = getCloudSession();
+  if (!session) return { success: false, message: 'Sign in to sync with the cloud', finishedAt: new Date().toISOString(), tables: {} };
+
+  activeRun = fullSync(session)
+    .then(report => {
+      saveSyncReport(report);
+      handlePushOutcome(report);
+      return report;
+    })
+    .finally(finishRun);
+  return activeRun;
+};
+
+// Pushes local changes shortly after they are made; pulls wait for the next full sync.
+// Resolves to whether the outbox was flushed without errors.
+const pushPending = async (): Promise<boolean> => {
+  if (!canReachCloud()) return false;
+  if (activeRun) {
+    pushQueued = true;
+    return false;
+  }
+  const session = getCloudSession()!;
+  const tables: Partial<Record<SyncReportTable, TableSyncCounts>> = {};
+  activeRun = checkSchema()
+    .then(async schemaError => {
+      if (schemaError) return failedReport(schemaError);
+      await pushAll(session, tables);
+      return buildReport(tables, 'Changes pushed');
+    })
+    .then(report => {
+      handlePushOutcome(report);
+      return report;
+    })
+    .finally(finishRun);
+  return (await activeRun).success;
+};
+
+// For shared kiosks: once a hospital signs out, only its data (and unpushed changes) stays.
+// Cursors of the purged scopes go too, so another hospital signing in later pulls in full.
+export const purgeOtherTenants = async (hospitalId: string): Promise<number> => {
+  if (activeRun) await activeRun.catch(() => undefined);
+  const removed = purgeOtherHospitals(hospitalId);
+  retainSyncCursors(scope => !!scope && scope.endsWith(`=${hospitalId}`));
+  return removed;
+};
+
+const schedulePush = () => {
+  window.clearTimeout(pushTimer);
+  pushTimer = window.setTimeout(pushPending, PUSH_DEBOUNCE_MS);
+};
+
+subscribeLocalChanges(schedulePush);
+
+window.addEventListener('online', () => {
+  // Connectivity is back: retry right away instead of waiting out the backoff
+  resetOutboxRetryState();
+  schedulePush();
+});
+
+// Background Sync fires in the service worker, which has no localStorage access,
+// so it asks an open page to flush the outbox and reports back through the port
+if ('serviceWorker' in navigator) {
+  navigator.serviceWorker.addEventListener('message', (event: MessageEvent) => {
+    if (event.data?.type !== 'FLUSH_OUTBOX') return;
+    pushPending().then(success => event.ports[0]?.postMessage({ success }));
+  });
+}
@@ -0,0 +1,171 @@
+// Local bookkeeping for the sync engine: which records changed since the last push,
+// how far each table has been pulled, and the outcome of the last sync.
+
+const DIRTY_KEY = 'mediguard_sync_dirty';
+// Server change stamps (migration 12); cursors from the older client-stamped key are not reused
+const CURSORS_KEY = 'mediguard_sync_server_cursors';
+const REPORT_KEY = 'mediguard_sync_report';
+const RETRY_KEY = 'mediguard_sync_retry';
+
+export type SyncTableName = 'hospitals' | 'users' | 'attendance_records' | 'roster_assignments' | 'correction_requests' | 'devices';
+export type SyncReportTable = SyncTableName | 'audit_log';
+
+export type DirtyOperation = 'UPSERT' | 'DELETE';
+
+export interface DirtyEntry {
+  op: DirtyOperation;
+  baseUpdatedAt?: string; // Cloud version the local change was made on top of
+  revision: number; // Bumped on every local change so a push never clears a newer edit
+}
+
+export interface TableSyncCounts {
+  pushed: number;
+  pulled: number;
+  conflicts: number;
+  deleted: number; // Removed locally because they no longer exist in the cloud
+  error?: string;
+}
+
+export interface SyncReport {
+  success: boolean;
+  message: string;
+  finishedAt: string; // ISO string
+  tables: Partial<Record<SyncReportTable, TableSyncCounts>>;
+}
+
+// Backoff bookkeeping for the outbox (the dirty entries waiting to be pushed)
+export interface OutboxRetryState {
+  attempts: number; // Consecutive failed pushes
+  nextAttemptAt?: string; // ISO string
+  lastError?: string;
+}
+
+type DirtyState = Partial<Record<SyncTableName, Record<string, DirtyEntry>>>;
+
+const getDirtyState = (): DirtyState => {
+  const data = localStorage.getItem(DIRTY_KEY);
+  return data ? JSON.parse(data) : {};
+};
+
+const saveDirtyState = (state: DirtyState) => {
+  localStorage.setItem(DIRTY_KEY, JSON.stringify(state));
+};
+
+// --- Change Notifications ---
+type ChangeListener = () => void;
+const listeners = new Set<ChangeListener>();
+
+export const subscribeLocalChanges = (listener: ChangeListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const notifyLocalChange = () => {
+  listeners.forEach(listener => listener());
+};
+
+// Fired whenever the pending count or retry state changes (for UI counters)
+const outboxListeners = new Set<ChangeListener>();
+
+export const subscribeOutbox = (listener: ChangeListener): (() => void) => {
+  outboxListeners.add(listener);
+  return () => { outboxListeners.delete(listener); };
+};
+
+const notifyOutboxChange = () => {
+  outboxListeners.forEach(listener => listener());
+};
+
+// --- Dirty Flags ---
+export const markDirty = (table: SyncTableName, id: string, op: DirtyOperation, baseUpdatedAt?: string) => {
+  const state = getDirtyState();
+  const entries = state[table] || {};
+  const existing = entries[id];
+  entries[id] = {
+    op,
+    // Repeated edits before a push keep the version the first edit started from
+    baseUpdatedAt: existing ? existing.baseUpdatedAt : baseUpdatedAt,
+    revision: (existing?.revision || 0) + 1,
+  };
+  state[table] = entries;
+  saveDirtyState(state);
+  notifyLocalChange();
+  notifyOutboxChange();
+};
+
+export const getDirtyEntries = (table: SyncTableName): Record<string, DirtyEntry> => {
+  return getDirtyState()[table] || {};
+};
+
+export const isDirty = (table: SyncTableName, id: string): boolean => {
+  return !!getDirtyState()[table]?.[id];
+};
+
+export const clearDirty = (table: SyncTableName, id: string, revision: number) => {
+  const state = getDirtyState();
+  const entry = state[table]?.[id];
+  if (!entry || entry.revision !== revision) return;
+  delete state[table]![id];
+  saveDirtyState(state);
+  notifyOutboxChange();
+};
+
+export const countDirty = (): number => {
+  return Object.values(getDirtyState()).reduce((sum, entries) => sum + Object.keys(entries || {}).length, 0);
+};
+
+// --- Outbox Retry ---
+export const getOutboxRetryState = (): OutboxRetryState => {
+  const data = localStorage.getItem(RETRY_KEY);
+  return data ? JSON.parse(data) : { attempts: 0 };
+};
+
+export const saveOutboxRetryState = (state: OutboxRetryState) => {
+  localStorage.setItem(RETRY_KEY, JSON.stringify(state));
+  notifyOutboxChange();
+};
+
+export const resetOutboxRetryState = () => {
+  if (!localStorage.getItem(RETRY_KEY)) return;
+  localStorage.removeItem(RETRY_KEY);
+  notifyOutboxChange();
+};
+
+// --- Pull Cursors ---
+// Kept per scope: a cursor advanced for one hospital's rows says nothing about another's
+const cursorKey = (table: SyncTableName, scope?: string) => scope ? `${table}:${scope}` : table;
+
+export const getSyncCursor = (table: SyncTableName, scope?: string): string | undefined => {
+  const data = localStorage.getItem(CURSORS_KEY);
+  return data ? JSON.parse(data)[cursorKey(table, scope)] : undefined;
+};
+
+export const setSyncCursor = (table: SyncTableName, cursor: string | undefined, scope?: string) => {
+  const data = localStorage.getItem(CURSORS_KEY);
+  const cursors = data ? JSON.parse(data) : {};
+  cursors[cursorKey(table, scope)] = cursor;
+  localStorage.setItem(CURSORS_KEY, JSON.stringify(cursors));
+};
+
+// Forgets the other scopes, so their rows are pulled in full if they are ever needed again
+export const retainSyncCursors = (keep: (scope: string | undefined) => boolean) => {
+  const data = localStorage.getItem(CURSORS_KEY);
+  if (!data) return;
+  const cursors: Record<string, string> = JSON.parse(data);
+  Object.keys(cursors)
+    .filter(key => !keep(key.includes(':') ? key.slice(key.indexOf(':') + 1) : undefined))
+    .forEach(key => delete cursors[key]);
+  localStorage.setItem(CURSORS_KEY, JSON.stringify(cursors));
+};
+
+// --- Reports ---
+export const emptyCounts = (): TableSyncCounts => ({ pushed: 0, pulled: 0, conflicts: 0, deleted: 0 });
+
+export const saveSyncReport = (report: SyncReport) => {
+  localStorage.setItem(REPORT_KEY, JSON.stringify(report));
+};
+
+export const getLastSyncReport = (): SyncReport | null => {
+  const data = localStorage.getItem(REPORT_KEY);
+  return data ? JSON.parse(data) : null;
+};
@@ -0,0 +1,236 @@
+import { AttendanceRecord, CorrectionRequest, Device } from '../types';
+import {
+  getAttendanceRecords, getCorrectionRequests, getStaffByHospital, getDevicesByUser,
+  saveAttendanceRecord, saveCorrectionRequest, saveDevice
+} from './storage';
+import { resolveAttendanceConflict, resolveCorrectionRequestConflict } from './syncConflicts';
+import { getDevicePublicKey, hasSameSignedContent, verifyAttendanceSignature } from './deviceSigning';
+
+// Manual transfer codes carry a staff device's records to the hospital device when there is
+// no cloud backend. Each record keeps the signature of the device that wrote it, and the
+// importing device only accepts records signed by one of the staff member's approved devices.
+// The code also carries the sender's device enrollments, so new devices show up for approval.
+
+const TRANSFER_CODE_VERSION = 2;
+
+interface TransferPayload {
+  version: number;
+  records: AttendanceRecord[];
+  correctionRequests: CorrectionRequest[];
+  devices?: Device[];
+}
+
+export type TransferRecordStatus = 'NEW' | 'UPDATED' | 'UNCHANGED' | 'REJECTED_TAMPERED' | 'REJECTED_FOREIGN_HOSPITAL';
+
+export const TRANSFER_STATUS_LABELS: Record<TransferRecordStatus, string> = {
+  NEW: 'New',
+  UPDATED: 'Updated',
+  UNCHANGED: 'Already up to date',
+  REJECTED_TAMPERED: 'Rejected: tampered',
+  REJECTED_FOREIGN_HOSPITAL: 'Rejected: other hospital'
+};
+
+export interface TransferRecordResult {
+  id: string;
+  label: string; // Staff name and check-in time, for the report
+  status: TransferRecordStatus;
+  reason?: string; // Why a record was rejected
+}
+
+export interface TransferImportReport {
+  success: boolean;
+  message: string;
+  records: TransferRecordResult[];
+  correctionRequests: number; // New or changed requests merged
+}
+
+// --- Validation ---
+const isString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+const isOptional = (value: unknown, check: (v: unknown) => boolean) => value === undefined || value === null || check(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isTimestamp = (value: unknown) => isString(value) && !Number.isNaN(Date.parse(value));
+const isOneOf = (...allowed: string[]) => (value: unknown) => typeof value === 'string' && allowed.includes(value);
+const isCoords = (value: unknown) => {
+  const coords = value as Record<string, unknown> | null;
+  return !!coords && typeof coords === 'object' && isNumber(coords.latitude) && isNumber(coords.longitude) && isOptional(coords.accuracy, isNumber);
+};
+const isVerification = isOneOf('VERIFIED', 'INSIDE_UNCERTAIN', 'OUTSIDE', 'NO_FIX');
+const isDeviceCheck = isOneOf('APPROVED_DEVICE', 'NOT_CHECKED', 'FLAGGED', 'OVERRIDDEN');
+
+const isAttendanceRecord = (value: unknown): value is AttendanceRecord => {
+  const r = value as Record<string, unknown> | null;
+  if (!r || typeof r !== 'object') return false;
+  return isString(r.id) && isString(r.userId) && isString(r.hospitalId)
+    && typeof r.userName === 'string' && typeof r.hospitalName === 'string'
+    && isTimestamp(r.checkInTime) && isOptional(r.checkOutTime, isTimestamp)
+    && isCoords(r.checkInCoords) && isOptional(r.checkOutCoords, isCoords)
+    && typeof r.flagged === 'boolean'
+    && isOptional(r.checkInVerification, isVerification) && isOptional(r.checkOutVerification, isVerification)
+    && isNumber(r.distanceFromCenter) && isOptional(r.durationMinutes, isNumber)
+    && isOptional(r.anomaly, isOneOf('DEVICE_MISMATCH'))
+    && isOptional(r.checkOutStatus, isOneOf('AUTO_CLOSED'))
+    && isOptional(r.autoCloseRule, isOneOf('MAX_LENGTH', 'SHIFT_END'))
+    && isOptional(r.checkInDeviceCheck, isDeviceCheck) && isOptional(r.checkOutDeviceCheck, isDeviceCheck)
+    && isOptional(r.reviewStatus, isOneOf('PENDING', 'APPROVED', 'REJECTED'))
+    && isOptional(r.updatedAt, isTimestamp);
+};
+
+const isCorrectionRequest = (value: unknown): value is CorrectionRequest => {
+  const c = value as Record<string, unknown> | null;
+  if (!c || typeof c !== 'object') return false;
+  return isString(c.id) && isString(c.recordId) && isString(c.userId) && isString(c.hospitalId)
+    && isTimestamp(c.proposedCheckInTime) && isOptional(c.proposedCheckOutTime, isTimestamp)
+    && typeof c.note === 'string' && isOneOf('PENDING', 'APPROVED', 'DECLINED')(c.status)
+    && isTimestamp(c.createdAt) && isTimestamp(c.updatedAt);
+};
+
+const isDevice = (value: unknown): value is Device => {
+  const d = value as Record<string, unknown> | null;
+  if (!d || typeof d !== 'object') return false;
+  return isString(d.id) && isString(d.deviceId) && isString(d.userId) && isString(d.hospitalId)
+    && typeof d.name === 'string' && isOptional(d.publicKey, isString)
+    && isOneOf('PENDING', 'APPROVED', 'REVOKED')(d.status) && isTimestamp(d.enrolledAt);
+};
+
+// --- Export ---
+export const exportAttendanceData = (hospitalId: string, userId?: string): string => {
+  const payload: TransferPayload = {
+    version: TRANSFER_CODE_VERSION,
+    records: getAttendanceRecords().filter(r => r.hospitalId === hospitalId && (!userId || r.userId === userId)),
+    correctionRequests: getCorrectionRequests().filter(c => c.hospitalId === hospitalId && (!userId || c.userId === userId)),
+    devices: userId ? getDevicesByUser(userId) : undefined
+  };
+  return btoa(JSON.stringify(payload));
+};
+
+// --- Import ---
+const recordLabel = (record: Partial<AttendanceRecord>): string => {
+  const time = record.checkInTime && !Number.isNaN(Date.parse(record.checkInTime))
+    ? new Date(record.checkInTime).toLocaleString()
+    : 'unknown time';
+  return `${record.userName || 'Unknown staff'} · ${time}`;
+};
+
+// The sender's word cannot approve a device here. Only enrollments of the staff member whose
+// records the code carries are read; unknown devices are added for approval, and only
+// revocations are taken over.
+const mergeSenderDevices = async (incoming: unknown[], hospitalId: string, senderIds: Set<string>) => {
+  for (const device of incoming) {
+    if (!isDevice(device) || device.hospitalId !== hospitalId || !senderIds.has(device.userId)) continue;
+    const existing = getDevicesByUser(device.userId).find(d => d.id === device.id);
+    if (existing) {
+      if (device.status === 'REVOKED' && existing.status !== 'REVOKED') {
+        await saveDevice({ ...existing, status: 'REVOKED', decidedBy: device.decidedBy, decidedAt: device.decidedAt });
+      }
+    } else {
+      await saveDevice({ ...device, status: 'PENDING', decidedBy: undefined, decidedAt: undefined });
+    }
+  }
+};
+
+// Reviews and corrections are the manager's and are not covered by the device signature,
+// so a staff device's copy of them is ignored in favour of ours
+const withLocalReview = (incoming: AttendanceRecord, existing?: AttendanceRecord): AttendanceRecord => ({
+  ...incoming,
+  correction: undefined,
+  reviewStatus: existing?.reviewStatus,
+  reviewNote: existing?.reviewNote,
+  reviewedBy: existing?.reviewedBy,
+  reviewedAt: existing?.reviewedAt
+});
+
+// Accepted signers: an approved device of the staff member, or this device (a record it
+// wrote and handed out earlier)
+const checkSignature = async (record: AttendanceRecord): Promise<string | null> => {
+  if (!record.deviceSignature) return 'Not signed. Update the app on the staff device and create a new code.';
+  if (!(await verifyAttendanceSignature(record))) return 'Signature does not match the record; it was changed after signing.';
+
+  const signer = record.deviceSignature.key;
+  if (signer === await getDevicePublicKey()) return null;
+
+  const device = getDevicesByUser(record.userId).find(d => d.publicKey === signer);
+  if (!device) return 'Signed by a device that is not enrolled for this staff member.';
+  if (device.status === 'PENDING') return `Signed by "${device.name}", which is awaiting approval. Approve it under Devices and import the code again.`;
+  if (device.status === 'REVOKED') return `Signed by "${device.name}", which was revoked.`;
+  return null;
+};
+
+// Validates every record on its own, so one bad record does not block the rest of the code
+export const importAttendanceData = async (encodedData: string, hospitalId: string): Promise<TransferImportReport> => {
+  let payload: TransferPayload;
+  try {
+    payload = JSON.parse(atob(encodedData.trim()));
+  } catch (e) {
+    console.error("Import failed", e);
+    return { success: false, message: 'This is not a valid transfer code.', records: [], correctionRequests: 0 };
+  }
+  if (payload?.version !== TRANSFER_CODE_VERSION || !Array.isArray(payload.records)) {
+    return { success: false, message: 'This code is from an older version. Update the app on the staff device and create a new code.', records: [], correctionRequests: 0 };
+  }
+
+  const staff = new Map(getStaffByHospital(hospitalId).map(u => [u.id, u]));
+  const results: TransferRecordResult[] = [];
+  const senderIds = new Set((payload.records as unknown[])
+    .map(r => (r as Partial<AttendanceRecord>)?.userId)
+    .filter((userId): userId is string => !!userId && staff.has(userId)));
+  await mergeSenderDevices(Array.isArray(payload.devices) ? payload.devices : [], hospitalId, senderIds);
+
+  for (const incoming of payload.records as unknown[]) {
+    const id = (incoming as Partial<AttendanceRecord>)?.id || 'unknown';
+    const label = recordLabel((incoming as Partial<AttendanceRecord>) || {});
+    if (!isAttendanceRecord(incoming)) {
+      results.push({ id, label, status: 'REJECTED_TAMPERED', reason: 'Missing or malformed fields.' });
+      continue;
+    }
+
+    const user = staff.get(incoming.userId);
+    if (incoming.hospitalId !== hospitalId || !user) {
+      results.push({ id, label, status: 'REJECTED_FOREIGN_HOSPITAL', reason: 'Belongs to another hospital or to someone not on this staff list.' });
+      continue;
+    }
+
+    // A copy identical to ours in everything the device signed needs no trust decision
+    const existing = getAttendanceRecords().find(r => r.id === incoming.id);
+    if (!existing || !hasSameSignedContent(existing, incoming)) {
+      const problem = await checkSignature(incoming);
+      if (problem) {
+        results.push({ id, label, status: 'REJECTED_TAMPERED', reason: problem });
+        continue;
+      }
+    }
+
+    // Same conflict rules as cloud sync, so a stale copy never overwrites a check-out or a manager's decision
+    const record = withLocalReview(incoming, existing);
+    const resolved = existing ? resolveAttendanceConflict(existing, record) : record;
+    if (resolved === existing) {
+      results.push({ id, label, status: 'UNCHANGED' });
+      continue;
+    }
+    await saveAttendanceRecord(resolved);
+    results.push({ id, label, status: existing ? 'UPDATED' : 'NEW' });
+  }
+
+  let correctionRequests = 0;
+  const incomingRequests: unknown[] = Array.isArray(payload.correctionRequests) ? payload.correctionRequests : [];
+  for (const incoming of incomingRequests) {
+    // Staff devices only raise requests; approving or rejecting one is done on this side
+    if (!isCorrectionRequest(incoming) || incoming.status !== 'PENDING' || incoming.hospitalId !== hospitalId || !staff.has(incoming.userId)) continue;
+    const existing = getCorrectionRequests().find(c => c.id === incoming.id);
+    const request = { ...incoming, resolvedBy: undefined, resolvedAt: undefined, resolutionNote: undefined };
+    const resolved = existing ? resolveCorrectionRequestConflict(existing, request) : request;
+    if (resolved === existing) continue;
+    await saveCorrectionRequest(resolved);
+    correctionRequests++;
+  }
+
+  const rejected = results.filter(r => r.status.startsWith('REJECTED')).length;
+  const merged = results.filter(r => r.status === 'NEW' || r.status === 'UPDATED').length;
+  return {
+    success: true,
+    message: rejected > 0
+      ? `Merged ${merged} record(s); ${rejected} rejected.`
+      : `Merged ${merged} record(s).`,
+    records: results,
+    correctionRequests
+  };
+};
@@ -1,4 +1,7 @@
 const CACHE_NAME = 'mediguard-v1';
+// Must match BACKGROUND_SYNC_TAG in services/syncEngine.ts
+const OUTBOX_SYNC_TAG = 'mediguard-outbox';
+const OUTBOX_FLUSH_TIMEOUT_MS = 30000;
 
 // Install event - activate immediately
 self.addEventListener('install', (event) => {
@@ -46,4 +49,29 @@ self.addEventListener('fetch', (event) => {
       });
     })
   );
-});
\ No newline at end of file
+});
+
+// Background Sync - the outbox lives in the page's localStorage, so ask an open
+// window to flush it. Rejecting lets the browser retry later with its own backoff.
+const askClientToFlush = (client) => new Promise((resolve, reject) => {
+  const channel = new MessageChannel();
+  const timer = setTimeout(() => reject(new Error('Outbox flush timed out')), OUTBOX_FLUSH_TIMEOUT_MS);
+  channel.port1.onmessage = (message) => {
+    clearTimeout(timer);
+    if (message.data && message.data.success) resolve();
+    else reject(new Error('Outbox flush failed'));
+  };
+  client.postMessage({ type: 'FLUSH_OUTBOX' }, [channel.port2]);
+});
+
+self.addEventListener('sync', (event) => {
+  if (event.tag !== OUTBOX_SYNC_TAG) return;
+
+  event.waitUntil(
+    clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      // No open window: the queue is flushed by the next app launch instead
+      if (windows.length === 0) return;
+      return askClientToFlush(windows[0]);
+    })
+  );
+});
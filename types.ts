@@ -10,20 +10,54 @@ export interface Coords {
   accuracy?: number;
 }
 
+interface GeofenceZoneBase {
+  id: string;
+  name: string; // e.g. "Main Building", "East Annex"
+}
+
+export interface CircleZone extends GeofenceZoneBase {
+  type: 'circle';
+  center: Coords;
+  radius: number; // in meters
+}
+
+export interface PolygonZone extends GeofenceZoneBase {
+  type: 'polygon';
+  points: Coords[]; // Vertices in order, implicitly closed
+}
+
+export type GeofenceZone = CircleZone | PolygonZone;
+
+export interface ShiftTemplate {
+  id: string;
+  name: string; // e.g. "Morning", "Night"
+  startTime: string; // "HH:mm" local time
+  endTime: string; // "HH:mm" local time, earlier than startTime for overnight shifts
+  graceMinutes: number; // Allowed lateness before a check-in counts as late
+  daysOfWeek: number[]; // Days the shift starts on, 0 = Sunday
+}
+
 export interface Hospital {
   id: string;
   name: string;
   registrationNumber: string;
   username: string; // Used for Hospital Login
-  password: string; // Used for Hospital Login
-  logViewPassword?: string; // New: Secondary password for viewing logs
+  password: string; // Used for Hospital Login (hashed)
+  logViewPassword?: string; // New: Secondary password for viewing logs (hashed)
+  registeredBy?: string; // Name of the admin who registered the hospital
   coords: Coords;
   radius: number; // in meters
+  zones?: GeofenceZone[]; // Replaces the coords/radius circle when present
+  shifts?: ShiftTemplate[]; // Falls back to the default day shift when empty
+  autoClosePolicy?: AutoClosePolicy; // Falls back to DEFAULT_AUTO_CLOSE_POLICY when unset
+  devicePolicy?: DevicePolicy; // Falls back to DEFAULT_DEVICE_POLICY when unset
   emailReportConfig?: {
     recipientEmail: string;
     lastReportDate?: string; // ISO string
     enabled: boolean;
   };
+  configSigningKeys?: string[]; // Public keys (base64url SPKI) trusted to sign config links
+  updatedAt?: string; // ISO string; set on every local write, used for sync conflict detection
 }
 
 export interface User {
@@ -31,11 +65,16 @@ export interface User {
   name: string;
   role: UserRole;
   hospitalId: string; // Links staff to a specific hospital
-  pin: string; // Simple 4-digit pin for staff access
-  boundDeviceId?: string; // Security: Locks user to a specific device/phone
+  pin: string; // Hashed 4-digit PIN for staff, hashed password for admins
+  username?: string; // Login name, admins only
+  boundDeviceId?: string; // Legacy single-device binding, read once to enroll that device (see Device)
   profilePicture?: string; // Base64 string of the image
+  updatedAt?: string; // ISO string
 }
 
+// Outcome of a multi-sample, accuracy-aware location check
+export type LocationVerification = 'VERIFIED' | 'INSIDE_UNCERTAIN' | 'OUTSIDE' | 'NO_FIX';
+
 export interface AttendanceRecord {
   id: string;
   userId: string;
@@ -46,12 +85,151 @@ export interface AttendanceRecord {
   checkOutTime?: string; // ISO string
   checkInCoords: Coords;
   checkOutCoords?: Coords;
-  flagged: boolean; // True if checked in/out outside radius
-  distanceFromCenter: number; // in meters at check-in
+  flagged: boolean; // True if either verification was OUTSIDE or NO_FIX
+  checkInVerification?: LocationVerification; // Missing on records made before verification policies
+  checkOutVerification?: LocationVerification;
+  distanceFromCenter: number; // in meters at check-in, from the nearest zone's center
+  zoneName?: string; // Geofence zone matched at check-in
+  checkOutZoneName?: string; // Geofence zone matched at check-out
   durationMinutes?: number;
   checkInDeviceId?: string; // New: Track device on check-in
   checkOutDeviceId?: string; // New: Track device on check-out
-  anomaly?: 'DEVICE_MISMATCH'; // New: Flag for suspicious activity
+  checkInDeviceCheck?: DeviceCheckOutcome; // How the device policy treated the check-in device
+  checkOutDeviceCheck?: DeviceCheckOutcome;
+  anomaly?: 'DEVICE_MISMATCH'; // Set by the device policy; other anomalies are detected when records are reviewed (see anomalyRules.ts)
+  checkOutStatus?: 'AUTO_CLOSED'; // Closed by the stale-shift policy rather than by the staff member
+  autoCloseRule?: AutoCloseRule;
+  correction?: AttendanceCorrection; // Set when a manager edits the times
+  reviewStatus?: ReviewStatus; // Unset until a manager reviews a flagged/anomalous record
+  reviewNote?: string;
+  reviewedBy?: string;
+  reviewedAt?: string; // ISO string
+  deviceSignature?: DeviceSignature; // Signature of the device that last changed the attendance facts
+  updatedAt?: string; // ISO string
+}
+
+export type AnomalyType =
+  | 'DEVICE_MISMATCH'
+  | 'IMPOSSIBLE_TRAVEL'
+  | 'REUSED_COORDINATES'
+  | 'SHARED_DEVICE'
+  | 'SHORT_SHIFT'
+  | 'LONG_SHIFT'
+  | 'OFF_ROSTER';
+
+export type AnomalySeverity = 'LOW' | 'MEDIUM' | 'HIGH';
+
+export interface Anomaly {
+  type: AnomalyType;
+  severity: AnomalySeverity;
+  detail: string; // What the rule found, e.g. "Same device as Jane Doe 3 min earlier"
+}
+
+export interface DeviceSignature {
+  key: string; // base64url SPKI public key of the signing device
+  value: string; // base64url ECDSA P-256 signature
+}
+
+export type AutoCloseRule = 'MAX_LENGTH' | 'SHIFT_END';
+
+export interface AutoClosePolicy {
+  enabled: boolean;
+  maxShiftHours: number; // Open shifts are closed at check-in + this many hours
+  closeAtShiftEnd: boolean; // Also close at the matched shift's scheduled end
+  shiftEndBufferMinutes: number; // Overtime allowed past the scheduled end before closing
+}
+
+// What happens when staff check in or out from a device that is not their approved device:
+// OFF ignores it, FLAG records an anomaly, BLOCK refuses, OVERRIDE needs the manager's override PIN
+export type DevicePolicyMode = 'OFF' | 'FLAG' | 'BLOCK' | 'OVERRIDE';
+
+export interface DevicePolicy {
+  mode: DevicePolicyMode;
+  overridePin?: string; // Hashed; required by OVERRIDE
+}
+
+export type DeviceCheckOutcome = 'APPROVED_DEVICE' | 'NOT_CHECKED' | 'FLAGGED' | 'OVERRIDDEN';
+
+export type ReviewStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export interface AttendanceCorrection {
+  originalCheckInTime: string; // Values recorded by the device, kept across repeated corrections
+  originalCheckOutTime?: string;
+  originalDurationMinutes?: number;
+  reason: string;
+  correctedBy: string;
+  correctedAt: string; // ISO string
+}
+
+export type CorrectionRequestStatus = 'PENDING' | 'APPROVED' | 'DECLINED';
+
+// Raised by staff against one of their own attendance records
+export interface CorrectionRequest {
+  id: string;
+  recordId: string;
+  userId: string;
+  userName: string;
+  hospitalId: string;
+  proposedCheckInTime: string; // ISO string
+  proposedCheckOutTime?: string; // ISO string
+  note: string;
+  status: CorrectionRequestStatus;
+  createdAt: string; // ISO string
+  updatedAt: string; // ISO string; the newer copy wins when syncing
+  resolvedBy?: string;
+  resolvedAt?: string; // ISO string
+  resolutionNote?: string;
+}
+
+export type DeviceStatus = 'PENDING' | 'APPROVED' | 'REVOKED';
+
+// A device (one browser install) enrolled for a staff member. Check-ins need an approved enrollment.
+export interface Device {
+  id: string;
+  deviceId: string; // Local id from getOrCreateDeviceId
+  userId: string;
+  hospitalId: string;
+  name: string; // Detected platform until a manager renames it
+  publicKey?: string; // Attendance signing key of the device (see deviceSigning.ts)
+  status: DeviceStatus;
+  enrolledAt: string; // ISO string
+  decidedBy?: string; // Manager who approved or revoked it
+  decidedAt?: string; // ISO string
+  updatedAt?: string; // ISO string
+}
+
+export interface RosterAssignment {
+  id: string;
+  hospitalId: string;
+  userId: string;
+  shiftId: string; // References a ShiftTemplate on the hospital
+  date: string; // "YYYY-MM-DD" local date the shift starts on
+  updatedAt?: string; // ISO string
+}
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE';
+export type AuditEntityType = 'HOSPITAL' | 'USER' | 'ATTENDANCE' | 'ROSTER' | 'CORRECTION_REQUEST' | 'DEVICE';
+
+export interface AuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string; // ISO string
+  actorId?: string;
+  actorName: string;
+  actorRole?: UserRole;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityLabel?: string; // Human readable name at the time of the change
+  hospitalId?: string;
+  changes: AuditChange[];
+  deviceId: string;
+  synced?: boolean; // Local only: pushed to the cloud audit_log table
 }
 
 export interface AttendanceStats {